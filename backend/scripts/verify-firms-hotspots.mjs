@@ -68,7 +68,7 @@ async function main() {
                 throw new Error(`Failed to fetch disasters: ${disastersResp.status} ${disastersResp.statusText}`);
             }
 
-            const disasters = await disastersResp.json();
+            const { disasters } = await disastersResp.json();
             const fires = disasters.filter(d => d.type === 'fire');
 
             if (fires.length === 0) {
@@ -0,0 +1,117 @@
+/**
+ * Stale-while-revalidate KV cache
+ *
+ * Entries are stored with the time they were fetched and kept well past their TTL,
+ * so an expired entry is still served immediately while a fresh copy is fetched:
+ * in the background when a waitUntil is available (requests), inline otherwise (Cron pre-warming).
+ * Concurrent reads of an expired key in one isolate share a single revalidation
+ */
+
+export type CacheEntry<T> = {
+	fetchedAt: string; // ISO time of the last successful load
+	value: T;
+	lastError?: string; // Last failed revalidation (cleared by the next success)
+	lastErrorAt?: string;
+};
+
+/**
+ * live = loaded during this call, fresh = within TTL,
+ * revalidating = expired and being refreshed in the background, stale = expired and the last refresh failed
+ */
+export type CacheState = 'live' | 'fresh' | 'revalidating' | 'stale';
+
+export type CachedValue<T> = {
+	value: T;
+	fetchedAt: string;
+	ageSeconds: number;
+	state: CacheState;
+	error?: string;
+};
+
+export type CacheOptions = {
+	ttl: number; // Seconds a value is served without revalidating
+	retention?: number; // Seconds an entry stays in KV for stale serving
+	waitUntil?: (promise: Promise<unknown>) => void; // Background revalidation; inline when omitted
+};
+
+/** Default KV retention: long enough to bridge a multi-day upstream outage */
+export const DEFAULT_RETENTION = 7 * 24 * 60 * 60; // 7 days
+
+// Revalidations running in this isolate, by key, so concurrent stale reads refresh each key once
+const revalidations = new Map<string, Promise<CachedValue<unknown>>>();
+
+/**
+ * Read-through cache: returns the cached value (revalidating it when expired) or loads it
+ * Throws only when there is no cached value and load() fails
+ */
+export async function swrCache<T>(
+	kv: KVNamespace | undefined,
+	key: string,
+	load: () => Promise<T>,
+	options: CacheOptions
+): Promise<CachedValue<T>> {
+	const retention = Math.max(60, options.retention ?? DEFAULT_RETENTION);
+
+	const store = async (entry: CacheEntry<T>) => {
+		await kv?.put(key, JSON.stringify(entry), { expirationTtl: retention });
+	};
+
+	const loadLive = async (): Promise<CachedValue<T>> => {
+		const entry: CacheEntry<T> = { fetchedAt: new Date().toISOString(), value: await load() };
+		await store(entry);
+		return { value: entry.value, fetchedAt: entry.fetchedAt, ageSeconds: 0, state: 'live' };
+	};
+
+	const entry = kv ? await kv.get<CacheEntry<T>>(key, 'json') : null;
+	if (!entry) {
+		console.log(`Cache miss: ${key}`);
+		return loadLive();
+	}
+
+	const ageSeconds = Math.max(0, Math.round((Date.now() - new Date(entry.fetchedAt).getTime()) / 1000));
+	const cachedValue = (state: CacheState, error?: string): CachedValue<T> => ({
+		value: entry.value,
+		fetchedAt: entry.fetchedAt,
+		ageSeconds,
+		state,
+		...(error ? { error } : {}),
+	});
+
+	if (ageSeconds < options.ttl) {
+		console.log(`Cache hit: ${key}`);
+		return cachedValue('fresh');
+	}
+
+	// Expired: refresh, keeping the old value (and recording the error) if the upstream fails
+	const revalidate = async (): Promise<CachedValue<T>> => {
+		try {
+			return await loadLive();
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			console.error(`❌ Revalidation failed for ${key}:`, message);
+			await store({ ...entry, lastError: message, lastErrorAt: new Date().toISOString() }).catch(() => {});
+			return cachedValue('stale', message);
+		}
+	};
+
+	let refresh = revalidations.get(key) as Promise<CachedValue<T>> | undefined;
+	const started = !refresh;
+	if (!refresh) {
+		refresh = revalidate().finally(() => revalidations.delete(key));
+		revalidations.set(key, refresh);
+	}
+
+	if (options.waitUntil) {
+		console.log(`Cache expired (${ageSeconds}s old): ${key} - ${started ? 'revalidating in background' : 'already revalidating'}`);
+		if (started) options.waitUntil(refresh);
+		// A previous refresh already failed: report it rather than pretending the data is current
+		return entry.lastError ? cachedValue('stale', entry.lastError) : cachedValue('revalidating');
+	}
+
+	return refresh;
+}
+
+/**
+ * Response header carrying the age of cached data, in seconds
+ */
+export const CACHE_AGE_HEADER = 'X-Cache-Age';
@@ -0,0 +1,302 @@
+/**
+ * CAP 1.2 (Common Alerting Protocol) export
+ * Turns disasters at or above a minimum severity into CAP messages for emergency management systems:
+ * one <alert> with an <info> block per active event (GET /api/alerts.cap), a standalone <alert> per event
+ * (GET /api/alerts/:id), and an ATOM index embedding every event's <alert> (GET /api/alerts.atom)
+ * http://docs.oasis-open.org/emergency/cap/v1.2/CAP-v1.2.html
+ */
+
+import { meetsSeverity, SEVERITY_LEVELS, type Severity } from './severity';
+import type { Disaster, DisasterType } from './types';
+import { ATOM_CONTENT_TYPE, escapeXml, xmlText } from './xml';
+
+export const CAP_NAMESPACE = 'urn:oasis:names:tc:emergency:cap:1.2';
+export const CAP_CONTENT_TYPE = 'application/cap+xml';
+
+/** Alerts are exported for disasters at or above this severity unless CAP_MIN_SEVERITY / minSeverity say otherwise */
+export const DEFAULT_CAP_MIN_SEVERITY: Severity = 'high';
+
+export type CapSeverity = 'Extreme' | 'Severe' | 'Moderate' | 'Minor' | 'Unknown';
+export type CapUrgency = 'Immediate' | 'Expected' | 'Future' | 'Past' | 'Unknown';
+
+export type CapOptions = {
+	baseUrl: string; // Origin of this API, for links back to the alert documents
+	sender: string; // CAP <sender>, e.g. aegismap@api.example.org
+};
+
+/** CAP <category> and <event> per disaster type */
+const CAP_EVENTS: Record<DisasterType, { category: string; event: string }> = {
+	fire: { category: 'Fire', event: 'Wildfire' },
+	volcano: { category: 'Geo', event: 'Volcanic Activity' },
+	earthquake: { category: 'Geo', event: 'Earthquake' },
+	storm: { category: 'Met', event: 'Severe Storm' },
+	flood: { category: 'Met', event: 'Flood' },
+	landslide: { category: 'Geo', event: 'Landslide' },
+	dust: { category: 'Met', event: 'Dust and Haze' },
+	ice: { category: 'Met', event: 'Sea and Lake Ice' },
+	drought: { category: 'Env', event: 'Drought' },
+	snow: { category: 'Met', event: 'Snow' },
+};
+
+/** Radius of the alert <circle> around the reported position (earthquakes scale with magnitude) */
+const AREA_RADIUS_KM: Record<DisasterType, number> = {
+	fire: 25,
+	volcano: 50,
+	earthquake: 50,
+	storm: 150,
+	flood: 50,
+	landslide: 10,
+	dust: 200,
+	ice: 100,
+	drought: 200,
+	snow: 100,
+};
+
+/** Events last observed within this window are still Immediate; older ones are Unknown */
+const IMMEDIATE_WINDOW_MS = 48 * 60 * 60 * 1000;
+
+/** Score at or above which a high-severity event is Extreme */
+const EXTREME_SCORE = 80;
+
+const KM_PER_DEGREE = 111.32;
+
+/**
+ * Minimum severity of an export: the minSeverity query parameter, else CAP_MIN_SEVERITY, else the default
+ * An invalid configured value falls back to the default; an invalid parameter is an error
+ */
+export function parseCapMinSeverity(param: string | undefined, configured: string | undefined): Severity | { error: string } {
+	const fallback = SEVERITY_LEVELS.includes(configured as Severity) ? (configured as Severity) : DEFAULT_CAP_MIN_SEVERITY;
+	const minSeverity = param ?? fallback;
+	if (!SEVERITY_LEVELS.includes(minSeverity as Severity)) {
+		return { error: `Invalid minSeverity. Use one of: ${SEVERITY_LEVELS.join(', ')}` };
+	}
+	return minSeverity as Severity;
+}
+
+/**
+ * Whether a disaster can be sent as a CAP alert: <sent> and <effective> need a valid observation time,
+ * so an upstream date that cannot be parsed leaves the event out instead of failing the export
+ */
+export function capExportable(disaster: Disaster): boolean {
+	return !isNaN(new Date(disaster.date).getTime());
+}
+
+/**
+ * URL of the standalone CAP document of a disaster
+ */
+export function capAlertUrl(baseUrl: string, disaster: Disaster): string {
+	return `${baseUrl}/api/alerts/${encodeURIComponent(disaster.id)}`;
+}
+
+/**
+ * Disasters that get a CAP alert, most severe first
+ */
+export function capAlertDisasters(disasters: Disaster[], minSeverity: Severity): Disaster[] {
+	return disasters
+		.filter((disaster) => capExportable(disaster) && meetsSeverity(disaster.severity, minSeverity))
+		.sort((a, b) => (b.severityScore ?? 0) - (a.severityScore ?? 0));
+}
+
+/**
+ * CAP <severity>: GDACS red alerts and top scores are Extreme, then our severity one-to-one
+ */
+export function capSeverity(disaster: Disaster): CapSeverity {
+	if (disaster.alertLevel === 'red' || (disaster.severity === 'high' && (disaster.severityScore ?? 0) >= EXTREME_SCORE)) {
+		return 'Extreme';
+	}
+	return ({ high: 'Severe', medium: 'Moderate', low: 'Minor' } as const)[disaster.severity] ?? 'Unknown';
+}
+
+/**
+ * CAP <urgency>: earthquakes have already happened; other events are Immediate while still being reported
+ */
+export function capUrgency(disaster: Disaster, now: Date = new Date()): CapUrgency {
+	if (disaster.type === 'earthquake') return 'Past';
+	const observedAt = new Date(disaster.date).getTime();
+	if (isNaN(observedAt)) return 'Unknown';
+	return now.getTime() - observedAt <= IMMEDIATE_WINDOW_MS ? 'Immediate' : 'Unknown';
+}
+
+/**
+ * CAP message identifier; changes whenever the event has a newer observation
+ */
+export function capIdentifier(disaster: Disaster): string {
+	const observed = Math.floor(new Date(disaster.date).getTime() / 1000) || 0;
+	return `aegismap-${disaster.id}-${observed}`.replace(/[^A-Za-z0-9._-]/g, '_');
+}
+
+/**
+ * A standalone CAP 1.2 document for one disaster
+ */
+export function capAlertDocument(disaster: Disaster, options: CapOptions, now?: Date): string {
+	return `<?xml version="1.0" encoding="UTF-8"?>\n${capAlertElement(disaster, options, now)}`;
+}
+
+/**
+ * One CAP 1.2 document for every active alert: a single <alert> carrying one <info> block per disaster
+ * (CAP allows several; each has its own event, area and AegisMapEventId). With no alerts it has no <info>
+ */
+export function capAlertsDocument(disasters: Disaster[], options: CapOptions, now: Date = new Date()): string {
+	const alerts = disasters.filter(capExportable);
+	return (
+		`<?xml version="1.0" encoding="UTF-8"?>\n` +
+		`<alert xmlns="${CAP_NAMESPACE}">\n` +
+		xmlText('identifier', `aegismap-alerts-${Math.floor(now.getTime() / 1000)}`, '\t') +
+		xmlText('sender', options.sender, '\t') +
+		xmlText('sent', capDateTime(now), '\t') +
+		xmlText('status', 'Actual', '\t') +
+		xmlText('msgType', 'Alert', '\t') +
+		xmlText('source', 'AegisMap', '\t') +
+		xmlText('scope', 'Public', '\t') +
+		alerts.map((disaster) => capInfoElement(disaster, options, now, '\t')).join('') +
+		`</alert>\n`
+	);
+}
+
+/**
+ * The CAP <alert> element for one disaster (children in XSD sequence order)
+ */
+export function capAlertElement(disaster: Disaster, options: CapOptions, now: Date = new Date(), indent = ''): string {
+	const i1 = `${indent}\t`;
+
+	return (
+		`${indent}<alert xmlns="${CAP_NAMESPACE}">\n` +
+		xmlText('identifier', capIdentifier(disaster), i1) +
+		xmlText('sender', options.sender, i1) +
+		xmlText('sent', capDateTime(disaster.date), i1) +
+		xmlText('status', 'Actual', i1) +
+		xmlText('msgType', 'Alert', i1) +
+		xmlText('source', disasterSourceName(disaster), i1) +
+		xmlText('scope', 'Public', i1) +
+		capInfoElement(disaster, options, now, i1) +
+		`${indent}</alert>\n`
+	);
+}
+
+// The <info> block of one disaster (children in XSD sequence order)
+function capInfoElement(disaster: Disaster, { baseUrl }: CapOptions, now: Date, indent: string): string {
+	const { category, event } = CAP_EVENTS[disaster.type];
+	const i1 = `${indent}\t`;
+	const i2 = `${indent}\t\t`;
+
+	const parameters = [
+		['AegisMapEventId', disaster.id],
+		['AegisMapSeverityScore', disaster.severityScore],
+		['Magnitude', disaster.magnitude],
+		[disaster.magnitudeUnit ? `Magnitude (${disaster.magnitudeUnit})` : 'MagnitudeValue', disaster.magnitudeValue],
+		['GDACSAlertLevel', disaster.alertLevel],
+	] as const;
+
+	return (
+		`${indent}<info>\n` +
+		xmlText('language', 'en-US', i1) +
+		xmlText('category', category, i1) +
+		xmlText('event', event, i1) +
+		xmlText('responseType', 'Monitor', i1) +
+		xmlText('urgency', capUrgency(disaster, now), i1) +
+		xmlText('severity', capSeverity(disaster), i1) +
+		xmlText('certainty', 'Observed', i1) +
+		xmlText('effective', capDateTime(disaster.date), i1) +
+		xmlText('senderName', 'AegisMap', i1) +
+		xmlText('headline', disaster.title, i1) +
+		xmlText('description', describe(disaster), i1) +
+		xmlText('web', disaster.alertUrl ?? capAlertUrl(baseUrl, disaster), i1) +
+		parameters
+			.filter(([, value]) => value !== undefined)
+			.map(([name, value]) => `${i1}<parameter>\n${xmlText('valueName', name, i2)}${xmlText('value', value, i2)}${i1}</parameter>\n`)
+			.join('') +
+		`${i1}<area>\n` +
+		xmlText('areaDesc', disaster.title, i2) +
+		(disaster.track && disaster.track.length > 1 ? xmlText('polygon', trackPolygon(disaster), i2) : '') +
+		xmlText('circle', `${disaster.lat},${disaster.lng} ${areaRadiusKm(disaster)}`, i2) +
+		`${i1}</area>\n` +
+		`${indent}</info>\n`
+	);
+}
+
+/**
+ * ATOM index of active alerts; each entry links to its CAP document and embeds the <alert>
+ * Disasters without a valid observation time are skipped (see capExportable)
+ */
+export function capAtomIndex(disasters: Disaster[], options: CapOptions, now: Date = new Date()): string {
+	const selfUrl = `${options.baseUrl}/api/alerts.atom`;
+	const alerts = disasters.filter(capExportable);
+	const latestObservation = Math.max(...alerts.map((d) => new Date(d.date).getTime()));
+
+	const entries = alerts.map((disaster) => {
+		const alertUrl = capAlertUrl(options.baseUrl, disaster);
+		return (
+			`\t<entry>\n` +
+			xmlText('id', alertUrl, '\t\t') +
+			xmlText('title', disaster.title, '\t\t') +
+			xmlText('updated', new Date(disaster.date).toISOString(), '\t\t') +
+			`\t\t<link rel="alternate" type="${CAP_CONTENT_TYPE}" href="${escapeXml(alertUrl)}"/>\n` +
+			xmlText('summary', `${capSeverity(disaster)} ${CAP_EVENTS[disaster.type].event}: ${disaster.title}`, '\t\t') +
+			`\t\t<content type="${CAP_CONTENT_TYPE}">\n` +
+			capAlertElement(disaster, options, now, '\t\t\t') +
+			`\t\t</content>\n` +
+			`\t</entry>\n`
+		);
+	});
+
+	return (
+		`<?xml version="1.0" encoding="UTF-8"?>\n` +
+		`<feed xmlns="http://www.w3.org/2005/Atom">\n` +
+		xmlText('id', selfUrl, '\t') +
+		xmlText('title', 'AegisMap active CAP alerts', '\t') +
+		xmlText('updated', (Number.isFinite(latestObservation) ? new Date(latestObservation) : now).toISOString(), '\t') +
+		`\t<author>\n${xmlText('name', 'AegisMap', '\t\t')}\t</author>\n` +
+		`\t<link rel="self" type="${ATOM_CONTENT_TYPE}" href="${escapeXml(selfUrl)}"/>\n` +
+		entries.join('') +
+		`</feed>\n`
+	);
+}
+
+/**
+ * CAP dateTime: seconds precision and an explicit offset ("Z" is not allowed, UTC is -00:00)
+ */
+export function capDateTime(date: string | Date): string {
+	return new Date(date).toISOString().replace(/\.\d{3}Z$/, '-00:00');
+}
+
+function areaRadiusKm(disaster: Disaster): number {
+	if (disaster.type === 'earthquake' && typeof disaster.magnitude === 'number') {
+		// Rough felt-area radius: ~16 km at M5, ~160 km at M7
+		return Math.max(10, Math.round(10 ** (0.5 * disaster.magnitude - 1.3)));
+	}
+	return AREA_RADIUS_KM[disaster.type];
+}
+
+// Box around the reported track, padded by the area radius: "lat,lon" pairs, closed (first = last)
+function trackPolygon(disaster: Disaster): string {
+	const points = disaster.track ?? [];
+	const padLat = areaRadiusKm(disaster) / KM_PER_DEGREE;
+	const south = Math.max(-90, Math.min(...points.map((p) => p.lat)) - padLat);
+	const north = Math.min(90, Math.max(...points.map((p) => p.lat)) + padLat);
+	const padLng = padLat / Math.max(0.1, Math.cos((Math.max(Math.abs(south), Math.abs(north)) * Math.PI) / 180));
+	const west = Math.max(-180, Math.min(...points.map((p) => p.lng)) - padLng);
+	const east = Math.min(180, Math.max(...points.map((p) => p.lng)) + padLng);
+
+	const round = (value: number) => Math.round(value * 10000) / 10000;
+	const corners = [
+		[south, west],
+		[north, west],
+		[north, east],
+		[south, east],
+		[south, west],
+	];
+	return corners.map(([lat, lng]) => `${round(lat)},${round(lng)}`).join(' ');
+}
+
+function describe(disaster: Disaster): string {
+	const reasons = disaster.severityReasons?.length ? ` Severity signals: ${disaster.severityReasons.join('; ')}.` : '';
+	const observed = `Last reported ${new Date(disaster.date).toUTCString()} by ${disasterSourceName(disaster)}.`;
+	return `${disaster.title}. ${observed}${reasons}`;
+}
+
+function disasterSourceName(disaster: Disaster): string {
+	if (disaster.id.startsWith('EONET_')) return 'NASA EONET';
+	if (disaster.id.startsWith('GDACS_')) return 'GDACS';
+	if (disaster.type === 'earthquake') return 'USGS';
+	return 'AegisMap';
+}
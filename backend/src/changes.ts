@@ -0,0 +1,163 @@
+/**
+ * Disaster change feed
+ * The Cron pre-warm stores a compact snapshot of the merged /api/disasters result (default query)
+ * and diffs it against the previous one; the resulting change log backs GET /api/changes
+ */
+
+import { haversineKm } from './geo';
+import type { Disaster, DisasterType } from './types';
+
+export type ChangeKind = 'new' | 'updated' | 'closed';
+
+export type ChangedField = 'severity' | 'magnitude' | 'magnitudeValue' | 'position';
+
+export type FieldChange = {
+	field: ChangedField;
+	from: string | number | null;
+	to: string | number | null;
+};
+
+export type DisasterChange = {
+	id: string;
+	kind: ChangeKind;
+	detectedAt: string; // Snapshot time the change was seen (ISO)
+	type: DisasterType;
+	title: string;
+	lat: number;
+	lng: number;
+	severity: Disaster['severity'];
+	changes?: FieldChange[]; // Only for 'updated'
+};
+
+/** Fields kept per event in a snapshot */
+type SnapshotEvent = Pick<Disaster, 'type' | 'title' | 'lat' | 'lng' | 'severity' | 'magnitude' | 'magnitudeValue'>;
+
+export type DisasterSnapshot = {
+	takenAt: string;
+	events: Record<string, SnapshotEvent>;
+	hash?: string; // snapshotHash of the events, set on stored snapshots
+};
+
+type ChangeLog = {
+	changes: DisasterChange[]; // Oldest first
+};
+
+const SNAPSHOT_KEY = 'changes:snapshot';
+const CHANGE_LOG_KEY = 'changes:log';
+
+/** How long change events are kept, and a hard cap to bound the KV value size */
+export const CHANGE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const MAX_LOGGED_CHANGES = 5000;
+
+/** Moves smaller than this are GPS/centroid jitter, not a position change */
+const POSITION_CHANGE_KM = 1;
+
+/**
+ * Reduce a merged disaster list to a snapshot
+ */
+export function toSnapshot(disasters: Disaster[], takenAt: string): DisasterSnapshot {
+	const events: Record<string, SnapshotEvent> = {};
+	for (const { id, type, title, lat, lng, severity, magnitude, magnitudeValue } of disasters) {
+		events[id] = { type, title, lat, lng, severity, magnitude, magnitudeValue };
+	}
+	return { takenAt, events };
+}
+
+/**
+ * Content hash of a snapshot's events (not its time), so an unchanged snapshot costs no KV writes
+ */
+export async function snapshotHash(events: DisasterSnapshot['events']): Promise<string> {
+	const canonical = JSON.stringify(Object.keys(events).sort().map((id) => [id, events[id]]));
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+	return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Compare two consecutive snapshots
+ * Events only in `next` are new, events only in `previous` are closed (or aged out of the USGS window)
+ */
+export function diffSnapshots(previous: DisasterSnapshot, next: DisasterSnapshot): DisasterChange[] {
+	const detectedAt = next.takenAt;
+	const changes: DisasterChange[] = [];
+
+	for (const [id, event] of Object.entries(next.events)) {
+		const before = previous.events[id];
+		if (!before) {
+			changes.push(toChange(id, 'new', event, detectedAt));
+			continue;
+		}
+
+		const fieldChanges = compareEvents(before, event);
+		if (fieldChanges.length > 0) {
+			changes.push({ ...toChange(id, 'updated', event, detectedAt), changes: fieldChanges });
+		}
+	}
+
+	for (const [id, event] of Object.entries(previous.events)) {
+		if (!next.events[id]) {
+			changes.push(toChange(id, 'closed', event, detectedAt));
+		}
+	}
+
+	return changes;
+}
+
+/**
+ * Store a new snapshot and append its changes to the log
+ * The first snapshot only establishes a baseline (otherwise every open event would be "new");
+ * a snapshot identical to the stored one is not written, so the stored one keeps its time
+ */
+export async function recordSnapshot(kv: KVNamespace, disasters: Disaster[], now: Date = new Date()): Promise<DisasterChange[]> {
+	const next = toSnapshot(disasters, now.toISOString());
+	next.hash = await snapshotHash(next.events);
+	const previous = await kv.get<DisasterSnapshot>(SNAPSHOT_KEY, 'json');
+	if (previous?.hash === next.hash) return [];
+
+	const changes = previous ? diffSnapshots(previous, next) : [];
+
+	if (changes.length > 0) {
+		const log = (await kv.get<ChangeLog>(CHANGE_LOG_KEY, 'json')) ?? { changes: [] };
+		const cutoff = now.getTime() - CHANGE_RETENTION_MS;
+		const kept = [...log.changes, ...changes].filter((change) => new Date(change.detectedAt).getTime() >= cutoff).slice(-MAX_LOGGED_CHANGES);
+		await kv.put(CHANGE_LOG_KEY, JSON.stringify({ changes: kept } satisfies ChangeLog));
+	}
+
+	await kv.put(SNAPSHOT_KEY, JSON.stringify(next));
+	return changes;
+}
+
+/**
+ * Changes detected strictly after `since`, oldest first, plus the time of the latest stored snapshot
+ * (the last one that differed from its predecessor)
+ */
+export async function readChanges(kv: KVNamespace, since: Date): Promise<{ changes: DisasterChange[]; latestSnapshot: string | null }> {
+	const [log, snapshot] = await Promise.all([kv.get<ChangeLog>(CHANGE_LOG_KEY, 'json'), kv.get<DisasterSnapshot>(SNAPSHOT_KEY, 'json')]);
+
+	const changes = (log?.changes ?? []).filter((change) => new Date(change.detectedAt).getTime() > since.getTime());
+	return { changes, latestSnapshot: snapshot?.takenAt ?? null };
+}
+
+function compareEvents(before: SnapshotEvent, after: SnapshotEvent): FieldChange[] {
+	const changes: FieldChange[] = [];
+
+	if (before.severity !== after.severity) {
+		changes.push({ field: 'severity', from: before.severity, to: after.severity });
+	}
+	if ((before.magnitude ?? null) !== (after.magnitude ?? null)) {
+		changes.push({ field: 'magnitude', from: before.magnitude ?? null, to: after.magnitude ?? null });
+	}
+	if ((before.magnitudeValue ?? null) !== (after.magnitudeValue ?? null)) {
+		changes.push({ field: 'magnitudeValue', from: before.magnitudeValue ?? null, to: after.magnitudeValue ?? null });
+	}
+
+	const movedKm = haversineKm(before.lat, before.lng, after.lat, after.lng);
+	if (movedKm >= POSITION_CHANGE_KM) {
+		changes.push({ field: 'position', from: `${before.lat},${before.lng}`, to: `${after.lat},${after.lng}` });
+	}
+
+	return changes;
+}
+
+function toChange(id: string, kind: ChangeKind, event: SnapshotEvent, detectedAt: string): DisasterChange {
+	return { id, kind, detectedAt, type: event.type, title: event.title, lat: event.lat, lng: event.lng, severity: event.severity };
+}
@@ -0,0 +1,98 @@
+/**
+ * ATOM feed of current disasters (GET /api/feed.atom)
+ * For feed readers and chat integrations: newest observations first, one entry per event id,
+ * each linking to the frontend with the event selected
+ */
+
+import type { Disaster } from './types';
+import { ATOM_CONTENT_TYPE, escapeXml, xmlText } from './xml';
+
+export type FeedOptions = {
+	feedUrl: string; // Absolute URL of this feed (rel="self")
+	frontendUrl: string; // AegisMap frontend; entries link to <frontendUrl>?event=<id>
+	title?: string;
+};
+
+/** Feed readers only need the latest events; older ones stay on the map */
+export const FEED_MAX_ENTRIES = 100;
+
+/**
+ * Stable ATOM entry id: the same upstream event id always maps to the same entry
+ */
+export function feedEntryId(disaster: Disaster): string {
+	return `urn:aegismap:disaster:${encodeURIComponent(disaster.id)}`;
+}
+
+/**
+ * The configured frontend (FRONTEND_URL) when it is an absolute http(s) URL, otherwise the fallback
+ * Checked once per feed, so a malformed var degrades the links instead of failing every entry
+ */
+export function feedFrontendUrl(configured: string | undefined, fallback: string): string {
+	if (!configured) return fallback;
+	try {
+		if (['https:', 'http:'].includes(new URL(configured).protocol)) return configured;
+	} catch {
+		// Not an absolute URL
+	}
+	console.warn(`⚠️ Ignoring invalid FRONTEND_URL ${configured}; linking to ${fallback}`);
+	return fallback;
+}
+
+/**
+ * Frontend URL with the event selected
+ */
+export function eventUrl(frontendUrl: string, id: string): string {
+	const url = new URL(frontendUrl);
+	url.searchParams.set('event', id);
+	return url.toString();
+}
+
+/**
+ * Render the feed, newest observation first
+ */
+export function disasterAtomFeed(disasters: Disaster[], { feedUrl, frontendUrl, title }: FeedOptions, now: Date = new Date()): string {
+	const entries = [...disasters]
+		.filter((disaster) => !isNaN(new Date(disaster.date).getTime()))
+		.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+		.slice(0, FEED_MAX_ENTRIES);
+
+	const updated = entries.length > 0 ? new Date(entries[0].date) : now;
+
+	return (
+		`<?xml version="1.0" encoding="UTF-8"?>\n` +
+		`<feed xmlns="http://www.w3.org/2005/Atom">\n` +
+		xmlText('id', feedUrl, '\t') +
+		xmlText('title', title ?? 'AegisMap disasters', '\t') +
+		xmlText('updated', updated.toISOString(), '\t') +
+		`\t<author>\n${xmlText('name', 'AegisMap', '\t\t')}\t</author>\n` +
+		`\t<link rel="self" type="${ATOM_CONTENT_TYPE}" href="${escapeXml(feedUrl)}"/>\n` +
+		`\t<link rel="alternate" type="text/html" href="${escapeXml(frontendUrl)}"/>\n` +
+		entries.map((disaster) => feedEntry(disaster, frontendUrl)).join('') +
+		`</feed>\n`
+	);
+}
+
+function feedEntry(disaster: Disaster, frontendUrl: string): string {
+	const details = [
+		`Severity: ${disaster.severity}${disaster.severityScore !== undefined ? ` (${disaster.severityScore}/100)` : ''}`,
+		disaster.magnitude !== undefined ? `Magnitude: M${disaster.magnitude.toFixed(1)}` : null,
+		disaster.magnitudeValue !== undefined ? `Magnitude: ${disaster.magnitudeValue} ${disaster.magnitudeUnit ?? ''}`.trim() : null,
+		disaster.alertLevel ? `GDACS alert: ${disaster.alertLevel}` : null,
+		`Location: ${disaster.lat.toFixed(3)}, ${disaster.lng.toFixed(3)}`,
+		...(disaster.severityReasons ?? []),
+	].filter((line): line is string => line !== null);
+
+	return (
+		`\t<entry>\n` +
+		xmlText('id', feedEntryId(disaster), '\t\t') +
+		xmlText('title', disaster.title, '\t\t') +
+		xmlText('updated', new Date(disaster.date).toISOString(), '\t\t') +
+		`\t\t<link rel="alternate" type="text/html" href="${escapeXml(eventUrl(frontendUrl, disaster.id))}"/>\n` +
+		(disaster.alertUrl ? `\t\t<link rel="related" type="text/html" href="${escapeXml(disaster.alertUrl)}"/>\n` : '') +
+		`\t\t<category term="${escapeXml(disaster.type)}"/>\n` +
+		`\t\t<category term="severity:${escapeXml(disaster.severity)}"/>\n` +
+		xmlText('summary', details.join('\n'), '\t\t') +
+		`\t\t<georss:point xmlns:georss="http://www.georss.org/georss">${disaster.lat} ${disaster.lng}</georss:point>\n` +
+		`\t</entry>\n`
+	);
+}
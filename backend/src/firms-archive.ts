@@ -0,0 +1,136 @@
+/**
+ * FIRMS date-range queries (GET /api/fire-hotspots?from=&to=)
+ * The area API serves at most FIRMS_MAX_DAYS days per request and the NRT products only reach that far
+ * back. A range is split into 10-day chunks on fixed boundaries, so overlapping ranges (this season vs.
+ * last year's) share cached chunks; chunks older than the NRT window go to the standard-processing
+ * archive products and are cached for a week. Chunks are fetched a few at a time
+ */
+
+import type { CachedValue } from './cache';
+import { cachedFireDetections, FIRMS_ARCHIVE_PRODUCTS, FIRMS_MAX_DAYS, type DateRange, type FirmsArea, type FirmsDetections } from './firms';
+
+/** Longest from/to range: a fire season, at one FIRMS transaction per chunk and product */
+export const FIRMS_RANGE_MAX_DAYS = 93;
+
+/** First day of FIRMS data (MODIS Terra) */
+export const FIRMS_ARCHIVE_START = '2000-11-01';
+
+/**
+ * Chunks fetched at a time: each is one FIRMS request per product (up to 3 by default), and a Worker
+ * keeps at most 6 connections open, so larger batches would only queue inside the runtime
+ */
+export const FIRMS_RANGE_CONCURRENCY = 2;
+
+/** One FIRMS request window */
+export type FirmsChunk = {
+	date: string; // First day (YYYY-MM-DD)
+	days: number;
+	archive: boolean; // Older than the NRT window: standard-processing products
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate `from`/`to` (YYYY-MM-DD, UTC, inclusive); `to` defaults to today
+ */
+export function parseFirmsDateRange(fromParam: string, toParam: string | undefined, now: Date = new Date()): DateRange | { error: string } {
+	const today = isoDate(now.getTime());
+	const from = fromParam;
+	const to = toParam ?? today;
+
+	if (!isValidDate(from) || !isValidDate(to)) {
+		return { error: 'from/to must be dates in YYYY-MM-DD format' };
+	}
+	if (from > to) {
+		return { error: 'from must not be after to' };
+	}
+	if (from < FIRMS_ARCHIVE_START || to > today) {
+		return { error: `from/to must fall between ${FIRMS_ARCHIVE_START} and today` };
+	}
+	if (epochDay(to) - epochDay(from) + 1 > FIRMS_RANGE_MAX_DAYS) {
+		return { error: `Date range is limited to ${FIRMS_RANGE_MAX_DAYS} days` };
+	}
+
+	return { from, to };
+}
+
+/**
+ * 10-day request windows covering a range, aligned to multiples of 10 days since the epoch, cut at today
+ * and split where the NRT window begins
+ */
+export function firmsRangeChunks(range: DateRange, now: Date = new Date()): FirmsChunk[] {
+	const today = epochDay(isoDate(now.getTime()));
+	const nrtStart = today - (FIRMS_MAX_DAYS - 1);
+	const chunks: FirmsChunk[] = [];
+
+	const push = (start: number, end: number) => {
+		if (end >= start) chunks.push({ date: isoDate(start * DAY_MS), days: end - start + 1, archive: end < nrtStart });
+	};
+
+	for (let start = Math.floor(epochDay(range.from) / FIRMS_MAX_DAYS) * FIRMS_MAX_DAYS; start <= epochDay(range.to); start += FIRMS_MAX_DAYS) {
+		const end = Math.min(start + FIRMS_MAX_DAYS - 1, today);
+		if (start < nrtStart && end >= nrtStart) {
+			push(start, nrtStart - 1);
+			push(nrtStart, end);
+		} else {
+			push(start, end);
+		}
+	}
+
+	return chunks;
+}
+
+/**
+ * Detections for every chunk of a range through the KV cache, merged; ageSeconds is the oldest chunk's
+ * Throws when any chunk cannot be loaded at all (the chunks already cached make a retry cheap)
+ */
+export async function cachedFireDetectionsForRange(
+	kv: KVNamespace | undefined,
+	mapKey: string,
+	area: Omit<FirmsArea, 'days' | 'date' | 'archive'>,
+	range: DateRange,
+	now: Date = new Date(),
+	waitUntil?: (promise: Promise<unknown>) => void
+): Promise<Pick<CachedValue<FirmsDetections>, 'value' | 'ageSeconds'>> {
+	const chunks = firmsRangeChunks(range, now);
+	console.log(`🔥 FIRMS range ${range.from} to ${range.to}: ${chunks.length} chunk(s), ${chunks.filter((chunk) => chunk.archive).length} archived`);
+
+	const results: CachedValue<FirmsDetections>[] = [];
+	for (let i = 0; i < chunks.length; i += FIRMS_RANGE_CONCURRENCY) {
+		const batch = chunks.slice(i, i + FIRMS_RANGE_CONCURRENCY);
+		results.push(
+			...(await Promise.all(batch.map((chunk) => cachedFireDetections(kv, mapKey, { ...area, ...chunk, sources: chunkSources(area.sources, chunk) }, waitUntil))))
+		);
+	}
+
+	return {
+		value: {
+			hotspots: results.flatMap((result) => result.value.hotspots),
+			duplicatesRemoved: results.reduce((sum, result) => sum + result.value.duplicatesRemoved, 0),
+			unavailableSources: [...new Set(results.flatMap((result) => result.value.unavailableSources))],
+			skippedRows: results.reduce((sum, result) => sum + result.value.skippedRows, 0),
+		},
+		ageSeconds: results.reduce((max, result) => Math.max(max, result.ageSeconds), 0),
+	};
+}
+
+// Archive chunks leave out products without a standard-processing counterpart (VIIRS NOAA-21): there is
+// nothing to query, and its NRT product does not reach back that far. Only when nothing else was asked
+// for does the product go through, so the response reports it unavailable
+function chunkSources(sources: string[], chunk: FirmsChunk): string[] {
+	if (!chunk.archive) return sources;
+	const archived = sources.filter((source) => FIRMS_ARCHIVE_PRODUCTS[source]);
+	return archived.length > 0 ? archived : sources;
+}
+
+function isValidDate(value: string): boolean {
+	return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)) && isoDate(Date.parse(value)) === value;
+}
+
+function epochDay(date: string): number {
+	return Math.floor(Date.parse(date) / DAY_MS);
+}
+
+function isoDate(time: number): string {
+	return new Date(time).toISOString().slice(0, 10);
+}
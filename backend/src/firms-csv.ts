@@ -0,0 +1,231 @@
+/**
+ * FIRMS area CSV parsing
+ * Columns are mapped by header name, so VIIRS and MODIS products (and future column reorders) share one
+ * parser. Rows with invalid values are skipped and reported instead of becoming NaN hotspots, and FIRMS
+ * error/quota bodies (served as text/plain, sometimes with a 200) are raised as FirmsResponseError
+ *
+ * VIIRS columns: latitude,longitude,bright_ti4,scan,track,acq_date,acq_time,satellite,confidence,version,bright_ti5,frp,daynight
+ * MODIS columns: latitude,longitude,brightness,scan,track,acq_date,acq_time,satellite,confidence,version,bright_t31,frp,daynight
+ */
+
+/** Instrument/satellite a detection came from */
+export type FirmsSensor = 'viirs-snpp' | 'viirs-noaa20' | 'viirs-noaa21' | 'modis';
+
+/** FIRMS products (the API's `source` names: near real-time and standard processing) and the sensor each one reports */
+export const FIRMS_PRODUCTS: Record<string, FirmsSensor> = {
+	VIIRS_SNPP_NRT: 'viirs-snpp',
+	VIIRS_NOAA20_NRT: 'viirs-noaa20',
+	VIIRS_NOAA21_NRT: 'viirs-noaa21',
+	MODIS_NRT: 'modis',
+	VIIRS_SNPP_SP: 'viirs-snpp',
+	VIIRS_NOAA20_SP: 'viirs-noaa20',
+	MODIS_SP: 'modis',
+};
+
+/**
+ * One detection, normalized across sensors
+ * MODIS brightness/bright_t31 land in bright_ti4/bright_ti5 and its 0-100 confidence becomes l/n/h
+ */
+export type FireHotspot = {
+	latitude: number;
+	longitude: number;
+	bright_ti4: number; // VIIRS I-4 / MODIS channel 21 brightness temperature (Kelvin)
+	scan: number; // Pixel size across the scan (km), NaN when the product omits it
+	track: number; // Pixel size along the track (km), NaN when the product omits it
+	acq_date: string;
+	acq_time: string;
+	satellite: string;
+	confidence: string; // 'l' = low, 'n' = nominal, 'h' = high
+	version: string;
+	bright_ti5: number; // VIIRS I-5 / MODIS channel 31 brightness (background), NaN when omitted
+	frp: number; // Fire Radiative Power (MW)
+	daynight: string;
+	sensor: FirmsSensor;
+};
+
+/** A data row that was left out, with its 1-based line number in the response (the header is line 1) */
+export type SkippedRow = {
+	line: number;
+	reason: string;
+};
+
+export type FirmsCsv = {
+	hotspots: FireHotspot[];
+	skipped: SkippedRow[];
+};
+
+/**
+ * FIRMS answered with a message instead of CSV (bad map key, exceeded transaction limit, malformed request)
+ */
+export class FirmsResponseError extends Error {
+	constructor(
+		message: string,
+		readonly quotaExceeded: boolean
+	) {
+		super(message);
+		this.name = 'FirmsResponseError';
+	}
+}
+
+// Header names per field; the first match wins
+const COLUMNS = {
+	latitude: ['latitude'],
+	longitude: ['longitude'],
+	brightness: ['bright_ti4', 'brightness'],
+	scan: ['scan'],
+	track: ['track'],
+	acqDate: ['acq_date'],
+	acqTime: ['acq_time'],
+	satellite: ['satellite'],
+	confidence: ['confidence'],
+	version: ['version'],
+	background: ['bright_ti5', 'bright_t31'],
+	frp: ['frp'],
+	daynight: ['daynight'],
+} as const;
+
+type Column = keyof typeof COLUMNS;
+
+// A header without these is not a FIRMS hotspot file
+const REQUIRED_COLUMNS: Column[] = ['latitude', 'longitude', 'brightness', 'acqDate', 'acqTime', 'confidence', 'frp'];
+
+const QUOTA_MESSAGE = /transaction limit|exceed|too many requests|quota/i;
+
+/**
+ * Parse a FIRMS area CSV response for a product (VIIRS_SNPP_NRT by default)
+ * Throws FirmsResponseError when the body is an error message or lacks the hotspot columns
+ */
+export function parseFirmsCsv(csvText: string, product = 'VIIRS_SNPP_NRT'): FirmsCsv {
+	const lines = csvText.replace(/^\uFEFF/, '').split(/\r?\n/);
+	const headerLine = lines[0].trim();
+
+	if (!headerLine.toLowerCase().includes('latitude')) {
+		const message = headerLine ? headerLine.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 200) : 'Empty response';
+		throw new FirmsResponseError(`FIRMS ${product}: ${message}`, QUOTA_MESSAGE.test(csvText));
+	}
+
+	const header = splitCsvLine(headerLine).map((name) => name.toLowerCase());
+	const at = Object.fromEntries(
+		Object.entries(COLUMNS).map(([field, names]) => [field, header.findIndex((name) => (names as readonly string[]).includes(name))])
+	) as Record<Column, number>;
+
+	const missing = REQUIRED_COLUMNS.filter((field) => at[field] < 0);
+	if (missing.length > 0) {
+		throw new FirmsResponseError(`FIRMS ${product}: missing column(s) ${missing.map((field) => COLUMNS[field][0]).join(', ')}`, false);
+	}
+
+	const sensor = FIRMS_PRODUCTS[product] ?? 'viirs-snpp';
+	const hotspots: FireHotspot[] = [];
+	const skipped: SkippedRow[] = [];
+
+	lines.slice(1).forEach((line, index) => {
+		if (line.trim() === '') return;
+
+		const parts = splitCsvLine(line);
+		if (parts.length !== header.length) {
+			skipped.push({ line: index + 2, reason: `expected ${header.length} fields, got ${parts.length}` });
+			return;
+		}
+
+		const result = toHotspot(parts, at, sensor);
+		if (typeof result === 'string') skipped.push({ line: index + 2, reason: result });
+		else hotspots.push(result);
+	});
+
+	return { hotspots, skipped };
+}
+
+/**
+ * MODIS reports confidence as 0-100; FIRMS bands it as low < 30 <= nominal < 80 <= high
+ * Returns null for anything that is neither a percentage nor a VIIRS class
+ */
+export function normalizeConfidence(value: string): string | null {
+	const lower = value.toLowerCase();
+	if (/^\d+(\.\d+)?$/.test(lower)) {
+		const percent = parseFloat(lower);
+		if (percent > 100) return null;
+		return percent >= 80 ? 'h' : percent >= 30 ? 'n' : 'l';
+	}
+	return { l: 'l', n: 'n', h: 'h', low: 'l', nominal: 'n', high: 'h' }[lower] ?? null;
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields ("" is an escaped quote); fields are trimmed
+ */
+export function splitCsvLine(line: string): string[] {
+	const fields: string[] = [];
+	let field = '';
+	let quoted = false;
+
+	for (let i = 0; i < line.length; i++) {
+		const char = line[i];
+		if (quoted) {
+			if (char === '"' && line[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ',') {
+			fields.push(field.trim());
+			field = '';
+		} else {
+			field += char;
+		}
+	}
+	fields.push(field.trim());
+	return fields;
+}
+
+// Validated hotspot, or the reason the row is rejected
+function toHotspot(parts: string[], at: Record<Column, number>, sensor: FirmsSensor): FireHotspot | string {
+	const text = (field: Column) => (at[field] >= 0 ? parts[at[field]] : '');
+	const optionalNumber = (field: Column) => (text(field) === '' ? NaN : Number(text(field)));
+
+	const latitude = Number(text('latitude'));
+	const longitude = Number(text('longitude'));
+	if (text('latitude') === '' || !(Math.abs(latitude) <= 90)) return `invalid latitude "${text('latitude')}"`;
+	if (text('longitude') === '' || !(Math.abs(longitude) <= 180)) return `invalid longitude "${text('longitude')}"`;
+
+	const acqDate = text('acqDate');
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(acqDate) || isNaN(Date.parse(`${acqDate}T00:00:00Z`))) return `invalid acq_date "${acqDate}"`;
+
+	const acqTime = text('acqTime');
+	const hhmm = acqTime.padStart(4, '0');
+	if (!/^\d{1,4}$/.test(acqTime) || Number(hhmm.slice(0, 2)) > 23 || Number(hhmm.slice(2)) > 59) return `invalid acq_time "${acqTime}"`;
+
+	const confidence = normalizeConfidence(text('confidence'));
+	if (confidence === null) return `invalid confidence "${text('confidence')}"`;
+
+	const brightness = Number(text('brightness'));
+	if (text('brightness') === '' || !(brightness > 0)) return `invalid brightness "${text('brightness')}"`;
+
+	const frp = Number(text('frp'));
+	if (text('frp') === '' || !(frp >= 0)) return `invalid frp "${text('frp')}"`;
+
+	for (const field of ['scan', 'track', 'background'] as const) {
+		const value = optionalNumber(field);
+		if (text(field) !== '' && !(value > 0)) return `invalid ${COLUMNS[field][0]} "${text(field)}"`;
+	}
+
+	return {
+		latitude,
+		longitude,
+		bright_ti4: brightness,
+		scan: optionalNumber('scan'),
+		track: optionalNumber('track'),
+		acq_date: acqDate,
+		acq_time: acqTime,
+		satellite: text('satellite'),
+		confidence,
+		version: text('version'),
+		bright_ti5: optionalNumber('background'),
+		frp,
+		daynight: text('daynight'),
+		sensor,
+	};
+}
@@ -0,0 +1,520 @@
+/**
+ * NASA FIRMS helpers
+ * URL building and hotspot lookups shared by /api/fire-hotspots, severity scoring and Cron pre-warming
+ */
+
+import { swrCache, type CachedValue } from './cache';
+import { FIRMS_PRODUCTS, FirmsResponseError, parseFirmsCsv, type FireHotspot, type FirmsCsv, type FirmsSensor } from './firms-csv';
+import { haversineKm, MAX_DISTANCE_KM, type BBox } from './geo';
+
+export type { FireHotspot, FirmsSensor } from './firms-csv';
+
+/** Products queried by /api/fire-hotspots when `sources` is omitted: every VIIRS satellite, so one outage leaves no gap */
+export const DEFAULT_FIRMS_SOURCES = ['VIIRS_SNPP_NRT', 'VIIRS_NOAA20_NRT', 'VIIRS_NOAA21_NRT'];
+
+/** Cross-sensor detections this close in time and space are one fire pixel seen twice */
+const DEDUPE_WINDOW_MINUTES = 60;
+/** VIIRS I-band pixel at nadir (km), the smallest footprint a detection can have */
+const MIN_FOOTPRINT_KM = 0.375;
+/** Detections from higher-resolution sensors win a duplicate */
+const SENSOR_PRIORITY: FirmsSensor[] = ['viirs-snpp', 'viirs-noaa20', 'viirs-noaa21', 'modis'];
+
+/** Standard-processing (archive) counterpart of each NRT product; VIIRS NOAA-21 has none yet, so date ranges skip it (see ./firms-archive) */
+export const FIRMS_ARCHIVE_PRODUCTS: Record<string, string> = {
+	VIIRS_SNPP_NRT: 'VIIRS_SNPP_SP',
+	VIIRS_NOAA20_NRT: 'VIIRS_NOAA20_SP',
+	MODIS_NRT: 'MODIS_SP',
+};
+
+/**
+ * FIRMS area API: CSV for a product over a bbox and day range (1-10)
+ * Without a date the range ends today; with one it starts on that date (YYYY-MM-DD)
+ */
+export function firmsAreaUrl(mapKey: string, product: string, bbox: BBox, days: number, date?: string): string {
+	const [west, south, east, north] = bbox;
+	const url = `https://firms.modaps.eosdis.nasa.gov/api/area/csv/${mapKey}/${product}/${west},${south},${east},${north}/${days}`;
+	return date ? `${url}/${date}` : url;
+}
+
+/**
+ * Drop detections another sensor already reported: same pixel (within the larger footprint) and
+ * within an hour. The higher-resolution sensor's detection is kept
+ */
+export function dedupeHotspots(hotspots: FireHotspot[]): FireHotspot[] {
+	const ranked = [...hotspots].sort((a, b) => SENSOR_PRIORITY.indexOf(a.sensor) - SENSOR_PRIORITY.indexOf(b.sensor));
+	const kept: FireHotspot[] = [];
+
+	// Grid cells at least as wide as the largest footprint in the batch (MODIS pixels grow to ~4.8 km
+	// along the scan at the swath edge), so every match lies in the 3×3 cells around a detection.
+	// Longitude cells are widened for the batch's highest latitude, where a degree is shortest
+	const maxFootprintKm = hotspots.reduce((max, hotspot) => Math.max(max, footprintKm(hotspot)), MIN_FOOTPRINT_KM);
+	const maxLatitude = Math.min(89, hotspots.reduce((max, hotspot) => Math.max(max, Math.abs(hotspot.latitude)), 0));
+	const cellLat = maxFootprintKm / (MAX_DISTANCE_KM / 180); // Degrees of latitude
+	const cellLng = cellLat / Math.cos((maxLatitude * Math.PI) / 180);
+	const grid = new Map<string, FireHotspot[]>();
+
+	for (const hotspot of ranked) {
+		const row = Math.floor(hotspot.latitude / cellLat);
+		const col = Math.floor(hotspot.longitude / cellLng);
+		let duplicate = false;
+
+		for (let r = row - 1; r <= row + 1 && !duplicate; r++) {
+			for (let c = col - 1; c <= col + 1 && !duplicate; c++) {
+				duplicate = (grid.get(`${r}:${c}`) ?? []).some(
+					(other) =>
+						other.sensor !== hotspot.sensor &&
+						Math.abs(acquisitionMinutes(other) - acquisitionMinutes(hotspot)) <= DEDUPE_WINDOW_MINUTES &&
+						haversineKm(other.latitude, other.longitude, hotspot.latitude, hotspot.longitude) <= Math.max(footprintKm(other), footprintKm(hotspot))
+				);
+			}
+		}
+		if (duplicate) continue;
+
+		kept.push(hotspot);
+		const bucket = grid.get(`${row}:${col}`);
+		if (bucket) bucket.push(hotspot);
+		else grid.set(`${row}:${col}`, [hotspot]);
+	}
+
+	return kept;
+}
+
+// Larger side of a detection's pixel (km); VIIRS nadir size when the product omits scan/track
+function footprintKm(hotspot: FireHotspot): number {
+	return Math.max(hotspot.scan || 0, hotspot.track || 0, MIN_FOOTPRINT_KM);
+}
+
+function acquisitionMinutes(hotspot: FireHotspot): number {
+	const hhmm = hotspot.acq_time.padStart(4, '0');
+	return Date.parse(`${hotspot.acq_date}T00:00:00Z`) / 60000 + parseInt(hhmm.slice(0, 2), 10) * 60 + parseInt(hhmm.slice(2), 10);
+}
+
+/** Area the hotspots are fetched for */
+export type FirmsArea = {
+	lat: number;
+	lng: number;
+	radiusKm: number;
+	days: number; // 1-FIRMS_MAX_DAYS
+	sources: string[]; // FIRMS NRT products
+	date?: string; // First day (YYYY-MM-DD); omitted = the last `days` days
+	archive?: boolean; // Query each source's standard-processing product instead
+};
+
+/** Inclusive UTC date range (YYYY-MM-DD) */
+export type DateRange = {
+	from: string;
+	to: string;
+};
+
+/** One histogram bar of /api/fire-hotspots */
+export type DailyFireActivity = {
+	date: string;
+	count: number;
+	totalFrp: number; // MW
+};
+
+/** Merged detections of every product over an area (what the KV cache stores) */
+export type FirmsDetections = {
+	hotspots: FireHotspot[];
+	duplicatesRemoved: number; // Detections of the same pixel by a second sensor
+	unavailableSources: string[]; // Products that failed to load
+	skippedRows: number; // Malformed CSV rows left out
+};
+
+/** /api/fire-hotspots payload; the statistics and histogram cover every page */
+export type FireHotspotReport = FirmsDetections & {
+	totalCount: number;
+	highConfidence: number;
+	maxBrightness: number;
+	maxPower: number;
+	sensors: Partial<Record<FirmsSensor, number>>; // Detections per sensor after de-duplication
+	daily: DailyFireActivity[]; // Every date of the range, oldest first
+	radiusKm: number;
+	days: number; // Requested `days`, or the length of a from/to range
+	from: string;
+	to: string;
+	page: number;
+	pageSize: number;
+	totalPages: number;
+};
+
+/** FIRMS NRT products update a few times a day */
+export const FIRMS_CACHE_TTL = 1800; // 30 minutes
+
+/** Standard-processing data is final: archive areas are kept for a week and retained for a month */
+export const FIRMS_ARCHIVE_CACHE_TTL = 7 * 24 * 60 * 60;
+const FIRMS_ARCHIVE_RETENTION = 30 * 24 * 60 * 60;
+
+/** Hotspots per /api/fire-hotspots page */
+export const FIRMS_PAGE_SIZE = {
+	default: 2000,
+	max: 5000,
+} as const;
+
+/** Longest day range the FIRMS area API serves */
+export const FIRMS_MAX_DAYS = 10;
+
+/**
+ * /api/fire-hotspots area limits and cache grid
+ * Requests are snapped to gridDeg cells and radiusStepKm steps, so nearby clicks share one KV entry;
+ * the cached area covers the whole cell and each response is trimmed to the exact radius
+ */
+export const FIRMS_AREA = {
+	defaultRadiusKm: 55, // ≈ the former ±0.5° box
+	minRadiusKm: 1,
+	maxRadiusKm: 250,
+	defaultDays: 7,
+	gridDeg: 0.1,
+	radiusStepKm: 5,
+} as const;
+
+/**
+ * FIRMS allows 5000 transactions per map key every 10 minutes. Each isolate counts the transactions it
+ * reserves in memory and stops at `budget`, leaving headroom for the Cron jobs, other isolates and other
+ * users of the key. KV only carries the "FIRMS reported the quota exceeded" flag, written once per window,
+ * so every isolate backs off after a quota response (a shared KV counter would need a racy read-modify-write
+ * per request, beyond KV's one write per second per key when lookups run in parallel)
+ */
+export const FIRMS_QUOTA = {
+	limit: 5000,
+	budget: 4000,
+	windowSeconds: 600,
+} as const;
+
+const KM_PER_DEGREE = 111.32;
+
+/**
+ * Bounding boxes of a circle, widened in longitude by 1/cos(lat)
+ * Boxes reaching a pole span every longitude; a box crossing the antimeridian is split in two
+ * (FIRMS area queries need west < east)
+ */
+export function radiusBBoxes(lat: number, lng: number, radiusKm: number): BBox[] {
+	const dLat = radiusKm / KM_PER_DEGREE;
+	const south = round(Math.max(-90, lat - dLat), 4);
+	const north = round(Math.min(90, lat + dLat), 4);
+	const cosLat = Math.cos((Math.max(Math.abs(south), Math.abs(north)) * Math.PI) / 180);
+	const dLng = cosLat > 0.01 ? radiusKm / (KM_PER_DEGREE * cosLat) : 180;
+	const west = round(lng - dLng, 4);
+	const east = round(lng + dLng, 4);
+
+	if (dLng >= 180) return [[-180, south, 180, north]];
+	if (west < -180) return [[-180, south, east, north], [round(west + 360, 4), south, 180, north]];
+	if (east > 180) return [[west, south, 180, north], [-180, south, round(east - 360, 4), north]];
+	return [[west, south, east, north]];
+}
+
+/**
+ * Snap an area onto the cache grid: centre to the nearest cell, radius grown by the cell's half-diagonal
+ * (so it covers the requested circle from anywhere in the cell) and rounded up to radiusStepKm
+ */
+export function snapFirmsArea(area: FirmsArea): FirmsArea {
+	const { gridDeg, radiusStepKm } = FIRMS_AREA;
+	const lat = round(Math.round(area.lat / gridDeg) * gridDeg, 4);
+	const lng = round(Math.round(area.lng / gridDeg) * gridDeg, 4);
+	const offsetKm = haversineKm(lat, lng, lat + gridDeg / 2, lng + gridDeg / 2);
+
+	return { ...area, lat, lng, radiusKm: Math.ceil((area.radiusKm + offsetKm) / radiusStepKm) * radiusStepKm };
+}
+
+/**
+ * KV key for the detections of a snapped area; non-default product sets get their own entry
+ */
+export function fireHotspotsCacheKey(area: FirmsArea): string {
+	const range = `${area.days}d${area.date ? `@${area.date}` : ''}${area.archive ? ':sp' : ''}`;
+	const key = `firms:${area.lat.toFixed(1)}:${area.lng.toFixed(1)}:${area.radiusKm}km:${range}`;
+	const products = [...area.sources].sort().join(',');
+	return products === [...DEFAULT_FIRMS_SOURCES].sort().join(',') ? key : `${key}:${products}`;
+}
+
+/**
+ * Validate a comma-separated `sources` query (product names, case-insensitive)
+ */
+export function parseFirmsSources(sourcesParam?: string): string[] | { error: string } {
+	if (!sourcesParam) return DEFAULT_FIRMS_SOURCES;
+
+	const valid = Object.keys(FIRMS_PRODUCTS).filter((name) => name.endsWith('_NRT'));
+	const sources = [...new Set(sourcesParam.split(',').map((name) => name.trim().toUpperCase()).filter(Boolean))];
+	const unknown = sources.filter((name) => !valid.includes(name));
+	if (sources.length === 0 || unknown.length > 0) {
+		return { error: `Unknown FIRMS source(s): ${unknown.join(', ') || sourcesParam}. Valid sources: ${valid.join(', ')}` };
+	}
+	return sources;
+}
+
+/**
+ * Validate the `page` (1-based) and `pageSize` query parameters
+ */
+export function parseFirmsPage(pageParam?: string, pageSizeParam?: string): { page: number; pageSize: number } | { error: string } {
+	const page = pageParam === undefined ? 1 : Number(pageParam);
+	if (!Number.isInteger(page) || page < 1) {
+		return { error: 'page must be a positive integer' };
+	}
+
+	const pageSize = pageSizeParam === undefined ? FIRMS_PAGE_SIZE.default : Number(pageSizeParam);
+	if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > FIRMS_PAGE_SIZE.max) {
+		return { error: `pageSize must be an integer between 1 and ${FIRMS_PAGE_SIZE.max}` };
+	}
+
+	return { page, pageSize };
+}
+
+/**
+ * Validate the `radiusKm` and `days` query parameters (defaults: 55 km, 7 days)
+ */
+export function parseFirmsRange(radiusParam?: string, daysParam?: string): { radiusKm: number; days: number } | { error: string } {
+	const radiusKm = radiusParam === undefined ? FIRMS_AREA.defaultRadiusKm : Number(radiusParam);
+	if (!Number.isFinite(radiusKm) || radiusKm < FIRMS_AREA.minRadiusKm || radiusKm > FIRMS_AREA.maxRadiusKm) {
+		return { error: `radiusKm must be between ${FIRMS_AREA.minRadiusKm} and ${FIRMS_AREA.maxRadiusKm}` };
+	}
+
+	const days = daysParam === undefined ? FIRMS_AREA.defaultDays : Number(daysParam);
+	if (!Number.isInteger(days) || days < 1 || days > FIRMS_MAX_DAYS) {
+		return { error: `days must be an integer between 1 and ${FIRMS_MAX_DAYS}` };
+	}
+
+	return { radiusKm, days };
+}
+
+// Transactions reserved by this isolate, and windows already flagged exhausted in KV, by quota window
+const quotaUsage = new Map<number, number>();
+const exhaustedWindows = new Set<number>();
+
+/**
+ * Reserve a batch of FIRMS transactions in the current quota window (one call per request, before its
+ * fetches); throws a quota FirmsResponseError once the budget is spent or the window was flagged exhausted
+ */
+export async function acquireFirmsQuota(kv: KVNamespace | undefined, transactions = 1, now = Date.now()): Promise<void> {
+	const window = quotaWindow(now);
+	for (const old of [...quotaUsage.keys(), ...exhaustedWindows]) {
+		if (old < window) {
+			quotaUsage.delete(old);
+			exhaustedWindows.delete(old);
+		}
+	}
+
+	// Reserved before the KV read, so parallel callers in this isolate cannot overdraw the budget
+	const used = quotaUsage.get(window) ?? 0;
+	if (exhaustedWindows.has(window) || used + transactions > FIRMS_QUOTA.budget) {
+		throw new FirmsResponseError(`FIRMS quota budget spent (${used}/${FIRMS_QUOTA.budget} transactions this window)`, true);
+	}
+	quotaUsage.set(window, used + transactions);
+
+	if (kv && (await kv.get(firmsQuotaKey(window))) !== null) {
+		exhaustedWindows.add(window);
+		throw new FirmsResponseError('FIRMS quota exceeded for this window', true);
+	}
+}
+
+/**
+ * Block FIRMS requests for the rest of the window after FIRMS itself reported the quota exceeded
+ * The KV flag is written once per window and isolate, however many requests see the quota response
+ */
+export async function exhaustFirmsQuota(kv: KVNamespace | undefined, now = Date.now()): Promise<void> {
+	const window = quotaWindow(now);
+	if (exhaustedWindows.has(window)) return;
+
+	exhaustedWindows.add(window);
+	await kv?.put(firmsQuotaKey(window), 'exhausted', { expirationTtl: FIRMS_QUOTA.windowSeconds * 2 });
+}
+
+function quotaWindow(now: number): number {
+	return Math.floor(now / (FIRMS_QUOTA.windowSeconds * 1000));
+}
+
+function firmsQuotaKey(window: number): string {
+	return `firms-quota:${window}`;
+}
+
+/**
+ * One FIRMS area request, parsed; the caller reserves its transaction first (acquireFirmsQuota)
+ * HTTP 429 and FIRMS transaction-limit bodies exhaust the quota window before rethrowing
+ */
+export async function fetchFirmsArea(
+	kv: KVNamespace | undefined,
+	mapKey: string,
+	product: string,
+	bbox: BBox,
+	days: number,
+	date?: string
+): Promise<FirmsCsv> {
+	const firmsUrl = firmsAreaUrl(mapKey, product, bbox, days, date);
+	console.log(`Fetching FIRMS data from: ${firmsUrl.replace(mapKey, 'REDACTED')}`);
+
+	const response = await fetch(firmsUrl);
+	if (response.status === 429) {
+		await exhaustFirmsQuota(kv);
+		throw new FirmsResponseError(`FIRMS ${product}: 429 Too Many Requests`, true);
+	}
+	if (!response.ok) {
+		throw new Error(`FIRMS API error (${product}): ${response.status} ${response.statusText}`);
+	}
+
+	try {
+		return parseFirmsCsv(await response.text(), product);
+	} catch (error) {
+		if (error instanceof FirmsResponseError && error.quotaExceeded) await exhaustFirmsQuota(kv);
+		throw error;
+	}
+}
+
+/**
+ * Fetch every product's detections over an area, merged and de-duplicated
+ * Products that fail (or have no archive product) are reported; only a total failure throws
+ */
+export async function fetchFireHotspots(kv: KVNamespace | undefined, mapKey: string, area: FirmsArea): Promise<FirmsDetections> {
+	const bboxes = radiusBBoxes(area.lat, area.lng, area.radiusKm);
+	const products = area.sources.map((source) => (area.archive ? FIRMS_ARCHIVE_PRODUCTS[source] : source));
+
+	// One reservation for every product and box of the request
+	await acquireFirmsQuota(kv, products.filter(Boolean).length * bboxes.length);
+
+	const results = await Promise.allSettled(
+		area.sources.map(async (source, index) => {
+			const product = products[index];
+			if (!product) throw new Error(`FIRMS ${source}: no standard-processing product`);
+
+			const parts = await Promise.all(bboxes.map((bbox) => fetchFirmsArea(kv, mapKey, product, bbox, area.days, area.date)));
+			const csv: FirmsCsv = { hotspots: parts.flatMap((part) => part.hotspots), skipped: parts.flatMap((part) => part.skipped) };
+			const [first] = csv.skipped;
+			if (first) {
+				console.warn(`⚠️ FIRMS ${product}: skipped ${csv.skipped.length} malformed row(s), first at line ${first.line}: ${first.reason}`);
+			}
+			return csv;
+		})
+	);
+
+	const unavailableSources = area.sources.filter((_, index) => results[index].status === 'rejected');
+	results.forEach((result) => {
+		if (result.status === 'rejected') console.warn(`⚠️ ${result.reason}`);
+	});
+	if (unavailableSources.length === area.sources.length) {
+		throw (results[0] as PromiseRejectedResult).reason;
+	}
+
+	const loaded = results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+	const detections = loaded.flatMap((result) => result.hotspots);
+	const hotspots = dedupeHotspots(detections);
+
+	return {
+		hotspots,
+		duplicatesRemoved: detections.length - hotspots.length,
+		unavailableSources,
+		skippedRows: loaded.reduce((sum, result) => sum + result.skipped.length, 0),
+	};
+}
+
+/**
+ * Detections for an area through the KV cache: the area is snapped to the cache grid, so this returns
+ * a superset of the requested circle (trim it with fireHotspotReport)
+ */
+export function cachedFireDetections(
+	kv: KVNamespace | undefined,
+	mapKey: string,
+	area: FirmsArea,
+	waitUntil?: (promise: Promise<unknown>) => void
+): Promise<CachedValue<FirmsDetections>> {
+	const snapped = snapFirmsArea(area);
+	return swrCache(kv, fireHotspotsCacheKey(snapped), () => fetchFireHotspots(kv, mapKey, snapped), {
+		...(area.archive ? { ttl: FIRMS_ARCHIVE_CACHE_TTL, retention: FIRMS_ARCHIVE_RETENTION } : { ttl: FIRMS_CACHE_TTL }),
+		waitUntil,
+	});
+}
+
+/**
+ * Date range of a "last `days` days" query: FIRMS counts days back from now, so the oldest detections
+ * fall on the date `days` days ago
+ */
+export function recentDateRange(days: number, now: Date = new Date()): DateRange {
+	return { from: isoDate(now.getTime() - days * DAY_MS), to: isoDate(now.getTime()) };
+}
+
+/**
+ * Detections inside the circle and date range, oldest first
+ */
+export function hotspotsInArea(hotspots: FireHotspot[], lat: number, lng: number, radiusKm: number, range: DateRange): FireHotspot[] {
+	return hotspots
+		.filter((h) => h.acq_date >= range.from && h.acq_date <= range.to && haversineKm(lat, lng, h.latitude, h.longitude) <= radiusKm)
+		.sort((a, b) => acquisitionMinutes(a) - acquisitionMinutes(b));
+}
+
+/**
+ * Detection count and total FRP for every date of the range (zero-filled), oldest first
+ */
+export function dailyFireActivity(hotspots: FireHotspot[], range: DateRange): DailyFireActivity[] {
+	const days = new Map<string, DailyFireActivity>();
+	for (let time = Date.parse(range.from); time <= Date.parse(range.to); time += DAY_MS) {
+		days.set(isoDate(time), { date: isoDate(time), count: 0, totalFrp: 0 });
+	}
+
+	for (const hotspot of hotspots) {
+		const day = days.get(hotspot.acq_date);
+		if (!day) continue;
+		day.count++;
+		day.totalFrp = round(day.totalFrp + hotspot.frp, 1);
+	}
+
+	return [...days.values()];
+}
+
+/**
+ * Trim cached detections to the requested circle and date range, summarize them and cut out one page
+ */
+export function fireHotspotReport(
+	detections: FirmsDetections,
+	area: Pick<FirmsArea, 'lat' | 'lng' | 'radiusKm' | 'days'>,
+	range: DateRange,
+	{ page, pageSize }: { page: number; pageSize: number } = { page: 1, pageSize: FIRMS_PAGE_SIZE.default }
+): FireHotspotReport {
+	const hotspots = hotspotsInArea(detections.hotspots, area.lat, area.lng, area.radiusKm, range);
+
+	const sensors: Partial<Record<FirmsSensor, number>> = {};
+	for (const hotspot of hotspots) {
+		sensors[hotspot.sensor] = (sensors[hotspot.sensor] ?? 0) + 1;
+	}
+
+	// Calculate statistics
+	const totalCount = hotspots.length;
+	const highConfidence = hotspots.filter((h) => h.confidence === 'h').length;
+	const maxBrightness = hotspots.reduce((max, h) => Math.max(max, h.bright_ti4), 0);
+	const maxPower = hotspots.reduce((max, h) => Math.max(max, h.frp), 0);
+	const daily = dailyFireActivity(hotspots, range);
+
+	console.log(
+		`✅ FIRMS: ${totalCount} hotspots within ${area.radiusKm} km, ${range.from} to ${range.to} (${detections.duplicatesRemoved} cross-sensor duplicates removed), ${highConfidence} high confidence, max brightness: ${maxBrightness}K, max power: ${maxPower}MW`
+	);
+
+	return {
+		...detections,
+		hotspots: hotspots.slice((page - 1) * pageSize, page * pageSize),
+		totalCount,
+		highConfidence,
+		maxBrightness,
+		maxPower,
+		sensors,
+		daily,
+		radiusKm: area.radiusKm,
+		days: area.days,
+		...range,
+		page,
+		pageSize,
+		totalPages: Math.max(1, Math.ceil(totalCount / pageSize)),
+	};
+}
+
+/**
+ * Whether a FIRMS map key is configured (the template placeholder does not count)
+ */
+export function hasFirmsKey(mapKey: string | undefined): mapKey is string {
+	return !!mapKey && mapKey !== 'YOUR_FIRMS_MAP_KEY_HERE';
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isoDate(time: number): string {
+	return new Date(time).toISOString().slice(0, 10);
+}
+
+function round(value: number, decimals: number): number {
+	const factor = 10 ** decimals;
+	return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,81 @@
+/**
+ * Geodesy helpers
+ */
+
+const EARTH_RADIUS_KM = 6371;
+
+/** Half the Earth's circumference: no two points are further apart */
+export const MAX_DISTANCE_KM = Math.PI * EARTH_RADIUS_KM;
+
+export type LatLng = { lat: number; lng: number };
+
+/** Server-side spatial filter; `near` also sorts by distance */
+export type AreaFilter = {
+	bbox?: BBox;
+	near?: LatLng;
+	radiusKm?: number; // Only with `near`
+};
+
+/** West, south, east, north in decimal degrees; west > east means the box crosses the antimeridian */
+export type BBox = [number, number, number, number];
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points (haversine), in kilometers
+ */
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+	const dLat = toRadians(lat2 - lat1);
+	const dLng = toRadians(lng2 - lng1);
+	const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+	return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Parse a "west,south,east,north" query parameter; null when malformed or out of range
+ */
+export function parseBBox(value: string): BBox | null {
+	const parts = value.split(',').map((part) => Number(part.trim()));
+	if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) return null;
+
+	const [west, south, east, north] = parts;
+	if (Math.abs(west) > 180 || Math.abs(east) > 180) return null;
+	if (Math.abs(south) > 90 || Math.abs(north) > 90 || south > north) return null;
+
+	return [west, south, east, north];
+}
+
+/**
+ * Whether a point falls inside a bbox (edges included), wrapping across the antimeridian when west > east
+ */
+export function inBBox(lat: number, lng: number, [west, south, east, north]: BBox): boolean {
+	if (lat < south || lat > north) return false;
+	return west <= east ? lng >= west && lng <= east : lng >= west || lng <= east;
+}
+
+/**
+ * Parse a "lat,lng" query parameter; null when malformed or out of range
+ */
+export function parseLatLng(value: string): LatLng | null {
+	const parts = value.split(',').map((part) => Number(part.trim()));
+	if (parts.length !== 2 || parts.some((part) => !Number.isFinite(part))) return null;
+
+	const [lat, lng] = parts;
+	if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+
+	return { lat, lng };
+}
+
+/**
+ * Keep the items inside the area
+ * With `near`, each item gains its great-circle distanceKm and results are sorted nearest first
+ */
+export function filterByArea<T extends LatLng>(items: T[], { bbox, near, radiusKm }: AreaFilter): (T & { distanceKm?: number })[] {
+	const inBox = bbox ? items.filter((item) => inBBox(item.lat, item.lng, bbox)) : items;
+	if (!near) return inBox;
+
+	return inBox
+		.map((item) => ({ ...item, distanceKm: Math.round(haversineKm(near.lat, near.lng, item.lat, item.lng) * 10) / 10 }))
+		.filter((item) => radiusKm === undefined || item.distanceKm <= radiusKm)
+		.sort((a, b) => a.distanceKm - b.distanceKm);
+}
@@ -0,0 +1,100 @@
+/**
+ * GeoJSON (RFC 7946) output
+ * Served by /api/disasters, /api/disasters/history and /api/fire-hotspots for format=geojson
+ * or Accept: application/geo+json, so the URLs load straight into QGIS/ArcGIS and Mapbox sources;
+ * /api/fire-perimeter always answers in GeoJSON
+ */
+
+import type { FireHotspot } from './firms';
+import type { BBox } from './geo';
+import type { DailyPerimeter } from './perimeter';
+import type { Disaster } from './types';
+
+export const GEOJSON_CONTENT_TYPE = 'application/geo+json';
+
+/** Accepted values of the `format` query parameter */
+export const RESPONSE_FORMATS = ['json', 'geojson'];
+
+export type Point = { type: 'Point'; coordinates: [number, number] }; // [lng, lat]
+export type MultiPolygon = { type: 'MultiPolygon'; coordinates: [number, number][][][] }; // Polygons of closed [lng, lat] rings
+
+export type Feature<P, G extends Point | MultiPolygon = Point> = {
+	type: 'Feature';
+	id?: string;
+	geometry: G;
+	properties: P;
+};
+
+export type PointFeature<P> = Feature<P, Point>;
+
+export type FeatureCollection<P, G extends Point | MultiPolygon = Point> = {
+	type: 'FeatureCollection';
+	bbox?: BBox; // Omitted for an empty collection
+	features: Feature<P, G>[];
+};
+
+/** Position lives in the geometry; tracks stay behind GET /api/disasters/:id/track */
+export type DisasterProperties<T extends Disaster = Disaster> = Omit<T, 'lat' | 'lng' | 'track'>;
+
+export type HotspotProperties = Omit<FireHotspot, 'latitude' | 'longitude'>;
+
+export type PerimeterProperties = Omit<DailyPerimeter, 'polygons'>;
+
+/**
+ * Whether the client asked for GeoJSON: format=geojson wins, then the Accept header
+ */
+export function wantsGeoJson(format: string | undefined, accept: string | undefined): boolean {
+	if (format !== undefined) return format === 'geojson';
+	return accept?.toLowerCase().includes(GEOJSON_CONTENT_TYPE) ?? false;
+}
+
+/**
+ * One Point feature per disaster, keyed by the disaster id
+ */
+export function disastersToGeoJson<T extends Disaster>(disasters: T[]): FeatureCollection<DisasterProperties<T>> {
+	const features = disasters.map(({ lat, lng, track, ...properties }): PointFeature<DisasterProperties<T>> => ({
+		type: 'Feature',
+		id: properties.id,
+		geometry: { type: 'Point', coordinates: [lng, lat] },
+		properties,
+	}));
+	return withBBox(features);
+}
+
+/**
+ * One Point feature per FIRMS detection
+ */
+export function hotspotsToGeoJson(hotspots: FireHotspot[]): FeatureCollection<HotspotProperties> {
+	const features = hotspots.map(({ latitude, longitude, ...properties }): PointFeature<HotspotProperties> => ({
+		type: 'Feature',
+		geometry: { type: 'Point', coordinates: [longitude, latitude] },
+		properties,
+	}));
+	return withBBox(features);
+}
+
+/**
+ * One MultiPolygon feature per acquisition date, oldest first, keyed by the date
+ */
+export function perimetersToGeoJson(perimeters: DailyPerimeter[]): FeatureCollection<PerimeterProperties, MultiPolygon> {
+	const features = perimeters.map(({ polygons, ...properties }): Feature<PerimeterProperties, MultiPolygon> => ({
+		type: 'Feature',
+		id: properties.date,
+		geometry: { type: 'MultiPolygon', coordinates: polygons.map((ring) => [ring]) },
+		properties,
+	}));
+	return withBBox(features);
+}
+
+function withBBox<P, G extends Point | MultiPolygon>(features: Feature<P, G>[]): FeatureCollection<P, G> {
+	if (features.length === 0) return { type: 'FeatureCollection', features };
+
+	const positions = features.flatMap(({ geometry }) => (geometry.type === 'Point' ? [geometry.coordinates] : geometry.coordinates.flat(2)));
+	const lngs = positions.map(([lng]) => lng);
+	const lats = positions.map(([, lat]) => lat);
+	return {
+		type: 'FeatureCollection',
+		bbox: [Math.min(...lngs), Math.min(...lats), Math.max(...lngs), Math.max(...lats)],
+		features,
+	};
+}
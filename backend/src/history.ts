@@ -0,0 +1,116 @@
+/**
+ * Historical disaster archive
+ * The Cron pre-warm folds every merged /api/disasters snapshot (default query) into one KV bucket per UTC day,
+ * keeping each event's latest record and when it was first/last seen that day. GET /api/disasters/history
+ * merges the buckets covering a time range
+ */
+
+import { snapshotHash, toSnapshot } from './changes';
+import { inBBox, type BBox } from './geo';
+import type { Disaster, DisasterType } from './types';
+
+/** Archived record: the latest snapshot of an event plus the window it was reported in */
+export type ArchivedDisaster = Omit<Disaster, 'track'> & {
+	firstSeen: string; // ISO
+	lastSeen: string; // ISO
+};
+
+type HistoryDay = {
+	day: string; // YYYY-MM-DD (UTC)
+	events: Record<string, ArchivedDisaster>;
+	hash?: string; // snapshotHash of the last snapshot folded in
+	updatedAt?: string; // ISO time the bucket was last written
+};
+
+export type HistoryQuery = {
+	from: Date;
+	to: Date;
+	types?: DisasterType[];
+	bbox?: BBox;
+};
+
+const HISTORY_KEY_PREFIX = 'history:';
+
+/** Day buckets are kept for a little over a year of after-action reviews */
+const HISTORY_RETENTION = 400 * 24 * 60 * 60; // 400 days, in seconds
+
+/**
+ * An unchanged snapshot only rewrites its bucket this often, to move lastSeen forward;
+ * lastSeen of events that did not change is therefore up to this much behind
+ */
+const HISTORY_LAST_SEEN_RESOLUTION_MS = 60 * 60 * 1000; // 1 hour
+
+/** Longest range one request may read (one KV read per day) */
+export const HISTORY_MAX_RANGE_DAYS = 92;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Add a snapshot to the bucket for its UTC day
+ * Tracks are dropped (GET /api/disasters/:id/track has them) to keep buckets small
+ * @returns Whether the bucket was written (skipped for a snapshot unchanged within HISTORY_LAST_SEEN_RESOLUTION_MS)
+ */
+export async function archiveSnapshot(kv: KVNamespace, disasters: Disaster[], now: Date = new Date()): Promise<boolean> {
+	const day = dayKey(now);
+	const key = `${HISTORY_KEY_PREFIX}${day}`;
+	const seenAt = now.toISOString();
+	const hash = await snapshotHash(toSnapshot(disasters, seenAt).events);
+
+	const bucket = (await kv.get<HistoryDay>(key, 'json')) ?? { day, events: {} };
+	if (bucket.hash === hash && bucket.updatedAt && now.getTime() - Date.parse(bucket.updatedAt) < HISTORY_LAST_SEEN_RESOLUTION_MS) {
+		return false;
+	}
+
+	for (const { track, ...disaster } of disasters) {
+		const existing = bucket.events[disaster.id];
+		bucket.events[disaster.id] = { ...disaster, firstSeen: existing?.firstSeen ?? seenAt, lastSeen: seenAt };
+	}
+
+	bucket.hash = hash;
+	bucket.updatedAt = seenAt;
+	await kv.put(key, JSON.stringify(bucket), { expirationTtl: HISTORY_RETENTION });
+	return true;
+}
+
+/**
+ * Events reported at any point between `from` and `to`, oldest first
+ * Each event carries its latest archived record within the range; type and bbox filter on that record
+ */
+export async function queryHistory(kv: KVNamespace, { from, to, types, bbox }: HistoryQuery): Promise<ArchivedDisaster[]> {
+	const days: string[] = [];
+	for (let time = Date.parse(dayKey(from)); time <= to.getTime(); time += DAY_MS) {
+		days.push(dayKey(new Date(time)));
+	}
+
+	const buckets = await Promise.all(days.map((day) => kv.get<HistoryDay>(`${HISTORY_KEY_PREFIX}${day}`, 'json')));
+
+	const events = new Map<string, ArchivedDisaster>();
+	for (const bucket of buckets) {
+		if (!bucket) continue;
+
+		for (const event of Object.values(bucket.events)) {
+			// Only the part of the day inside the range counts
+			if (event.lastSeen < from.toISOString() || event.firstSeen > to.toISOString()) continue;
+
+			const existing = events.get(event.id);
+			if (!existing) {
+				events.set(event.id, event);
+				continue;
+			}
+
+			const latest = event.lastSeen > existing.lastSeen ? event : existing;
+			events.set(event.id, {
+				...latest,
+				firstSeen: event.firstSeen < existing.firstSeen ? event.firstSeen : existing.firstSeen,
+				lastSeen: latest.lastSeen,
+			});
+		}
+	}
+
+	return [...events.values()]
+		.filter((event) => !types || types.includes(event.type))
+		.filter((event) => !bbox || inBBox(event.lat, event.lng, bbox))
+		.sort((a, b) => a.firstSeen.localeCompare(b.firstSeen));
+}
@@ -6,12 +6,48 @@
 
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
-
-type Bindings = {
-	AEGIS_CACHE: KVNamespace;
-	GEMINI_API_KEY: string;
-	FIRMS_MAP_KEY: string;
-};
+import { predictPasses, TLE_STALE_AFTER_DAYS } from '../../shared/orbital';
+import { describeSatellite, SATELLITE_CATALOG, satelliteByName, satelliteByNoradId } from '../../shared/satellites';
+import { CACHE_AGE_HEADER, swrCache } from './cache';
+import { CAP_CONTENT_TYPE, capAlertDisasters, capAlertDocument, capAlertsDocument, capAtomIndex, type CapOptions, parseCapMinSeverity } from './cap';
+import { readChanges } from './changes';
+import { disasterAtomFeed, feedFrontendUrl } from './feed';
+import {
+	cachedFireDetections,
+	DEFAULT_FIRMS_SOURCES,
+	FIRMS_AREA,
+	FIRMS_CACHE_TTL,
+	FIRMS_MAX_DAYS,
+	fireHotspotReport,
+	hasFirmsKey,
+	hotspotsInArea,
+	parseFirmsPage,
+	parseFirmsRange,
+	parseFirmsSources,
+	recentDateRange,
+} from './firms';
+import { cachedFireDetectionsForRange, parseFirmsDateRange } from './firms-archive';
+import { FirmsResponseError } from './firms-csv';
+import { filterByArea, MAX_DISTANCE_KM, parseBBox, parseLatLng, type AreaFilter } from './geo';
+import { disastersToGeoJson, GEOJSON_CONTENT_TYPE, hotspotsToGeoJson, perimetersToGeoJson, RESPONSE_FORMATS, wantsGeoJson } from './geojson';
+import { HISTORY_MAX_RANGE_DAYS, queryHistory } from './history';
+import { parsePassQuery } from './passes';
+import { firePerimeters } from './perimeter';
+import { prewarmCaches } from './scheduled';
+import { meetsSeverity, SEVERITY_LEVELS, type Severity } from './severity';
+import {
+	DEFAULT_DISASTER_QUERY,
+	enabledSources,
+	runSources,
+	SOURCE_REGISTRY,
+	sourceStatusReport,
+	type SourceContext,
+} from './sources';
+import { EONET_CATEGORY_TYPES, eonetGeometryToTrack, fetchEonetEvent } from './sources/eonet';
+import { USGS_WINDOWS } from './sources/usgs';
+import { cachedTles, elementSetReport, TLE_FORMATS, tleText } from './tles';
+import { DISASTER_TYPES, type Bindings, type DisasterType } from './types';
+import { ATOM_CONTENT_TYPE } from './xml';
 
 const app = new Hono<{ Bindings: Bindings }>();
 
@@ -28,12 +64,12 @@ const GEMINI_CONFIG = {
 		'gemini-2.0-flash',              // ✅ Legacy support (Feb 2025)
 	],
 	apiVersion: 'v1beta',             // v1beta required for Gemini 3.0 models
-	cacheVersion: 'v3',                // Increment to invalidate truncated 500-token responses
+	cacheVersion: 'v4',                // Increment to invalidate cached templates (v4: catalog capabilities in the prompt)
 	appVersion: '1.1.0',               // Bumped from 1.0.0
 } as const;
 
-// Enable CORS for frontend
-app.use('/*', cors());
+// Enable CORS for frontend (cache age is readable cross-origin)
+app.use('/*', cors({ origin: '*', exposeHeaders: [CACHE_AGE_HEADER] }));
 
 // Health check
 app.get('/', (c) => {
@@ -41,271 +77,593 @@ app.get('/', (c) => {
 });
 
 // Route 1: GET /api/disasters
-// Fetches and merges disaster data from NASA EONET and USGS
+// Fetches and merges disaster data from every enabled DisasterSource (EONET, USGS, GDACS by default)
+// Optional query: window=hour|day|week|month, minMagnitude=<0-10> (USGS earthquakes only)
+// Spatial filters: bbox=west,south,east,north (antimeridian-aware), near=lat,lng&radiusKm=<km> (sorted by distance)
+// format=geojson (or Accept: application/geo+json) returns a FeatureCollection instead
 app.get('/api/disasters', async (c) => {
-	const cacheKey = 'disasters';
-	const cacheTTL = 600; // 10 minutes
+	const quakeWindow = c.req.query('window') ?? DEFAULT_DISASTER_QUERY.window;
+	const minMagnitudeParam = c.req.query('minMagnitude');
+	const minMagnitude = minMagnitudeParam !== undefined ? parseFloat(minMagnitudeParam) : DEFAULT_DISASTER_QUERY.minMagnitude;
+
+	if (!USGS_WINDOWS.includes(quakeWindow)) {
+		return c.json({ error: `Invalid window. Use one of: ${USGS_WINDOWS.join(', ')}` }, 400 as any);
+	}
+	if (isNaN(minMagnitude) || minMagnitude < 0 || minMagnitude > 10) {
+		return c.json({ error: 'Invalid minMagnitude. Use a number between 0 and 10' }, 400 as any);
+	}
+
+	const area = parseAreaFilter(c.req.query('bbox'), c.req.query('near'), c.req.query('radiusKm'));
+	if ('error' in area) {
+		return c.json({ error: area.error }, 400 as any);
+	}
+
+	const format = c.req.query('format');
+	if (format !== undefined && !RESPONSE_FORMATS.includes(format)) {
+		return c.json({ error: `Invalid format. Use one of: ${RESPONSE_FORMATS.join(', ')}` }, 400 as any);
+	}
+
+	const ctx: SourceContext = {
+		env: c.env,
+		query: { window: quakeWindow, minMagnitude },
+		// Expired sources are served immediately and refreshed after the response
+		waitUntil: (promise) => c.executionCtx.waitUntil(promise),
+	};
+	const sources = enabledSources(c.env.DISASTER_SOURCES);
+
+	// Each source is cached and fails on its own, falling back to its last-known-good snapshot (see src/sources)
+	const { disasters: allDisasters, results } = await runSources(sources, ctx);
+	const report = sourceStatusReport(results);
+
+	// Sources are cached worldwide; the area is cut out per request
+	const disasters = area.bbox || area.near ? filterByArea(allDisasters, area) : allDisasters;
+
+	const degradedSources = results.filter((r) => r.status === 'stale' || r.status === 'failed');
+	if (degradedSources.length > 0) {
+		console.warn(`⚠️ Degraded sources: ${degradedSources.map((r) => `${r.source.id} (${r.status})`).join(', ')}`);
+	}
+
+	console.log(`✅ ${allDisasters.length} disasters (${disasters.length} in area) from ${results.length - degradedSources.length}/${results.length} healthy sources`);
+
+	// Age of the oldest records in the response
+	const ages = results.map((r) => r.ageSeconds).filter((age): age is number => age !== null);
+	if (ages.length > 0) c.header(CACHE_AGE_HEADER, String(Math.max(...ages)));
+
+	// Nothing at all to show (every source failed with no snapshot) is the only hard failure
+	const body = { disasters, sources: report, degraded: degradedSources.length > 0 };
+	if (results.length > 0 && results.every((r) => r.status === 'failed')) {
+		return c.json({ error: 'Failed to fetch disaster data', ...body }, 503 as any);
+	}
+
+	// Source status travels as foreign members alongside the features
+	if (wantsGeoJson(format, c.req.header('Accept'))) {
+		return c.json({ ...disastersToGeoJson(disasters), sources: report, degraded: body.degraded }, 200, {
+			'Content-Type': GEOJSON_CONTENT_TYPE,
+		});
+	}
+
+	return c.json(body);
+});
+
+/**
+ * Validate the bbox / near / radiusKm query parameters of /api/disasters
+ */
+function parseAreaFilter(bboxParam?: string, nearParam?: string, radiusParam?: string): AreaFilter | { error: string } {
+	const area: AreaFilter = {};
+
+	if (bboxParam !== undefined) {
+		const bbox = parseBBox(bboxParam);
+		if (!bbox) return { error: 'Invalid bbox. Expected minLng,minLat,maxLng,maxLat in decimal degrees' };
+		area.bbox = bbox;
+	}
+
+	if (nearParam !== undefined) {
+		const near = parseLatLng(nearParam);
+		if (!near) return { error: 'Invalid near. Expected lat,lng in decimal degrees' };
+		area.near = near;
+	}
+
+	if (radiusParam !== undefined) {
+		const radiusKm = parseFloat(radiusParam);
+		if (!area.near) return { error: 'radiusKm requires near=lat,lng' };
+		if (isNaN(radiusKm) || radiusKm <= 0 || radiusKm > MAX_DISTANCE_KM) {
+			return { error: `Invalid radiusKm. Use a number between 0 and ${Math.round(MAX_DISTANCE_KM)}` };
+		}
+		area.radiusKm = radiusKm;
+	}
+
+	return area;
+}
+
+/**
+ * Validate a comma-separated `type` parameter; undefined when absent
+ */
+function parseTypeFilter(typeParam?: string): DisasterType[] | { error: string } | undefined {
+	if (!typeParam) return undefined;
+
+	const types = typeParam.split(',').map((type) => type.trim());
+	const unknownTypes = types.filter((type) => !DISASTER_TYPES.includes(type as DisasterType));
+	if (unknownTypes.length > 0) {
+		return { error: `Invalid type: ${unknownTypes.join(', ')}. Must be one of: ${DISASTER_TYPES.join(', ')}` };
+	}
+	return types as DisasterType[];
+}
+
+/**
+ * CAP links and <sender> from the origin the request came in on
+ */
+function capOptions(requestUrl: string): CapOptions {
+	const url = new URL(requestUrl);
+	return { baseUrl: url.origin, sender: `aegismap@${url.hostname}` };
+}
+
+// Route 1.4: GET /api/disasters/history?from=<ISO>&to=<ISO>&type=fire,flood&bbox=west,south,east,north
+// Events archived by the Cron snapshots that were reported at any point in the range (format=geojson supported)
+app.get('/api/disasters/history', async (c) => {
+	const to = c.req.query('to') ? new Date(c.req.query('to')!) : new Date();
+	const from = c.req.query('from') ? new Date(c.req.query('from')!) : new Date(to.getTime() - 24 * 60 * 60 * 1000);
+
+	if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+		return c.json({ error: 'Invalid from/to. Expected ISO 8601 timestamps' }, 400 as any);
+	}
+	if (from > to) {
+		return c.json({ error: 'from must be before to' }, 400 as any);
+	}
+	if (to.getTime() - from.getTime() > HISTORY_MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+		return c.json({ error: `Range too long. Maximum is ${HISTORY_MAX_RANGE_DAYS} days` }, 400 as any);
+	}
+
+	const types = parseTypeFilter(c.req.query('type'));
+	if (types && 'error' in types) {
+		return c.json({ error: types.error }, 400 as any);
+	}
+
+	const bboxParam = c.req.query('bbox');
+	const bbox = bboxParam ? parseBBox(bboxParam) : undefined;
+	if (bbox === null) {
+		return c.json({ error: 'Invalid bbox. Expected west,south,east,north in decimal degrees' }, 400 as any);
+	}
+
+	const format = c.req.query('format');
+	if (format !== undefined && !RESPONSE_FORMATS.includes(format)) {
+		return c.json({ error: `Invalid format. Use one of: ${RESPONSE_FORMATS.join(', ')}` }, 400 as any);
+	}
+
+	try {
+		const disasters = c.env.AEGIS_CACHE
+			? await queryHistory(c.env.AEGIS_CACHE, { from, to, types, bbox })
+			: [];
+		const range = { from: from.toISOString(), to: to.toISOString(), count: disasters.length };
+
+		if (wantsGeoJson(format, c.req.header('Accept'))) {
+			return c.json({ ...disastersToGeoJson(disasters), ...range }, 200, { 'Content-Type': GEOJSON_CONTENT_TYPE });
+		}
+
+		return c.json({ ...range, disasters });
+	} catch (error) {
+		console.error('Error reading disaster history:', error);
+		return c.json({ error: 'Failed to read disaster history' }, 500 as any);
+	}
+});
+
+// Route 1.5: GET /api/disasters/:id/track
+// Returns the full time-ordered geometry track for a single EONET event
+app.get('/api/disasters/:id/track', async (c) => {
+	const id = c.req.param('id');
+
+	if (!id.startsWith('EONET_')) {
+		return c.json({ error: 'Tracks are only available for EONET events' }, 404 as any);
+	}
+
+	const cacheKey = `track:${id}`;
+	const cacheTTL = 600; // 10 minutes, same as /api/disasters
 
 	try {
-		// Check KV cache first
 		const cached = await c.env.AEGIS_CACHE?.get(cacheKey);
 		if (cached) {
-			console.log('Cache hit: disasters');
+			console.log(`Cache hit: ${cacheKey}`);
 			return c.json(JSON.parse(cached));
 		}
 
-		console.log('Cache miss: fetching disasters from sources');
-
-		// Fetch NASA EONET data (wildfires & volcanoes)
-		const eonetResponse = await fetch(
-			'https://eonet.gsfc.nasa.gov/api/v3/events?status=open'
-		);
-		const eonetData = await eonetResponse.json() as any;
-
-		// Filter for wildfires and volcanoes using EONET v3 string IDs
-		const eonetDisasters = eonetData.events
-			.filter((event: any) => {
-				const categoryIds = event.categories.map((cat: any) => cat.id);
-				// FIX: Use string IDs for v3 API (not numeric v2.1 IDs)
-				return categoryIds.includes('wildfires') || categoryIds.includes('volcanoes');
-			})
-			.map((event: any) => {
-				const categoryId = event.categories[0]?.id;
-				// FIX: Use string comparison for v3 API
-				const type = categoryId === 'wildfires' ? 'fire' : 'volcano';
-
-				// Get first coordinate
-				const coords = event.geometry?.[0]?.coordinates;
-				if (!coords) return null;
-
-				return {
-					id: event.id,
-					type,
-					title: event.title,
-					lng: coords[0],
-					lat: coords[1],
-					date: event.geometry[0].date,
-					severity: 'medium', // NASA doesn't provide severity
-				};
-			})
-			.filter(Boolean);
-
-		// Fetch USGS earthquake data
-		const usgsResponse = await fetch(
-			'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/2.5_day.geojson'
-		);
-		const usgsData = await usgsResponse.json() as any;
-
-		const earthquakes = usgsData.features.map((feature: any) => {
-			const magnitude = feature.properties.mag;
-			let severity = 'low';
-			if (magnitude >= 6.0) severity = 'high';
-			else if (magnitude >= 4.5) severity = 'medium';
-
-			return {
-				id: feature.id,
-				type: 'earthquake',
-				title: feature.properties.place,
-				lng: feature.geometry.coordinates[0],
-				lat: feature.geometry.coordinates[1],
-				date: new Date(feature.properties.time).toISOString(),
-				severity,
-				magnitude,
-			};
-		});
+		const event = await fetchEonetEvent(id);
+		if (!event) {
+			return c.json({ error: `Event ${id} not found` }, 404 as any);
+		}
 
-		// Merge all disasters
-		const allDisasters = [...eonetDisasters, ...earthquakes];
+		const categoryId = event.categories?.map((cat: any) => cat.id).find((catId: string) => catId in EONET_CATEGORY_TYPES);
+		const track = eonetGeometryToTrack(event.geometry);
 
-		// Log counts for debugging
-		console.log(`✅ Fetched ${eonetDisasters.length} EONET disasters (wildfires/volcanoes) and ${earthquakes.length} earthquakes`);
+		const result = {
+			id: event.id,
+			type: categoryId ? EONET_CATEGORY_TYPES[categoryId] : null,
+			title: event.title,
+			closed: event.closed ?? null,
+			track,
+		};
 
-		// Cache the result
 		if (c.env.AEGIS_CACHE) {
-			await c.env.AEGIS_CACHE.put(cacheKey, JSON.stringify(allDisasters), {
+			await c.env.AEGIS_CACHE.put(cacheKey, JSON.stringify(result), {
 				expirationTtl: cacheTTL,
 			});
 		}
 
-		return c.json(allDisasters);
+		return c.json(result);
 	} catch (error) {
-		console.error('Error fetching disasters:', error);
-		return c.json({ error: 'Failed to fetch disaster data' }, 500 as any);
+		console.error('Error fetching event track:', error);
+		return c.json({ error: 'Failed to fetch event track' }, 500 as any);
 	}
 });
 
-// Route 2: GET /api/tles
-// Fetches satellite TLE data from CelesTrak
-app.get('/api/tles', async (c) => {
-	const cacheKey = 'tles_v2';
-	const cacheTTL = 43200; // 12 hours
+// Route 1.6: GET /api/sources
+// Lists registered disaster sources, whether DISASTER_SOURCES enables them, and a live health probe
+app.get('/api/sources', async (c) => {
+	const ctx: SourceContext = { env: c.env, query: DEFAULT_DISASTER_QUERY };
+	const enabled = new Set(enabledSources(c.env.DISASTER_SOURCES).map((source) => source.id));
+
+	const sources = await Promise.all(
+		SOURCE_REGISTRY.map(async (source) => ({
+			id: source.id,
+			name: source.name,
+			enabled: enabled.has(source.id),
+			cacheTtl: source.cacheTtl,
+			health: enabled.has(source.id) ? await source.health(ctx) : null,
+		}))
+	);
+
+	return c.json({ sources });
+});
+
+// Route 1.7: GET /api/changes?since=<ISO>
+// Events that appeared, changed or closed between the Cron snapshots taken after `since` (default: last hour)
+app.get('/api/changes', async (c) => {
+	const sinceParam = c.req.query('since');
+	const since = sinceParam ? new Date(sinceParam) : new Date(Date.now() - 60 * 60 * 1000);
+
+	if (isNaN(since.getTime())) {
+		return c.json({ error: 'Invalid since. Expected an ISO 8601 timestamp' }, 400 as any);
+	}
+
+	if (!c.env.AEGIS_CACHE) {
+		return c.json({ since: since.toISOString(), snapshotAt: null, changes: [] });
+	}
 
 	try {
-		// Check cache
-		const cached = await c.env.AEGIS_CACHE?.get(cacheKey);
-		if (cached) {
-			console.log('Cache hit: TLEs');
-			return c.text(cached);
-		}
+		const { changes, latestSnapshot } = await readChanges(c.env.AEGIS_CACHE, since);
+		return c.json({ since: since.toISOString(), snapshotAt: latestSnapshot, changes });
+	} catch (error) {
+		console.error('Error reading change log:', error);
+		return c.json({ error: 'Failed to read change log' }, 500 as any);
+	}
+});
+
+// Route 1.8: GET /api/alerts.cap?minSeverity=low|medium|high
+// CAP 1.2 document of current disasters at or above the minimum severity (CAP_MIN_SEVERITY by default): one <info> per event
+app.get('/api/alerts.cap', async (c) => {
+	const minSeverity = parseCapMinSeverity(c.req.query('minSeverity'), c.env.CAP_MIN_SEVERITY);
+	if (typeof minSeverity !== 'string') {
+		return c.json({ error: minSeverity.error }, 400 as any);
+	}
 
-		console.log('Cache miss: fetching TLEs from CelesTrak');
+	const { disasters } = await runSources(enabledSources(c.env.DISASTER_SOURCES), {
+		env: c.env,
+		query: DEFAULT_DISASTER_QUERY,
+		waitUntil: (promise) => c.executionCtx.waitUntil(promise),
+	});
+	const alerts = capAlertDisasters(disasters, minSeverity);
 
-		// Fetch TLEs for disaster monitoring satellites
-		// Landsat-8 (39084), Landsat-9 (49260), Sentinel-2A (40697), 
-		// Sentinel-2B (42063), Terra (25994), Aqua (27424)
-		const satellites = [39084, 49260, 40697, 42063, 25994, 27424];
+	console.log(`📢 CAP alerts: ${alerts.length} at or above ${minSeverity}`);
+	return c.body(capAlertsDocument(alerts, capOptions(c.req.url)), 200, { 'Content-Type': `${CAP_CONTENT_TYPE}; charset=utf-8` });
+});
 
-		console.log(`Fetching TLEs for ${satellites.length} satellites...`);
+// Route 1.9: GET /api/alerts.atom?minSeverity=low|medium|high
+// ATOM index of the same alerts, each entry linking to and embedding its standalone CAP document
+app.get('/api/alerts.atom', async (c) => {
+	const minSeverity = parseCapMinSeverity(c.req.query('minSeverity'), c.env.CAP_MIN_SEVERITY);
+	if (typeof minSeverity !== 'string') {
+		return c.json({ error: minSeverity.error }, 400 as any);
+	}
 
-		const tlePromises = satellites.map(async (catNr) => {
-			try {
-				const response = await fetch(
-					`https://celestrak.org/NORAD/elements/gp.php?CATNR=${catNr}&FORMAT=tle`
-				);
-				if (!response.ok) {
-					console.error(`Failed to fetch TLE for ${catNr}: ${response.status} ${response.statusText}`);
-					return null;
-				}
-				const text = await response.text();
-				// Validate that we got actual TLE data (should have 3 lines minimum)
-				if (!text || text.trim().length === 0 || text.trim().split('\n').filter(l => l.trim()).length < 3) {
-					console.warn(`Invalid TLE data for ${catNr}: received ${text?.length || 0} chars, ${text?.split('\n').length || 0} lines`);
-					return null;
-				}
-				console.log(`✅ Fetched valid TLE for ${catNr}: ${text.trim().split('\n').length} lines`);
-				return text.trim(); // Remove trailing whitespace
-			} catch (error) {
-				console.error(`Error fetching TLE for ${catNr}:`, error);
-				return null;
-			}
-		});
+	const { disasters } = await runSources(enabledSources(c.env.DISASTER_SOURCES), {
+		env: c.env,
+		query: DEFAULT_DISASTER_QUERY,
+		waitUntil: (promise) => c.executionCtx.waitUntil(promise),
+	});
+	const alerts = capAlertDisasters(disasters, minSeverity);
 
-		const results = await Promise.all(tlePromises);
-		// Filter out null/empty strings and join with newlines to separate TLEs
-		const validTLEs = results.filter(tle => tle !== null && tle !== undefined && tle.trim().length > 0);
+	console.log(`📢 CAP index: ${alerts.length} alerts at or above ${minSeverity}`);
+	return c.body(capAtomIndex(alerts, capOptions(c.req.url)), 200, { 'Content-Type': `${ATOM_CONTENT_TYPE}; charset=utf-8` });
+});
 
-		if (validTLEs.length === 0) {
-			console.error('No valid TLEs fetched from CelesTrak');
-			return c.json({ error: 'No TLE data available' }, 500 as any);
-		}
+// Route 1.10: GET /api/alerts/:id?minSeverity=low|medium|high
+// Standalone CAP 1.2 <alert> for one current disaster; 404 below the same threshold as the index (a trailing ".cap" is ignored)
+app.get('/api/alerts/:id{.+}', async (c) => {
+	const id = c.req.param('id').replace(/\.cap$/, '');
+	const minSeverity = parseCapMinSeverity(c.req.query('minSeverity'), c.env.CAP_MIN_SEVERITY);
+	if (typeof minSeverity !== 'string') {
+		return c.json({ error: minSeverity.error }, 400 as any);
+	}
+
+	const { disasters } = await runSources(enabledSources(c.env.DISASTER_SOURCES), {
+		env: c.env,
+		query: DEFAULT_DISASTER_QUERY,
+		waitUntil: (promise) => c.executionCtx.waitUntil(promise),
+	});
+	const disaster = capAlertDisasters(disasters, minSeverity).find((d) => d.id === id);
+	if (!disaster) {
+		return c.json({ error: `No current alert ${id} at or above ${minSeverity}` }, 404 as any);
+	}
 
-		const tleData = validTLEs.join('\n'); // Combine all TLEs with newlines between them
+	return c.body(capAlertDocument(disaster, capOptions(c.req.url)), 200, { 'Content-Type': `${CAP_CONTENT_TYPE}; charset=utf-8` });
+});
 
-		console.log(`Fetched ${validTLEs.length} valid TLE sets, total length: ${tleData.length}`);
+// Route 1.11: GET /api/feed.atom?type=fire,flood&minSeverity=medium&bbox=west,south,east,north
+// ATOM feed of current disasters, newest first, linking to the frontend with the event selected
+app.get('/api/feed.atom', async (c) => {
+	const types = parseTypeFilter(c.req.query('type'));
+	if (types && 'error' in types) {
+		return c.json({ error: types.error }, 400 as any);
+	}
 
-		// Cache the TLE data
-		if (c.env.AEGIS_CACHE) {
-			await c.env.AEGIS_CACHE.put(cacheKey, tleData, {
-				expirationTtl: cacheTTL,
-			});
+	const minSeverity = c.req.query('minSeverity') ?? 'low';
+	if (!SEVERITY_LEVELS.includes(minSeverity as Severity)) {
+		return c.json({ error: `Invalid minSeverity. Use one of: ${SEVERITY_LEVELS.join(', ')}` }, 400 as any);
+	}
+
+	const area = parseAreaFilter(c.req.query('bbox'));
+	if ('error' in area) {
+		return c.json({ error: area.error }, 400 as any);
+	}
+
+	const { disasters } = await runSources(enabledSources(c.env.DISASTER_SOURCES), {
+		env: c.env,
+		query: DEFAULT_DISASTER_QUERY,
+		waitUntil: (promise) => c.executionCtx.waitUntil(promise),
+	});
+
+	const matching = filterByArea(disasters, area).filter(
+		(disaster) => (!types || types.includes(disaster.type)) && meetsSeverity(disaster.severity, minSeverity as Severity),
+	);
+
+	const feed = disasterAtomFeed(matching, {
+		feedUrl: c.req.url,
+		frontendUrl: feedFrontendUrl(c.env.FRONTEND_URL, new URL(c.req.url).origin),
+	});
+	return c.body(feed, 200, { 'Content-Type': `${ATOM_CONTENT_TYPE}; charset=utf-8` });
+});
+
+// Route 2: GET /api/tles?format=tle|json
+// Satellite element sets from CelesTrak OMM JSON (stale-while-revalidate, pre-warmed by Cron, last-known-good fallback)
+// format=tle (default) returns 3-line TLE text; format=json adds each set's epoch, age in days and a stale flag
+app.get('/api/tles', async (c) => {
+	const { format } = c.req.query();
+	if (format !== undefined && !TLE_FORMATS.includes(format)) {
+		return c.json({ error: `Invalid format. Use one of: ${TLE_FORMATS.join(', ')}` }, 400 as any);
+	}
+
+	try {
+		const tles = await cachedTles(c.env.AEGIS_CACHE, (promise) => c.executionCtx.waitUntil(promise));
+
+		c.header(CACHE_AGE_HEADER, String(tles.ageSeconds));
+		if (format !== 'json') {
+			return c.text(tleText(tles.value));
 		}
 
-		return c.text(tleData);
+		const satellites = elementSetReport(tles.value);
+		return c.json({
+			satellites,
+			count: satellites.length,
+			stale: satellites.filter((sat) => sat.stale).map((sat) => sat.noradId),
+			staleAfterDays: TLE_STALE_AFTER_DAYS,
+			fetchedAt: tles.fetchedAt,
+			cacheState: tles.state,
+			...(tles.error ? { error: tles.error } : {}),
+		});
 	} catch (error) {
 		console.error('Error fetching TLEs:', error);
 		return c.json({ error: 'Failed to fetch TLE data' }, 500 as any);
 	}
 });
 
+// Route 2.1: GET /api/passes?lat=<lat>&lng=<lng>&hours=1-72&minElevation=0-90&satellites=39084,40697&radiusKm=10
+// Upcoming passes over a point from the cached TLEs, predicted with the frontend's propagation code (../shared/orbital.ts)
+// Each pass says whether the area within radiusKm of the point falls inside the sensor's imaging swath
+app.get('/api/passes', async (c) => {
+	const { lat, lng, hours, minElevation, satellites, radiusKm } = c.req.query();
+
+	const latNum = parseFloat(lat ?? '');
+	const lngNum = parseFloat(lng ?? '');
+	if (isNaN(latNum) || isNaN(lngNum) || Math.abs(latNum) > 90 || Math.abs(lngNum) > 180) {
+		return c.json({ error: 'Missing or invalid lat/lng parameters' }, 400 as any);
+	}
+
+	const query = parsePassQuery(hours, minElevation, satellites, radiusKm);
+	if ('error' in query) {
+		return c.json({ error: query.error }, 400 as any);
+	}
+
+	try {
+		const tles = await cachedTles(c.env.AEGIS_CACHE, (promise) => c.executionCtx.waitUntil(promise));
+		const start = new Date();
+		const passes = predictPasses(tleText(tles.value), latNum, lngNum, query.minElevation, { start, ...query });
+
+		c.header(CACHE_AGE_HEADER, String(tles.ageSeconds));
+		return c.json({
+			passes,
+			count: passes.length,
+			...query,
+			from: start.toISOString(),
+			to: new Date(start.getTime() + query.hours * 60 * 60 * 1000).toISOString(),
+		});
+	} catch (error) {
+		console.error('Error predicting passes:', error);
+		return c.json({ error: 'Failed to fetch TLE data' }, 500 as any);
+	}
+});
+
+// Route 2.2: GET /api/satellites
+// Capability catalog of the tracked satellites (sensors, bands, resolution, swath, revisit, SAR/thermal)
+app.get('/api/satellites', (c) => {
+	return c.json({ satellites: SATELLITE_CATALOG, count: SATELLITE_CATALOG.length });
+});
+
 // Route 2.5: GET /api/fire-hotspots
-// Fetches NASA FIRMS fire hotspot data
+// Fetches NASA FIRMS fire hotspot data within radiusKm (1-250, default 55) over the last `days` days (1-10, default 7)
+// Cached per 0.1° grid cell, popular fires pre-warmed by Cron; FIRMS requests go through the quota limiter
+// format=geojson (or Accept: application/geo+json) returns the detections as a FeatureCollection
+// sources=VIIRS_SNPP_NRT,MODIS_NRT,... picks the FIRMS products (all VIIRS satellites by default)
+// from=YYYY-MM-DD&to=YYYY-MM-DD replaces `days` with a date range (up to 93 days, archive products before the NRT window)
+// page/pageSize page through the detections; the statistics and `daily` histogram cover all of them
 app.get('/api/fire-hotspots', async (c) => {
-	const { lat, lng } = c.req.query();
+	const { lat, lng, format, sources: sourcesParam, radiusKm, days, from, to, page: pageParam, pageSize } = c.req.query();
 
 	if (!lat || !lng) {
 		return c.json({ error: 'Missing lat/lng parameters' }, 400 as any);
 	}
 
+	const latNum = parseFloat(lat);
+	const lngNum = parseFloat(lng);
+	if (isNaN(latNum) || isNaN(lngNum) || Math.abs(latNum) > 90 || Math.abs(lngNum) > 180) {
+		return c.json({ error: 'Invalid lat/lng parameters' }, 400 as any);
+	}
 
-	try {
-		// Check if FIRMS_MAP_KEY is configured
-		const FIRMS_MAP_KEY = c.env.FIRMS_MAP_KEY;
+	if (format !== undefined && !RESPONSE_FORMATS.includes(format)) {
+		return c.json({ error: `Invalid format. Use one of: ${RESPONSE_FORMATS.join(', ')}` }, 400 as any);
+	}
+	const geoJson = wantsGeoJson(format, c.req.header('Accept'));
 
-		if (!FIRMS_MAP_KEY || FIRMS_MAP_KEY === 'YOUR_FIRMS_MAP_KEY_HERE') {
-			console.warn('⚠️ FIRMS_MAP_KEY not configured - returning empty data');
-			return c.json({
-				hotspots: [],
-				totalCount: 0,
-				highConfidence: 0,
-				maxBrightness: 0,
-				maxPower: 0,
-				message: 'FIRMS API key not configured. Register at https://firms.modaps.eosdis.nasa.gov/api/'
-			});
-		}
+	const sources = parseFirmsSources(sourcesParam);
+	if ('error' in sources) {
+		return c.json({ error: sources.error }, 400 as any);
+	}
 
-		// Calculate area bounds (±0.5 degrees = ~55km radius)
-		const lat1 = parseFloat(lat) - 0.5;
-		const lat2 = parseFloat(lat) + 0.5;
-		const lon1 = parseFloat(lng) - 0.5;
-		const lon2 = parseFloat(lng) + 0.5;
+	const range = parseFirmsRange(radiusKm, days);
+	if ('error' in range) {
+		return c.json({ error: range.error }, 400 as any);
+	}
 
-		// FIRMS API: area CSV format (VIIRS satellite, last 7 days)
-		const firmsUrl = `https://firms.modaps.eosdis.nasa.gov/api/area/csv/${FIRMS_MAP_KEY}/VIIRS_SNPP_NRT/${lon1},${lat1},${lon2},${lat2}/7`;
+	if ((from !== undefined || to !== undefined) && days !== undefined) {
+		return c.json({ error: 'Use either days or from/to' }, 400 as any);
+	}
+	if (to !== undefined && from === undefined) {
+		return c.json({ error: 'Missing from parameter' }, 400 as any);
+	}
+	const dates = from === undefined ? recentDateRange(range.days) : parseFirmsDateRange(from, to);
+	if ('error' in dates) {
+		return c.json({ error: dates.error }, 400 as any);
+	}
+	const dayCount = from === undefined ? range.days : (Date.parse(dates.to) - Date.parse(dates.from)) / 86_400_000 + 1;
 
-		console.log(`Fetching FIRMS data from: ${firmsUrl.replace(FIRMS_MAP_KEY, 'REDACTED')}`);
+	const page = parseFirmsPage(pageParam, pageSize);
+	if ('error' in page) {
+		return c.json({ error: page.error }, 400 as any);
+	}
 
-		const response = await fetch(firmsUrl);
+	// Check if FIRMS_MAP_KEY is configured
+	const FIRMS_MAP_KEY = c.env.FIRMS_MAP_KEY;
 
-		if (!response.ok) {
-			console.error(`FIRMS API error: ${response.status} ${response.statusText}`);
-			return c.json({ error: 'Failed to fetch fire hotspot data' }, response.status as any);
+	if (!hasFirmsKey(FIRMS_MAP_KEY)) {
+		console.warn('⚠️ FIRMS_MAP_KEY not configured - returning empty data');
+		const message = 'FIRMS API key not configured. Register at https://firms.modaps.eosdis.nasa.gov/api/';
+		if (geoJson) {
+			return c.json({ ...hotspotsToGeoJson([]), message }, 200, { 'Content-Type': GEOJSON_CONTENT_TYPE });
 		}
+		return c.json({
+			hotspots: [],
+			totalCount: 0,
+			highConfidence: 0,
+			maxBrightness: 0,
+			maxPower: 0,
+			sensors: {},
+			duplicatesRemoved: 0,
+			unavailableSources: [],
+			skippedRows: 0,
+			daily: [],
+			radiusKm: range.radiusKm,
+			days: dayCount,
+			...dates,
+			...page,
+			totalPages: 1,
+			message,
+		});
+	}
 
-		const csvText = await response.text();
-
-		// Parse CSV (skip header line)
-		const lines = csvText.trim().split('\n').slice(1);
+	try {
+		const waitUntil = (promise: Promise<unknown>) => c.executionCtx.waitUntil(promise);
+		const area = { lat: latNum, lng: lngNum, radiusKm: range.radiusKm, sources };
+		const detections =
+			from === undefined
+				? await cachedFireDetections(c.env.AEGIS_CACHE, FIRMS_MAP_KEY, { ...area, days: range.days }, waitUntil)
+				: await cachedFireDetectionsForRange(c.env.AEGIS_CACHE, FIRMS_MAP_KEY, area, dates, undefined, waitUntil);
+		const report = fireHotspotReport(detections.value, { ...area, days: dayCount }, dates, page);
+
+		c.header(CACHE_AGE_HEADER, String(detections.ageSeconds));
+
+		// Summary statistics travel as foreign members alongside the features
+		if (geoJson) {
+			const { hotspots, ...stats } = report;
+			return c.json({ ...hotspotsToGeoJson(hotspots), ...stats }, 200, { 'Content-Type': GEOJSON_CONTENT_TYPE });
+		}
 
-		if (lines.length === 0 || lines[0].trim() === '') {
-			return c.json({
-				hotspots: [],
-				totalCount: 0,
-				highConfidence: 0,
-				maxBrightness: 0,
-				maxPower: 0,
-			});
+		return c.json(report);
+	} catch (error) {
+		console.error('Error fetching FIRMS data:', error);
+		if (error instanceof FirmsResponseError && error.quotaExceeded) {
+			return c.json({ error: FIRMS_QUOTA_MESSAGE }, 503 as any);
 		}
+		return c.json({ error: 'Failed to fetch fire hotspot data' }, 502 as any);
+	}
+});
 
-		// ✅ CORRECTED: Parse VIIRS CSV format with correct field names
-		// CSV columns: latitude,longitude,bright_ti4,scan,track,acq_date,acq_time,satellite,confidence,version,bright_ti5,frp,daynight
-		const hotspots = lines.map(line => {
-			const parts = line.split(',');
-			return {
-				latitude: parseFloat(parts[0]),
-				longitude: parseFloat(parts[1]),
-				bright_ti4: parseFloat(parts[2]), // ✅ FIXED: VIIRS I-4 brightness temperature (Kelvin)
-				scan: parseFloat(parts[3]),
-				track: parseFloat(parts[4]),
-				acq_date: parts[5],
-				acq_time: parts[6],
-				satellite: parts[7],
-				confidence: parts[8], // 'l' = low, 'n' = nominal, 'h' = high
-				version: parts[9],
-				bright_ti5: parseFloat(parts[10]), // ✅ VIIRS I-5 brightness (background)
-				frp: parseFloat(parts[11]), // Fire Radiative Power (MW)
-				daynight: parts[12],
-			};
-		});
+const FIRMS_QUOTA_MESSAGE = 'FIRMS transaction limit reached, try again in a few minutes';
 
-		// Calculate statistics
-		const totalCount = hotspots.length;
-		const highConfidence = hotspots.filter(h => h.confidence === 'h' || h.confidence === 'high').length;
-		const maxBrightness = Math.max(...hotspots.map(h => h.bright_ti4)); // ✅ FIXED: Use bright_ti4
-		const maxPower = Math.max(...hotspots.map(h => h.frp));
+// Route 2.6: GET /api/fire-perimeter?lat=<lat>&lng=<lng>&days=1-10
+// Daily fire perimeters (concave hulls of the VIIRS pixel footprints) with area and growth in hectares
+app.get('/api/fire-perimeter', async (c) => {
+	const { lat, lng, days } = c.req.query();
 
-		console.log(`✅ FIRMS: ${totalCount} hotspots, ${highConfidence} high confidence, max brightness: ${maxBrightness}K, max power: ${maxPower}MW`);
+	const latNum = parseFloat(lat ?? '');
+	const lngNum = parseFloat(lng ?? '');
+	if (isNaN(latNum) || isNaN(lngNum) || Math.abs(latNum) > 90 || Math.abs(lngNum) > 180) {
+		return c.json({ error: 'Missing or invalid lat/lng parameters' }, 400 as any);
+	}
 
-		return c.json({
-			hotspots,
-			totalCount,
-			highConfidence,
-			maxBrightness,
-			maxPower,
-		});
+	const dayCount = days === undefined ? 7 : Number(days);
+	if (!Number.isInteger(dayCount) || dayCount < 1 || dayCount > FIRMS_MAX_DAYS) {
+		return c.json({ error: `Invalid days. Use a whole number from 1 to ${FIRMS_MAX_DAYS}` }, 400 as any);
+	}
+
+	const FIRMS_MAP_KEY = c.env.FIRMS_MAP_KEY;
+	if (!hasFirmsKey(FIRMS_MAP_KEY)) {
+		const message = 'FIRMS API key not configured. Register at https://firms.modaps.eosdis.nasa.gov/api/';
+		return c.json({ ...perimetersToGeoJson([]), days: dayCount, message }, 200, { 'Content-Type': GEOJSON_CONTENT_TYPE });
+	}
 
+	try {
+		// ~1 km rounding, so every click on one fire shares the entry; the detections come from the hotspot cache
+		const perimeters = await swrCache(
+			c.env.AEGIS_CACHE,
+			`perimeter:${latNum.toFixed(2)}:${lngNum.toFixed(2)}:${dayCount}`,
+			async () => {
+				const area = { lat: latNum, lng: lngNum, radiusKm: FIRMS_AREA.defaultRadiusKm, days: dayCount, sources: DEFAULT_FIRMS_SOURCES };
+				const detections = await cachedFireDetections(c.env.AEGIS_CACHE, FIRMS_MAP_KEY, area);
+				const hotspots = hotspotsInArea(detections.value.hotspots, latNum, lngNum, area.radiusKm, recentDateRange(dayCount));
+				// Low-confidence pixels are mostly sun glint and hot surfaces
+				return firePerimeters(hotspots.filter((h) => h.confidence !== 'l'));
+			},
+			{ ttl: FIRMS_CACHE_TTL, waitUntil: (promise) => c.executionCtx.waitUntil(promise) }
+		);
+
+		c.header(CACHE_AGE_HEADER, String(perimeters.ageSeconds));
+		const latest = perimeters.value[perimeters.value.length - 1];
+		return c.json({ ...perimetersToGeoJson(perimeters.value), days: dayCount, areaHa: latest?.areaHa ?? 0 }, 200, {
+			'Content-Type': GEOJSON_CONTENT_TYPE,
+		});
 	} catch (error) {
-		console.error('Error fetching FIRMS data:', error);
-		return c.json({ error: 'Failed to fetch fire hotspot data' }, 500 as any);
+		console.error('Error building fire perimeters:', error);
+		if (error instanceof FirmsResponseError && error.quotaExceeded) {
+			return c.json({ error: FIRMS_QUOTA_MESSAGE }, 503 as any);
+		}
+		return c.json({ error: 'Failed to build fire perimeters' }, 502 as any);
 	}
 });
 
@@ -314,7 +672,7 @@ app.get('/api/fire-hotspots', async (c) => {
 app.post('/api/analyze', async (c) => {
 	try {
 		const body = await c.req.json();
-		const { disasterTitle, satelliteName, passTime, cloudCover } = body;
+		const { disasterTitle, satelliteName, passTime, cloudCover, noradId } = body;
 
 		if (!disasterTitle || !satelliteName || !passTime || cloudCover === undefined) {
 			return c.json({ error: 'Missing required fields' }, 400 as any);
@@ -325,11 +683,9 @@ app.post('/api/analyze', async (c) => {
 			disasterTitle.toLowerCase().includes('volcano') ? 'volcano' :
 				disasterTitle.toLowerCase().includes('earthquake') ? 'earthquake' : 'disaster';
 
-		const satelliteType = satelliteName.toUpperCase().includes('LANDSAT') ? 'LANDSAT' :
-			satelliteName.toUpperCase().includes('SENTINEL') ? 'SENTINEL' :
-				satelliteName.toUpperCase().includes('TERRA') ? 'TERRA' :
-					satelliteName.toUpperCase().includes('AQUA') ? 'AQUA' :
-						satelliteName.replace(/[^A-Z0-9]/gi, '').substring(0, 10);
+		// Capabilities from the catalog (by NORAD id, or by name for older clients)
+		const satelliteInfo = (noradId !== undefined ? satelliteByNoradId(Number(noradId)) : undefined) ?? satelliteByName(satelliteName);
+		const satelliteType = satelliteInfo?.id ?? satelliteName.replace(/[^A-Z0-9]/gi, '').substring(0, 10);
 
 		// Bucket cloud cover by 5% intervals
 		const cloudBucket = Math.floor(cloudCover / 5) * 5;
@@ -388,8 +744,14 @@ app.post('/api/analyze', async (c) => {
 				? 'For volcanic activity, prioritize thermal infrared for lava flows and heat anomalies. SAR for ground deformation. Optical for ash plumes and visibility.'
 				: 'For fire monitoring, prioritize thermal infrared bands for active fire perimeters and heat anomalies. Optical imagery for smoke plumes and burn scars.';
 
+		const capabilities = satelliteInfo
+			? `Satellite capabilities: ${describeSatellite(satelliteInfo)}. ${satelliteInfo.sar ? 'Has SAR (sees through cloud and smoke).' : 'No SAR.'} ${satelliteInfo.thermal ? 'Has thermal infrared.' : 'No thermal infrared.'}`
+			: 'Satellite capabilities: unknown.';
+
 		const prompt = `You are a satellite imagery analyst. A ${disasterType} disaster "${disasterTitle}" will be observed by satellite "${satelliteName}" at ${new Date(passTime).toLocaleString()} UTC. Cloud cover: ${cloudCover}%.
 
+${capabilities}
+
 ${disasterGuidance}
 
 Assess: Will this pass provide useful imagery for ${disasterType} assessment? Consider optical limitations and recommend appropriate sensors.
@@ -583,4 +945,12 @@ app.get('/api/test-gemini', async (c) => {
 	}
 });
 
-export default app;
+export default {
+	fetch: app.fetch,
+
+	// Cron trigger (wrangler.jsonc "triggers"): refresh expired caches ahead of user requests
+	async scheduled(controller: ScheduledController, env: Bindings, ctx: ExecutionContext) {
+		console.log(`⏰ Cron ${controller.cron}: pre-warming caches`);
+		ctx.waitUntil(prewarmCaches(env));
+	},
+} satisfies ExportedHandler<Bindings>;
@@ -0,0 +1,168 @@
+/**
+ * CelesTrak OMM (CCSDS Orbit Mean-Elements Message) JSON
+ * Validates the element sets returned by gp.php?FORMAT=json and renders them as TLE lines,
+ * so /api/tles keeps serving the classic 3-line text the shared orbital engine parses
+ */
+
+import type { OMMJsonObject } from 'satellite.js';
+import { tleChecksum } from '../../shared/orbital';
+
+// Numeric fields every SGP4 element set needs, with their valid range (CelesTrak sends numbers, Space-Track strings)
+const OMM_NUMERIC_FIELDS: [keyof OMMJsonObject, number, number][] = [
+	['MEAN_MOTION', 0, 20], // Revolutions per day (LEO ~14-16)
+	['ECCENTRICITY', 0, 0.9999999],
+	['INCLINATION', 0, 180],
+	['RA_OF_ASC_NODE', 0, 360],
+	['ARG_OF_PERICENTER', 0, 360],
+	['MEAN_ANOMALY', 0, 360],
+	['BSTAR', -1, 1],
+	['MEAN_MOTION_DOT', -1, 1],
+	['MEAN_MOTION_DDOT', -1, 1],
+];
+
+/** Element sets older than this are not worth propagating; the last-known-good set is kept instead */
+export const OMM_MAX_EPOCH_AGE_DAYS = 30;
+/** Epochs this far ahead of the clock are corrupt (CelesTrak publishes fits of past observations) */
+const OMM_MAX_EPOCH_LEAD_DAYS = 1;
+/** Below this perigee altitude an object has decayed, so the elements are wrong for a tracked satellite */
+const OMM_MIN_PERIGEE_KM = 100;
+
+const EARTH_MU = 398600.4418; // km³/s²
+const EARTH_RADIUS_KM = 6378.137;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check one OMM object from CelesTrak against the satellite it was requested for
+ * ommToTle computes the TLE checksums itself, so the checks are on the elements CelesTrak sent:
+ * catalog number format, epoch age, element ranges and an orbit that stays above the atmosphere
+ * @returns The first problem found, or null when the element set can be propagated
+ */
+export function validateOmm(omm: unknown, noradId: number, now: Date = new Date()): string | null {
+	if (!omm || typeof omm !== 'object') return 'not an OMM object';
+	const record = omm as Partial<OMMJsonObject>;
+
+	if (typeof record.OBJECT_NAME !== 'string' || record.OBJECT_NAME.trim() === '') return 'missing OBJECT_NAME';
+	// TLE line 1 has five columns for the catalog number (Alpha-5 ids are not supported)
+	if (!/^\d{1,5}$/.test(String(record.NORAD_CAT_ID).trim())) return `NORAD_CAT_ID ${record.NORAD_CAT_ID} is not a 1-5 digit catalog number`;
+	if (Number(record.NORAD_CAT_ID) !== noradId) return `NORAD_CAT_ID ${record.NORAD_CAT_ID} does not match ${noradId}`;
+	if (record.OBJECT_ID !== undefined && !/^\d{4}-\d{3}[A-Z]{1,3}$/.test(String(record.OBJECT_ID).trim())) return `invalid OBJECT_ID ${record.OBJECT_ID}`;
+	if (record.EPHEMERIS_TYPE !== undefined && Number(record.EPHEMERIS_TYPE) !== 0) return `unsupported EPHEMERIS_TYPE ${record.EPHEMERIS_TYPE}`;
+
+	const epoch = typeof record.EPOCH === 'string' ? ommEpoch(record.EPOCH) : null;
+	if (!epoch) return `invalid EPOCH ${record.EPOCH}`;
+	const ageDays = (now.getTime() - epoch.getTime()) / DAY_MS;
+	if (ageDays < -OMM_MAX_EPOCH_LEAD_DAYS) return `EPOCH ${record.EPOCH} is in the future`;
+	if (ageDays > OMM_MAX_EPOCH_AGE_DAYS) return `EPOCH ${record.EPOCH} is more than ${OMM_MAX_EPOCH_AGE_DAYS} days old`;
+
+	for (const [field, min, max] of OMM_NUMERIC_FIELDS) {
+		const value = Number(record[field]);
+		if (record[field] === undefined || record[field] === '' || !Number.isFinite(value) || value < min || value > max) {
+			return `${field} ${record[field]} is outside ${min}-${max}`;
+		}
+	}
+	if (Number(record.MEAN_MOTION) === 0) return 'MEAN_MOTION is 0';
+
+	for (const field of ['ELEMENT_SET_NO', 'REV_AT_EPOCH'] as const) {
+		if (record[field] !== undefined && !/^\d+$/.test(String(record[field]).trim())) return `${field} ${record[field]} is not a counter`;
+	}
+
+	const perigeeKm = perigeeAltitudeKm(Number(record.MEAN_MOTION), Number(record.ECCENTRICITY));
+	if (perigeeKm < OMM_MIN_PERIGEE_KM) return `perigee ${Math.round(perigeeKm)} km is below ${OMM_MIN_PERIGEE_KM} km`;
+
+	return null;
+}
+
+/**
+ * Epoch of an OMM (ISO UTC time without zone, microsecond precision), or null when unreadable
+ */
+export function ommEpoch(epoch: string): Date | null {
+	const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2}(?:\.\d+)?)Z?$/.exec(epoch.trim());
+	if (!match) return null;
+
+	const [, year, month, day, hour, minute, second] = match;
+	const date = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute) + parseFloat(second) * 1000);
+	return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Render an OMM as the two lines of a TLE (fixed columns, checksums included)
+ */
+export function ommToTle(omm: OMMJsonObject): [string, string] {
+	const noradId = String(Number(omm.NORAD_CAT_ID)).padStart(5, '0');
+	const classification = omm.CLASSIFICATION_TYPE ?? 'U';
+	const elementSet = String(Number(omm.ELEMENT_SET_NO ?? 999) % 10000).padStart(4, ' ');
+	const revolution = String(Number(omm.REV_AT_EPOCH ?? 0) % 100000).padStart(5, ' ');
+
+	const line1 = [
+		`1 ${noradId}${classification}`,
+		internationalDesignator(omm.OBJECT_ID).padEnd(8, ' '),
+		tleEpochField(omm.EPOCH),
+		decimalField(Number(omm.MEAN_MOTION_DOT)),
+		exponentField(Number(omm.MEAN_MOTION_DDOT)),
+		exponentField(Number(omm.BSTAR)),
+		'0',
+		elementSet,
+	].join(' ');
+
+	const line2 = [
+		`2 ${noradId}`,
+		angleField(Number(omm.INCLINATION)),
+		angleField(Number(omm.RA_OF_ASC_NODE)),
+		Number(omm.ECCENTRICITY).toFixed(7).substring(2),
+		angleField(Number(omm.ARG_OF_PERICENTER)),
+		angleField(Number(omm.MEAN_ANOMALY)),
+		`${Number(omm.MEAN_MOTION).toFixed(8).padStart(11, ' ')}${revolution}`,
+	].join(' ');
+
+	return [`${line1}${tleChecksum(line1)}`, `${line2}${tleChecksum(line2)}`];
+}
+
+// Kepler's third law: semi-major axis from the mean motion (rev/day), then the perigee above the equatorial radius
+function perigeeAltitudeKm(meanMotion: number, eccentricity: number): number {
+	const radiansPerSecond = (meanMotion * 2 * Math.PI) / 86400;
+	const semiMajorAxisKm = Math.cbrt(EARTH_MU / radiansPerSecond ** 2);
+	return semiMajorAxisKm * (1 - eccentricity) - EARTH_RADIUS_KM;
+}
+
+// "2013-008A" -> "13008A"
+function internationalDesignator(objectId: string | undefined): string {
+	const match = /^\d{2}(\d{2})-(\d{3}[A-Z]{0,3})$/.exec(objectId?.trim() ?? '');
+	return match ? `${match[1]}${match[2]}` : '';
+}
+
+// YYDDD.DDDDDDDD: two-digit year, then day of year with its fraction
+function tleEpochField(epoch: string): string {
+	const date = ommEpoch(epoch) ?? new Date(NaN);
+	const year = date.getUTCFullYear();
+	const dayOfYear = (date.getTime() - Date.UTC(year, 0, 1)) / (24 * 60 * 60 * 1000) + 1;
+	return `${String(year % 100).padStart(2, '0')}${dayOfYear.toFixed(8).padStart(12, '0')}`;
+}
+
+// " .00000120" / "-.00000120": sign, then the fraction without its leading zero
+function decimalField(value: number): string {
+	return `${value < 0 ? '-' : ' '}${Math.abs(value).toFixed(8).substring(1)}`;
+}
+
+// " 36370-4" = 0.36370e-4: sign, five mantissa digits with an implied leading decimal point, one-digit signed exponent.
+// Values too small for the field are written as zero, values too large are capped at 0.99999e+9
+function exponentField(value: number): string {
+	if (value === 0) return ' 00000-0';
+
+	let exponent = Math.floor(Math.log10(Math.abs(value))) + 1;
+	let mantissa = Math.round((Math.abs(value) / 10 ** exponent) * 1e5);
+	if (mantissa >= 1e5) {
+		mantissa /= 10;
+		exponent += 1;
+	}
+	if (exponent < -9) return ' 00000-0';
+	if (exponent > 9) {
+		mantissa = 99999;
+		exponent = 9;
+	}
+	return `${value < 0 ? '-' : ' '}${String(mantissa).padStart(5, '0')}${exponent < 0 ? '-' : '+'}${Math.abs(exponent)}`;
+}
+
+// Degrees as " 98.2215" (8 columns, 4 decimals)
+function angleField(value: number): string {
+	return value.toFixed(4).padStart(8, ' ');
+}
@@ -0,0 +1,55 @@
+/**
+ * Satellite pass prediction (GET /api/passes)
+ * Propagation comes from ../shared/orbital.ts, the same code the frontend Sidebar runs
+ */
+
+import { SWATH_DEFAULT_RADIUS_KM } from '../../shared/orbital';
+import { TLE_SATELLITES } from './tles';
+
+/** Query defaults and limits */
+export const PASS_QUERY = {
+	defaultHours: 24,
+	maxHours: 72,
+	defaultMinElevation: 25, // Degrees; matches the Sidebar's optimal threshold
+	maxRadiusKm: 250, // Area around the site checked against the imaging swath
+} as const;
+
+export type PassQuery = {
+	hours: number;
+	minElevation: number;
+	noradIds: number[];
+	radiusKm: number;
+};
+
+/**
+ * Validate the `hours`, `minElevation`, `satellites` (comma-separated NORAD ids) and `radiusKm` query parameters
+ */
+export function parsePassQuery(
+	hoursParam?: string,
+	minElevationParam?: string,
+	satellitesParam?: string,
+	radiusParam?: string
+): PassQuery | { error: string } {
+	const hours = hoursParam === undefined ? PASS_QUERY.defaultHours : Number(hoursParam);
+	if (!Number.isFinite(hours) || hours <= 0 || hours > PASS_QUERY.maxHours) {
+		return { error: `hours must be a number between 0 and ${PASS_QUERY.maxHours}` };
+	}
+
+	const minElevation = minElevationParam === undefined ? PASS_QUERY.defaultMinElevation : Number(minElevationParam);
+	if (!Number.isFinite(minElevation) || minElevation < 0 || minElevation > 90) {
+		return { error: 'minElevation must be between 0 and 90 degrees' };
+	}
+
+	const ids = satellitesParam ? satellitesParam.split(',').map((id) => id.trim()) : TLE_SATELLITES.map(String);
+	const unknown = ids.filter((id) => !TLE_SATELLITES.includes(Number(id)));
+	if (unknown.length > 0) {
+		return { error: `Unknown satellites: ${unknown.join(', ')}. Use NORAD ids from: ${TLE_SATELLITES.join(', ')}` };
+	}
+
+	const radiusKm = radiusParam === undefined ? SWATH_DEFAULT_RADIUS_KM : Number(radiusParam);
+	if (!Number.isFinite(radiusKm) || radiusKm < 0 || radiusKm > PASS_QUERY.maxRadiusKm) {
+		return { error: `radiusKm must be between 0 and ${PASS_QUERY.maxRadiusKm}` };
+	}
+
+	return { hours, minElevation, noradIds: ids.map(Number), radiusKm };
+}
@@ -0,0 +1,270 @@
+/**
+ * Fire perimeters from FIRMS detections (GET /api/fire-perimeter)
+ * Every detection covers a scan × track km pixel. For each acquisition date, the footprints detected up to
+ * that day are grouped into connected burn areas, each wrapped in a concave hull; the hulls give the day's
+ * perimeter, its area in hectares and the growth since the previous day. A burn area without new detections
+ * keeps the previous day's hull, and large areas are thinned before hulling, so a week of a big fire stays cheap
+ */
+
+import type { FireHotspot } from './firms';
+
+/**
+ * Hull parameters
+ * Footprints whose centres are within joinKm belong to the same burn area; a hull edge longer than minEdgeKm
+ * is dug in towards the nearest inner point while edge length / distance to that point exceeds concavity
+ * (lower = tighter fit, higher = closer to the convex hull)
+ */
+export const PERIMETER_CONFIG = {
+	joinKm: 1.5,
+	concavity: 2,
+	minEdgeKm: 0.75,
+	gridKm: 0.1, // Footprint corners closer than this are merged before hulling
+	maxHullPoints: 1500, // Digging costs O(hull × points): the merge grid is coarsened until a burn area has at most this many corners
+} as const;
+
+export type DailyPerimeter = {
+	date: string; // Acquisition date (YYYY-MM-DD, UTC)
+	detections: number; // Detections on this date
+	totalDetections: number; // Detections up to and including this date
+	areaHa: number; // Area inside the perimeter
+	growthHa: number; // Change since the previous acquisition date (the whole area on the first)
+	polygons: [number, number][][]; // One closed [lng, lat] ring per burn area
+};
+
+type XY = [number, number]; // Local km east/north of the projection origin
+
+const KM_PER_DEGREE = 111.32;
+
+/**
+ * Perimeter per acquisition date, oldest first; each day includes every earlier detection
+ */
+export function firePerimeters(hotspots: FireHotspot[], config: typeof PERIMETER_CONFIG = PERIMETER_CONFIG): DailyPerimeter[] {
+	// Oldest first, so each day's detections are a prefix of the list and a burn area keeps its member indices
+	const valid = hotspots
+		.filter((h) => !isNaN(h.latitude) && !isNaN(h.longitude) && /^\d{4}-\d{2}-\d{2}$/.test(h.acq_date ?? ''))
+		.sort((a, b) => a.acq_date.localeCompare(b.acq_date));
+	if (valid.length === 0) return [];
+
+	// Local equirectangular projection: a few hundred km at most, so distortion is negligible
+	const lat0 = valid.reduce((sum, h) => sum + h.latitude, 0) / valid.length;
+	const lng0 = valid.reduce((sum, h) => sum + h.longitude, 0) / valid.length;
+	const kmPerDegreeLng = KM_PER_DEGREE * Math.max(0.01, Math.cos((lat0 * Math.PI) / 180));
+	const project = (lat: number, lng: number): XY => [(lng - lng0) * kmPerDegreeLng, (lat - lat0) * KM_PER_DEGREE];
+	const unproject = ([x, y]: XY): [number, number] => [round(lng0 + x / kmPerDegreeLng, 5), round(lat0 + y / KM_PER_DEGREE, 5)];
+	const centres = valid.map((h) => project(h.latitude, h.longitude));
+
+	const dates = [...new Set(valid.map((h) => h.acq_date))];
+	const perimeters: DailyPerimeter[] = [];
+	let previousArea = 0;
+	let previousRings = new Map<string, XY[]>();
+
+	for (const date of dates) {
+		const end = valid.findIndex((h) => h.acq_date > date);
+		const total = end < 0 ? valid.length : end;
+
+		// Keyed by member indices: a burn area that neither grew nor merged keeps yesterday's hull
+		const rings = new Map<string, XY[]>();
+		for (const members of burnAreas(centres.slice(0, total), config.joinKm)) {
+			const key = members.join(',');
+			const previous = previousRings.get(key);
+			const corners = previous ? [] : thin(members.flatMap((index) => footprint(valid[index], project)), config.gridKm, config.maxHullPoints);
+			rings.set(key, previous ?? concaveHull(corners, config.concavity, config.minEdgeKm));
+		}
+		previousRings = rings;
+
+		const areaHa = round([...rings.values()].reduce((sum, ring) => sum + polygonAreaKm2(ring), 0) * 100, 1);
+		perimeters.push({
+			date,
+			detections: valid.slice(0, total).filter((h) => h.acq_date === date).length,
+			totalDetections: total,
+			areaHa,
+			growthHa: round(areaHa - previousArea, 1),
+			polygons: [...rings.values()].map((ring) => [...ring, ring[0]].map(unproject)),
+		});
+		previousArea = areaHa;
+	}
+
+	return perimeters;
+}
+
+/**
+ * Concave hull ("gift opening"): start from the convex hull and dig each long edge in towards the
+ * nearest inner point while the edge is much longer than its distance to that point; returns a CCW ring
+ */
+export function concaveHull(points: XY[], concavity: number, minEdgeKm: number): XY[] {
+	const hull = convexHull(points);
+	if (hull.length < 3) return hull;
+
+	const onHull = new Set(hull);
+	const inner = points.filter((point) => !onHull.has(point));
+
+	let i = 0;
+	while (i < hull.length) {
+		const a = hull[i];
+		const b = hull[(i + 1) % hull.length];
+		const edge = distance(a, b);
+
+		if (edge > minEdgeKm) {
+			let nearest = -1;
+			let nearestDistance = Infinity;
+			inner.forEach((point, index) => {
+				const d = segmentDistance(point, a, b);
+				if (d !== null && d < nearestDistance) {
+					nearest = index;
+					nearestDistance = d;
+				}
+			});
+
+			if (nearest >= 0) {
+				const point = inner[nearest];
+				const decision = Math.min(distance(point, a), distance(point, b));
+				if (decision > 0 && edge / decision > concavity && !crossesHull(hull, i, point)) {
+					hull.splice(i + 1, 0, point);
+					inner.splice(nearest, 1);
+					continue; // Re-check the new edge a → point
+				}
+			}
+		}
+		i++;
+	}
+
+	return hull;
+}
+
+/**
+ * Shoelace area of a ring in local km
+ */
+export function polygonAreaKm2(ring: XY[]): number {
+	let twiceArea = 0;
+	for (let i = 0; i < ring.length; i++) {
+		const [x1, y1] = ring[i];
+		const [x2, y2] = ring[(i + 1) % ring.length];
+		twiceArea += x1 * y2 - x2 * y1;
+	}
+	return Math.abs(twiceArea) / 2;
+}
+
+// Pixel corners: scan is the cross-track (≈ east-west) size, track the along-track (≈ north-south) size, in km
+function footprint(hotspot: FireHotspot, project: (lat: number, lng: number) => XY): XY[] {
+	const [x, y] = project(hotspot.latitude, hotspot.longitude);
+	const halfScan = (hotspot.scan > 0 ? hotspot.scan : 0.375) / 2;
+	const halfTrack = (hotspot.track > 0 ? hotspot.track : 0.375) / 2;
+	return [
+		[x - halfScan, y - halfTrack],
+		[x + halfScan, y - halfTrack],
+		[x + halfScan, y + halfTrack],
+		[x - halfScan, y + halfTrack],
+	];
+}
+
+// Connected components of detections within joinKm of each other (grid buckets keep it near-linear)
+function burnAreas(centres: XY[], joinKm: number): number[][] {
+	const parent = centres.map((_, index) => index);
+	const find = (index: number): number => {
+		while (parent[index] !== index) {
+			parent[index] = parent[parent[index]];
+			index = parent[index];
+		}
+		return index;
+	};
+
+	const cell = ([x, y]: XY) => [Math.floor(x / joinKm), Math.floor(y / joinKm)];
+	const grid = new Map<string, number[]>();
+	centres.forEach((centre, index) => {
+		const [cx, cy] = cell(centre);
+		for (let dx = -1; dx <= 1; dx++) {
+			for (let dy = -1; dy <= 1; dy++) {
+				for (const other of grid.get(`${cx + dx}:${cy + dy}`) ?? []) {
+					if (distance(centre, centres[other]) <= joinKm) parent[find(index)] = find(other);
+				}
+			}
+		}
+		const key = `${cx}:${cy}`;
+		const bucket = grid.get(key);
+		if (bucket) bucket.push(index);
+		else grid.set(key, [index]);
+	});
+
+	const components = new Map<number, number[]>();
+	centres.forEach((_, index) => {
+		const root = find(index);
+		const members = components.get(root);
+		if (members) members.push(index);
+		else components.set(root, [index]);
+	});
+	return [...components.values()];
+}
+
+// Andrew's monotone chain, counter-clockwise, without the closing point
+function convexHull(points: XY[]): XY[] {
+	const sorted = [...points].sort((p, q) => p[0] - q[0] || p[1] - q[1]);
+	if (sorted.length < 3) return sorted;
+
+	const cross = (o: XY, a: XY, b: XY) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+	const half = (list: XY[]) => {
+		const chain: XY[] = [];
+		for (const point of list) {
+			while (chain.length >= 2 && cross(chain[chain.length - 2], chain[chain.length - 1], point) <= 0) chain.pop();
+			chain.push(point);
+		}
+		chain.pop();
+		return chain;
+	};
+
+	return [...half(sorted), ...half([...sorted].reverse())];
+}
+
+// Distance from p to segment ab, or null when p does not project onto the segment
+function segmentDistance(p: XY, a: XY, b: XY): number | null {
+	const dx = b[0] - a[0];
+	const dy = b[1] - a[1];
+	const t = ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / (dx * dx + dy * dy);
+	if (!(t > 0 && t < 1)) return null;
+	return distance(p, [a[0] + t * dx, a[1] + t * dy]);
+}
+
+// Whether replacing hull edge i with i → point → i+1 would properly cross another hull edge
+function crossesHull(hull: XY[], i: number, point: XY): boolean {
+	const a = hull[i];
+	const b = hull[(i + 1) % hull.length];
+
+	for (let j = 0; j < hull.length; j++) {
+		if (j === i) continue;
+		const c = hull[j];
+		const d = hull[(j + 1) % hull.length];
+		if (segmentsCross(a, point, c, d) || segmentsCross(point, b, c, d)) return true;
+	}
+	return false;
+}
+
+function segmentsCross(p1: XY, p2: XY, p3: XY, p4: XY): boolean {
+	const orient = (a: XY, b: XY, c: XY) => Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]));
+	return orient(p1, p2, p3) * orient(p1, p2, p4) < 0 && orient(p3, p4, p1) * orient(p3, p4, p2) < 0;
+}
+
+// Merge corners on a grid, doubling the cell until at most maxPoints remain
+function thin(points: XY[], gridKm: number, maxPoints: number): XY[] {
+	let thinned = dedupe(points, gridKm);
+	for (let cell = gridKm * 2; thinned.length > maxPoints; cell *= 2) {
+		thinned = dedupe(points, cell);
+	}
+	return thinned;
+}
+
+function dedupe(points: XY[], gridKm: number): XY[] {
+	const seen = new Map<string, XY>();
+	for (const point of points) {
+		const key = `${Math.round(point[0] / gridKm)}:${Math.round(point[1] / gridKm)}`;
+		if (!seen.has(key)) seen.set(key, point);
+	}
+	return [...seen.values()];
+}
+
+function distance(a: XY, b: XY): number {
+	return Math.hypot(a[0] - b[0], a[1] - b[1]);
+}
+
+function round(value: number, decimals: number): number {
+	const factor = 10 ** decimals;
+	return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,82 @@
+/**
+ * Cron pre-warming
+ * Keeps the disasters, TLE and busiest FIRMS caches warm so the first map load during
+ * an incident is served from KV instead of waiting on EONET, USGS and CelesTrak in sequence.
+ * Each run also records the disaster snapshot behind /api/changes and archives it for /api/disasters/history
+ * (single writer, fixed cadence). Snapshots identical to the stored ones are not written again
+ *
+ * Runs without waitUntil, so expired entries are refreshed inline; fresh ones are left alone.
+ * The cadence follows the shortest disaster cache TTL (EONET, 10 minutes) to keep KV writes down
+ */
+
+import { recordSnapshot } from './changes';
+import { archiveSnapshot } from './history';
+import { cachedFireDetections, DEFAULT_FIRMS_SOURCES, FIRMS_AREA, hasFirmsKey } from './firms';
+import { DEFAULT_DISASTER_QUERY, enabledSources, runSources } from './sources';
+import { cachedTles } from './tles';
+import type { Bindings, Disaster } from './types';
+
+/** Most severe fires whose /api/fire-hotspots responses are kept warm */
+const FIRMS_PREWARM_COUNT = 15;
+
+export async function prewarmCaches(env: Bindings): Promise<void> {
+	const started = Date.now();
+
+	const { disasters, results } = await runSources(enabledSources(env.DISASTER_SOURCES), { env, query: DEFAULT_DISASTER_QUERY });
+	console.log(`⏰ Pre-warmed disasters: ${results.map((r) => `${r.source.id}=${r.status}`).join(', ')}`);
+
+	// A failed source would make all of its events look closed, so skip the diff until it recovers
+	if (results.some((r) => r.status === 'failed')) {
+		console.warn('⏰ Skipping change snapshot: at least one source failed');
+	} else {
+		try {
+			const changes = await recordSnapshot(env.AEGIS_CACHE, disasters);
+			console.log(`⏰ Recorded disaster snapshot: ${changes.length} changes`);
+		} catch (error) {
+			console.error('⏰ Change snapshot failed:', error);
+		}
+	}
+
+	// Partial snapshots are still worth keeping: the archive only ever adds sightings
+	try {
+		const written = await archiveSnapshot(env.AEGIS_CACHE, disasters);
+		console.log(written ? `⏰ Archived ${disasters.length} disasters` : '⏰ Snapshot unchanged, history bucket left as is');
+	} catch (error) {
+		console.error('⏰ History archive failed:', error);
+	}
+
+	const [tles, firms] = await Promise.allSettled([
+		cachedTles(env.AEGIS_CACHE),
+		prewarmFireHotspots(env, disasters),
+	]);
+
+	if (tles.status === 'rejected') console.error('⏰ TLE pre-warm failed:', tles.reason);
+	if (firms.status === 'rejected') console.error('⏰ FIRMS pre-warm failed:', firms.reason);
+
+	console.log(`⏰ Cache pre-warm finished in ${Date.now() - started}ms`);
+}
+
+async function prewarmFireHotspots(env: Bindings, disasters: Disaster[]): Promise<void> {
+	if (!hasFirmsKey(env.FIRMS_MAP_KEY)) return;
+	const mapKey = env.FIRMS_MAP_KEY;
+
+	const fires = disasters
+		.filter((d) => d.type === 'fire')
+		.sort((a, b) => (b.severityScore ?? 0) - (a.severityScore ?? 0))
+		.slice(0, FIRMS_PREWARM_COUNT);
+
+	await Promise.all(
+		fires.map((fire) =>
+			// The default sidebar request: 55 km, 7 days, every VIIRS satellite
+			cachedFireDetections(env.AEGIS_CACHE, mapKey, {
+				lat: fire.lat,
+				lng: fire.lng,
+				radiusKm: FIRMS_AREA.defaultRadiusKm,
+				days: FIRMS_AREA.defaultDays,
+				sources: DEFAULT_FIRMS_SOURCES,
+			}).catch((error) => console.warn(`⏰ FIRMS pre-warm failed for ${fire.id}:`, error))
+		)
+	);
+
+	console.log(`⏰ Pre-warmed FIRMS hotspots for ${fires.length} fires`);
+}
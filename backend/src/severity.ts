@@ -0,0 +1,203 @@
+/**
+ * Severity Engine
+ * Scores each disaster 0-100 from type-specific signals and explains the score
+ *
+ * Signals:
+ * - EONET magnitudeValue/magnitudeUnit (burned acres, storm wind speed in kts)
+ * - FIRMS hotspot density and Fire Radiative Power near the event
+ * - USGS earthquake magnitude
+ * - How recently the event was last observed
+ */
+
+import type { FireHotspot } from './firms';
+import type { Disaster } from './types';
+
+export type Severity = 'low' | 'medium' | 'high';
+
+export type HotspotSummary = {
+	count: number;
+	highConfidence: number;
+	maxFrp: number; // MW
+	totalFrp: number; // MW
+};
+
+export type SeverityInput = {
+	type: string;
+	date: string; // Latest observation (ISO)
+	magnitude?: number; // USGS earthquake magnitude
+	magnitudeValue?: number; // EONET magnitude
+	magnitudeUnit?: string; // EONET unit, e.g. 'acres', 'kts'
+	hotspots?: HotspotSummary; // FIRMS detections near the event (undefined = not looked up)
+};
+
+export type SeverityResult = {
+	severity: Severity;
+	score: number;
+	reasons: string[];
+};
+
+/** Score at or above which an event is 'high' / 'medium' */
+export const SEVERITY_THRESHOLDS = { high: 60, medium: 30 } as const;
+
+/** Severities from least to most severe, for minSeverity filters */
+export const SEVERITY_LEVELS: Severity[] = ['low', 'medium', 'high'];
+
+/** Baseline score for EONET categories without magnitude data */
+const BASE_SCORES: Record<string, number> = {
+	fire: 20,
+	volcano: 25,
+	storm: 25,
+	flood: 30,
+	landslide: 30,
+	drought: 25,
+	dust: 15,
+	ice: 10,
+	snow: 15,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Summarize FIRMS detections for severity scoring
+ */
+export function summarizeHotspots(hotspots: FireHotspot[]): HotspotSummary {
+	const valid = hotspots.filter((h) => !isNaN(h.frp));
+	return {
+		count: hotspots.length,
+		highConfidence: hotspots.filter((h) => h.confidence === 'h' || h.confidence === 'high').length,
+		maxFrp: valid.reduce((max, h) => Math.max(max, h.frp), 0),
+		totalFrp: valid.reduce((sum, h) => sum + h.frp, 0),
+	};
+}
+
+/**
+ * Score a disaster and map the score onto low/medium/high
+ */
+export function scoreSeverity(input: SeverityInput, now: Date = new Date()): SeverityResult {
+	const reasons: string[] = [];
+	let score: number;
+
+	if (input.type === 'earthquake') {
+		score = scoreEarthquake(input.magnitude, reasons);
+	} else {
+		score = BASE_SCORES[input.type] ?? 20;
+		score += scoreEonetMagnitude(input, reasons);
+		if (input.type === 'fire' || input.type === 'volcano') {
+			score += scoreHotspots(input.hotspots, reasons);
+		}
+		score += scoreRecency(input.date, now, reasons);
+	}
+
+	score = Math.round(Math.min(100, Math.max(0, score)));
+
+	return { severity: severityForScore(score), score, reasons };
+}
+
+/**
+ * Run the severity engine and store the result on the disaster (mutates and returns it)
+ */
+export function applySeverity(disaster: Disaster, hotspots?: HotspotSummary, now?: Date): Disaster {
+	const { severity, score, reasons } = scoreSeverity({ ...disaster, hotspots }, now);
+	disaster.severity = severity;
+	disaster.severityScore = score;
+	disaster.severityReasons = reasons;
+	return disaster;
+}
+
+/**
+ * Map a 0-100 score onto low/medium/high
+ */
+export function severityForScore(score: number): Severity {
+	return score >= SEVERITY_THRESHOLDS.high ? 'high' : score >= SEVERITY_THRESHOLDS.medium ? 'medium' : 'low';
+}
+
+/**
+ * Whether a severity is at or above a minimum
+ */
+export function meetsSeverity(severity: Severity, minSeverity: Severity): boolean {
+	return SEVERITY_LEVELS.indexOf(severity) >= SEVERITY_LEVELS.indexOf(minSeverity);
+}
+
+// Earthquakes keep the USGS magnitude bands: M6+ high, M4.5+ medium
+function scoreEarthquake(magnitude: number | undefined, reasons: string[]): number {
+	if (typeof magnitude !== 'number' || isNaN(magnitude)) {
+		reasons.push('Magnitude unknown');
+		return 0;
+	}
+
+	reasons.push(`Magnitude M${magnitude.toFixed(1)}`);
+	if (magnitude >= 6) return 60 + (magnitude - 6) * 20;
+	if (magnitude >= 4.5) return 30 + (magnitude - 4.5) * 19;
+	return Math.max(0, (magnitude / 4.5) * 29); // Below M4.5 stays under the medium threshold
+}
+
+function scoreEonetMagnitude({ type, magnitudeValue, magnitudeUnit }: SeverityInput, reasons: string[]): number {
+	if (typeof magnitudeValue !== 'number' || isNaN(magnitudeValue)) return 0;
+
+	const unit = (magnitudeUnit ?? '').toLowerCase();
+
+	if (unit === 'acres') {
+		reasons.push(`${Math.round(magnitudeValue).toLocaleString('en-US')} acres burned`);
+		if (magnitudeValue >= 100000) return 45;
+		if (magnitudeValue >= 10000) return 30;
+		if (magnitudeValue >= 1000) return 15;
+		return 5;
+	}
+
+	if (unit === 'kts') {
+		// Saffir-Simpson: 34 kts tropical storm, 64 kts Cat 1, 96 kts Cat 3 (major)
+		reasons.push(`Sustained winds ${Math.round(magnitudeValue)} kts`);
+		if (magnitudeValue >= 96) return 55;
+		if (magnitudeValue >= 64) return 40;
+		if (magnitudeValue >= 34) return 20;
+		return 0;
+	}
+
+	reasons.push(`EONET magnitude ${magnitudeValue} ${magnitudeUnit ?? ''}`.trim() + ` (${type})`);
+	return 0;
+}
+
+function scoreHotspots(hotspots: HotspotSummary | undefined, reasons: string[]): number {
+	if (!hotspots) return 0;
+
+	if (hotspots.count === 0) {
+		reasons.push('No FIRMS hotspots detected nearby');
+		return -10;
+	}
+
+	let score = 0;
+	reasons.push(`${hotspots.count} FIRMS hotspots nearby (${hotspots.highConfidence} high confidence)`);
+	if (hotspots.count >= 50) score += 25;
+	else if (hotspots.count >= 10) score += 15;
+	else score += 5;
+
+	if (hotspots.maxFrp >= 500) {
+		reasons.push(`Peak FRP ${hotspots.maxFrp.toFixed(0)} MW`);
+		score += 20;
+	} else if (hotspots.maxFrp >= 100) {
+		reasons.push(`Peak FRP ${hotspots.maxFrp.toFixed(0)} MW`);
+		score += 10;
+	}
+
+	return score;
+}
+
+function scoreRecency(date: string, now: Date, reasons: string[]): number {
+	const observed = new Date(date).getTime();
+	if (isNaN(observed)) return 0;
+
+	const ageHours = (now.getTime() - observed) / HOUR_MS;
+	if (ageHours <= 24) {
+		reasons.push('Observed in the last 24 hours');
+		return 10;
+	}
+	if (ageHours <= 72) {
+		reasons.push('Observed in the last 3 days');
+		return 5;
+	}
+	if (ageHours > 30 * 24) {
+		reasons.push(`No new observation for ${Math.floor(ageHours / 24)} days`);
+		return -15;
+	}
+	return 0;
+}
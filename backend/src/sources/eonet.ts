@@ -0,0 +1,180 @@
+/**
+ * NASA EONET v3 source
+ * All open natural events; earthquakes are left to USGS, the authoritative source
+ * https://eonet.gsfc.nasa.gov/docs/v3
+ */
+
+import { cachedFireDetections, DEFAULT_FIRMS_SOURCES, FIRMS_AREA, hasFirmsKey, hotspotsInArea, recentDateRange } from '../firms';
+import { applySeverity, summarizeHotspots, type HotspotSummary } from '../severity';
+import type { Disaster, DisasterType, TrackPoint } from '../types';
+import { probeUrl } from './probe';
+import type { DisasterSource, SourceEnv } from './types';
+
+const EONET_EVENTS_URL = 'https://eonet.gsfc.nasa.gov/api/v3/events';
+
+/**
+ * EONET v3 category IDs mapped to AegisMap disaster types
+ * Categories not listed here (manmade, waterColor, tempExtremes, earthquakes) are ignored
+ */
+export const EONET_CATEGORY_TYPES: Record<string, DisasterType> = {
+	wildfires: 'fire',
+	volcanoes: 'volcano',
+	severeStorms: 'storm',
+	floods: 'flood',
+	landslides: 'landslide',
+	dustHaze: 'dust',
+	seaLakeIce: 'ice',
+	drought: 'drought',
+	snow: 'snow',
+};
+
+/**
+ * FIRMS lookups used for severity scoring
+ * They read the cached /api/fire-hotspots area of each event (the one the Sidebar loads and Cron pre-warms),
+ * so FIRMS is only called when that entry expires. Each expired area costs one FIRMS request per VIIRS source,
+ * on top of the Cron pre-warm, so only the newest few events are looked up per refresh
+ */
+const SEVERITY_FIRMS_CONFIG = {
+	maxLookups: 10,      // Newest fires/volcanoes get FIRMS context (×3 sources per expired area)
+	radiusKm: 28,        // Detections within ~28 km of the event
+	days: 2,             // Recent detections only
+} as const;
+
+export const eonetSource: DisasterSource<any> = {
+	id: 'eonet',
+	name: 'NASA EONET',
+	cacheTtl: 600, // 10 minutes
+
+	async fetch() {
+		const response = await fetch(`${EONET_EVENTS_URL}?status=open`);
+		if (!response.ok) throw new Error(`EONET returned ${response.status}`);
+		return response.json();
+	},
+
+	async normalize(data, { env, waitUntil }) {
+		const disasters: Disaster[] = (data.events as any[])
+			.map((event: any): Disaster | null => {
+				const categoryIds: string[] = event.categories.map((cat: any) => cat.id);
+				const categoryId = categoryIds.find((id) => id in EONET_CATEGORY_TYPES);
+				if (!categoryId) return null;
+				const type = EONET_CATEGORY_TYPES[categoryId];
+
+				// Keep the whole track; the latest point is the current position
+				const track = eonetGeometryToTrack(event.geometry);
+				if (track.length === 0) return null;
+				const latest = track[track.length - 1];
+				const latestMagnitude = [...track].reverse().find((point) => point.magnitudeValue != null);
+
+				return {
+					id: event.id,
+					type,
+					title: event.title,
+					lng: latest.lng,
+					lat: latest.lat,
+					date: latest.date,
+					severity: 'medium', // Scored below once FIRMS context is available
+					...(latestMagnitude
+						? { magnitudeValue: latestMagnitude.magnitudeValue, magnitudeUnit: latestMagnitude.magnitudeUnit }
+						: {}),
+					// Only moving/spreading events carry a track (keeps payload small)
+					...(track.length > 1 ? { track } : {}),
+				};
+			})
+			.filter((disaster): disaster is Disaster => disaster !== null);
+
+		// Score EONET events using FIRMS hotspots around the most recent fires/volcanoes
+		const hotspotSummaries = await lookupHotspotSummaries(env, disasters, waitUntil);
+		for (const disaster of disasters) {
+			applySeverity(disaster, hotspotSummaries.get(disaster.id));
+		}
+
+		console.log(`✅ Fetched ${disasters.length} EONET disasters`);
+		return disasters;
+	},
+
+	health: () => probeUrl(`${EONET_EVENTS_URL}?status=open&limit=1`),
+};
+
+/**
+ * Fetch a single EONET event (open or closed); null when EONET has no such event
+ */
+export async function fetchEonetEvent(id: string): Promise<any | null> {
+	const response = await fetch(`${EONET_EVENTS_URL}/${encodeURIComponent(id)}`);
+	if (response.status === 404) return null;
+	if (!response.ok) throw new Error(`EONET event API error: ${response.status} ${response.statusText}`);
+	return response.json();
+}
+
+/**
+ * Convert EONET geometry entries into a time-ordered track
+ * Point geometries are used as-is; Polygon geometries are reduced to their ring centroid
+ */
+export function eonetGeometryToTrack(geometry: any[] | undefined): TrackPoint[] {
+	if (!Array.isArray(geometry)) return [];
+
+	const points: TrackPoint[] = [];
+	for (const geom of geometry) {
+		let lng: number | undefined;
+		let lat: number | undefined;
+
+		if (geom?.type === 'Point' && Array.isArray(geom.coordinates)) {
+			[lng, lat] = geom.coordinates;
+		} else if (geom?.type === 'Polygon' && Array.isArray(geom.coordinates?.[0])) {
+			const ring: number[][] = geom.coordinates[0];
+			lng = ring.reduce((sum, p) => sum + p[0], 0) / ring.length;
+			lat = ring.reduce((sum, p) => sum + p[1], 0) / ring.length;
+		}
+
+		if (typeof lat !== 'number' || typeof lng !== 'number' || isNaN(lat) || isNaN(lng) || !geom.date) continue;
+
+		points.push({
+			lat,
+			lng,
+			date: geom.date,
+			...(geom.magnitudeValue != null ? { magnitudeValue: geom.magnitudeValue, magnitudeUnit: geom.magnitudeUnit } : {}),
+		});
+	}
+
+	return points.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
+
+/**
+ * FIRMS hotspot summaries around the newest fire/volcano events, from the cached detections
+ * Returns an empty map when FIRMS is not configured; failed lookups are simply left out
+ */
+async function lookupHotspotSummaries(
+	env: SourceEnv,
+	disasters: Disaster[],
+	waitUntil?: (promise: Promise<unknown>) => void
+): Promise<Map<string, HotspotSummary>> {
+	const summaries = new Map<string, HotspotSummary>();
+	const mapKey = env.FIRMS_MAP_KEY;
+	if (!hasFirmsKey(mapKey)) return summaries;
+
+	const candidates = disasters
+		.filter((d) => d.type === 'fire' || d.type === 'volcano')
+		.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+		.slice(0, SEVERITY_FIRMS_CONFIG.maxLookups);
+
+	const { radiusKm, days } = SEVERITY_FIRMS_CONFIG;
+	const range = recentDateRange(days);
+
+	await Promise.all(
+		candidates.map(async (disaster) => {
+			try {
+				const detections = await cachedFireDetections(
+					env.AEGIS_CACHE,
+					mapKey,
+					{ lat: disaster.lat, lng: disaster.lng, radiusKm: FIRMS_AREA.defaultRadiusKm, days: FIRMS_AREA.defaultDays, sources: DEFAULT_FIRMS_SOURCES },
+					waitUntil
+				);
+				summaries.set(disaster.id, summarizeHotspots(hotspotsInArea(detections.value.hotspots, disaster.lat, disaster.lng, radiusKm, range)));
+			} catch (error) {
+				console.warn(`FIRMS severity lookup failed for ${disaster.id}:`, error);
+			}
+		})
+	);
+
+	console.log(`🔥 FIRMS severity context for ${summaries.size}/${candidates.length} fires/volcanoes`);
+	return summaries;
+}
@@ -0,0 +1,372 @@
+/**
+ * NASA FIRMS fire-cluster source
+ * Clusters global VIIRS detections (DBSCAN on distance and acquisition time) and folds each cluster
+ * into the nearest EONET/GDACS fire; clusters no feed reports yet become "unconfirmed fire" records,
+ * which surfaces new fires hours before EONET lists them
+ */
+
+import { acquireFirmsQuota, fetchFirmsArea, FIRMS_CACHE_TTL, hasFirmsKey, type FireHotspot } from '../firms';
+import type { FirmsCsv } from '../firms-csv';
+import { haversineKm } from '../geo';
+import { applySeverity, scoreSeverity, summarizeHotspots } from '../severity';
+import type { Disaster, FireClusterSummary } from '../types';
+import { probeUrl } from './probe';
+import type { DisasterSource } from './types';
+
+/**
+ * Clustering parameters
+ * VIIRS pixels are 375 m, so detections of one fire front sit well inside epsKm;
+ * isolated pixels (gas flares, hot roofs) never reach minPoints and are dropped as noise
+ */
+export const FIRE_CLUSTER_CONFIG = {
+	product: 'VIIRS_SNPP_NRT',
+	days: 1, // Global download; one day keeps the CSV manageable
+	epsKm: 3, // Neighbour distance
+	maxGapHours: 12, // Neighbours must also be this close in acquisition time
+	minPoints: 3, // Detections (including itself) a core point needs within eps
+	matchDistanceKm: 50, // Cluster centroid to an existing fire event
+	idMatchKm: 10, // A cluster keeps the id of a known cluster this close to its centroid
+	idRetentionDays: 3, // Known clusters not seen for this long are forgotten
+} as const;
+
+export type FireCluster = {
+	hotspots: FireHotspot[];
+	lat: number; // Centroid
+	lng: number;
+	firstDetected: string; // ISO
+	lastDetected: string; // ISO
+};
+
+/**
+ * Unconfirmed-fire ids already handed out, with each cluster's last centroid and sighting
+ * Kept in KV because the one-day download drops a fire's earliest detections every day
+ */
+export type ClusterRegistry = Record<string, { lat: number; lng: number; lastSeen: string }>;
+
+const CLUSTER_REGISTRY_KEY = 'firms-clusters';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const KM_PER_DEGREE = 111.32;
+
+/**
+ * Acquisition time of a detection (acq_date is the UTC day, acq_time HHMM)
+ */
+export function hotspotTime(hotspot: FireHotspot): number {
+	const hhmm = String(hotspot.acq_time ?? '').padStart(4, '0');
+	return new Date(`${hotspot.acq_date}T${hhmm.slice(0, 2)}:${hhmm.slice(2, 4)}:00Z`).getTime();
+}
+
+/**
+ * DBSCAN over distance and time
+ * Neighbours are within epsKm and maxGapHours of each other; points are bucketed on an eps-sized grid
+ * so only adjacent cells are compared (a global day of detections is tens of thousands of rows)
+ */
+export function clusterHotspots(hotspots: FireHotspot[], config: Pick<typeof FIRE_CLUSTER_CONFIG, 'epsKm' | 'maxGapHours' | 'minPoints'> = FIRE_CLUSTER_CONFIG): FireCluster[] {
+	const points = hotspots
+		.map((hotspot) => ({ hotspot, time: hotspotTime(hotspot) }))
+		.filter(({ hotspot, time }) => !isNaN(hotspot.latitude) && !isNaN(hotspot.longitude) && !isNaN(time));
+
+	const cellDeg = config.epsKm / KM_PER_DEGREE;
+	const maxGapMs = config.maxGapHours * HOUR_MS;
+	const cellKey = (row: number, col: number) => `${row}:${col}`;
+
+	const grid = new Map<string, number[]>();
+	points.forEach(({ hotspot }, index) => {
+		const key = cellKey(Math.floor(hotspot.latitude / cellDeg), Math.floor(hotspot.longitude / cellDeg));
+		const cell = grid.get(key);
+		if (cell) cell.push(index);
+		else grid.set(key, [index]);
+	});
+
+	const neighbours = (index: number): number[] => {
+		const { hotspot, time } = points[index];
+		const row = Math.floor(hotspot.latitude / cellDeg);
+		const col = Math.floor(hotspot.longitude / cellDeg);
+		// Longitude cells shrink towards the poles, so widen the column search
+		const span = Math.ceil(1 / Math.max(0.05, Math.cos((hotspot.latitude * Math.PI) / 180)));
+		const found: number[] = [];
+
+		for (let r = row - 1; r <= row + 1; r++) {
+			for (let c = col - span; c <= col + span; c++) {
+				for (const other of grid.get(cellKey(r, c)) ?? []) {
+					const candidate = points[other];
+					if (Math.abs(candidate.time - time) > maxGapMs) continue;
+					if (haversineKm(hotspot.latitude, hotspot.longitude, candidate.hotspot.latitude, candidate.hotspot.longitude) <= config.epsKm) {
+						found.push(other);
+					}
+				}
+			}
+		}
+		return found;
+	};
+
+	const UNVISITED = -2;
+	const NOISE = -1;
+	const labels = new Array<number>(points.length).fill(UNVISITED);
+	const clusters: number[][] = [];
+
+	for (let index = 0; index < points.length; index++) {
+		if (labels[index] !== UNVISITED) continue;
+
+		const seeds = neighbours(index);
+		if (seeds.length < config.minPoints) {
+			labels[index] = NOISE;
+			continue;
+		}
+
+		const clusterId = clusters.length;
+		const members = [index];
+		labels[index] = clusterId;
+		clusters.push(members);
+
+		const queue = [...seeds];
+		while (queue.length > 0) {
+			const point = queue.pop()!;
+			if (labels[point] === NOISE) {
+				// Border point: joins the cluster but does not expand it
+				labels[point] = clusterId;
+				members.push(point);
+				continue;
+			}
+			if (labels[point] !== UNVISITED) continue;
+
+			labels[point] = clusterId;
+			members.push(point);
+			const reachable = neighbours(point);
+			if (reachable.length >= config.minPoints) queue.push(...reachable);
+		}
+	}
+
+	return clusters.map((members) => {
+		const clustered = members.map((index) => points[index]);
+		const times = clustered.map(({ time }) => time);
+		return {
+			hotspots: clustered.map(({ hotspot }) => hotspot),
+			lat: clustered.reduce((sum, { hotspot }) => sum + hotspot.latitude, 0) / clustered.length,
+			lng: clustered.reduce((sum, { hotspot }) => sum + hotspot.longitude, 0) / clustered.length,
+			firstDetected: new Date(times.reduce((min, time) => Math.min(min, time))).toISOString(),
+			lastDetected: new Date(times.reduce((max, time) => Math.max(max, time))).toISOString(),
+		};
+	});
+}
+
+/**
+ * Give every cluster a stable id
+ * A cluster within idMatchKm of a known one keeps that id (largest clusters claim first); any other gets
+ * FIRMS_<lat>_<lng>_<yyyymmdd>: its centroid snapped to 0.1° and the day it was first detected.
+ * Returns the ids, in cluster order, and the registry to store for the next refresh
+ */
+export function assignClusterIds(
+	clusters: FireCluster[],
+	registry: ClusterRegistry,
+	now: Date = new Date()
+): { ids: string[]; registry: ClusterRegistry } {
+	const { idMatchKm, idRetentionDays } = FIRE_CLUSTER_CONFIG;
+	const cellDeg = idMatchKm / KM_PER_DEGREE;
+	const cellKey = (row: number, col: number) => `${row}:${col}`;
+
+	const grid = new Map<string, string[]>();
+	for (const [id, known] of Object.entries(registry)) {
+		const key = cellKey(Math.floor(known.lat / cellDeg), Math.floor(known.lng / cellDeg));
+		const cell = grid.get(key);
+		if (cell) cell.push(id);
+		else grid.set(key, [id]);
+	}
+
+	const nearestKnown = (cluster: FireCluster, claimed: Set<string>): string | undefined => {
+		const row = Math.floor(cluster.lat / cellDeg);
+		const col = Math.floor(cluster.lng / cellDeg);
+		const span = Math.ceil(1 / Math.max(0.05, Math.cos((cluster.lat * Math.PI) / 180)));
+		let nearest: string | undefined;
+		let nearestKm: number = idMatchKm;
+
+		for (let r = row - 1; r <= row + 1; r++) {
+			for (let c = col - span; c <= col + span; c++) {
+				for (const id of grid.get(cellKey(r, c)) ?? []) {
+					if (claimed.has(id)) continue;
+					const distance = haversineKm(cluster.lat, cluster.lng, registry[id].lat, registry[id].lng);
+					if (distance <= nearestKm) {
+						nearest = id;
+						nearestKm = distance;
+					}
+				}
+			}
+		}
+		return nearest;
+	};
+
+	const ids = new Array<string>(clusters.length);
+	const claimed = new Set<string>();
+	const bySize = clusters.map((_, index) => index).sort((a, b) => clusters[b].hotspots.length - clusters[a].hotspots.length);
+
+	for (const index of bySize) {
+		const cluster = clusters[index];
+		let id = nearestKnown(cluster, claimed);
+
+		if (!id) {
+			const base = `FIRMS_${cluster.lat.toFixed(1)}_${cluster.lng.toFixed(1)}_${cluster.firstDetected.slice(0, 10).replace(/-/g, '')}`;
+			id = base;
+			for (let n = 2; claimed.has(id) || id in registry; n++) id = `${base}_${n}`;
+		}
+
+		ids[index] = id;
+		claimed.add(id);
+	}
+
+	const lastSeen = now.toISOString();
+	const cutoff = now.getTime() - idRetentionDays * DAY_MS;
+	const next: ClusterRegistry = {};
+	for (const [id, known] of Object.entries(registry)) {
+		if (new Date(known.lastSeen).getTime() >= cutoff) next[id] = known;
+	}
+	clusters.forEach((cluster, index) => {
+		next[ids[index]] = { lat: round(cluster.lat, 4), lng: round(cluster.lng, 4), lastSeen };
+	});
+
+	return { ids, registry: next };
+}
+
+/**
+ * Turn a cluster into an unconfirmed fire record, scored from its detections
+ */
+export function clusterToDisaster(cluster: FireCluster, id: string, now?: Date): Disaster {
+	const summary = summarizeCluster(cluster);
+
+	const disaster: Disaster = {
+		id,
+		type: 'fire',
+		title: `Unconfirmed fire (${summary.count} FIRMS detections)`,
+		lat: round(cluster.lat, 4),
+		lng: round(cluster.lng, 4),
+		date: cluster.lastDetected,
+		severity: 'low',
+		unconfirmed: true,
+		fireCluster: summary,
+	};
+
+	applySeverity(disaster, summary, now);
+	disaster.severityReasons = [...(disaster.severityReasons ?? []), 'Unconfirmed: FIRMS detections only, not yet listed by EONET'];
+	return disaster;
+}
+
+export const firmsSource: DisasterSource<FirmsCsv | null> = {
+	id: 'firms',
+	name: 'NASA FIRMS fire clusters',
+	cacheTtl: FIRMS_CACHE_TTL,
+
+	async fetch({ env }) {
+		// Without a map key the source contributes nothing rather than failing every refresh
+		if (!hasFirmsKey(env.FIRMS_MAP_KEY)) return null;
+
+		// Same quota and 429 handling as /api/fire-hotspots; an error body throws, so the last-known-good clusters are served
+		const { product, days } = FIRE_CLUSTER_CONFIG;
+		await acquireFirmsQuota(env.AEGIS_CACHE);
+		return fetchFirmsArea(env.AEGIS_CACHE, env.FIRMS_MAP_KEY, product, [-180, -90, 180, 90], days);
+	},
+
+	async normalize(csv, { env }) {
+		if (csv === null) {
+			console.warn('⚠️ FIRMS_MAP_KEY not configured; skipping fire clusters');
+			return [];
+		}
+
+		const { hotspots: detections, skipped } = csv;
+		if (skipped.length > 0) {
+			console.warn(`⚠️ FIRMS: skipped ${skipped.length} malformed row(s), first at line ${skipped[0].line}: ${skipped[0].reason}`);
+		}
+
+		// Low-confidence pixels are mostly sun glint and hot surfaces
+		const hotspots = detections.filter((hotspot) => hotspot.confidence !== 'l');
+		const clusters = clusterHotspots(hotspots);
+		console.log(`🔥 FIRMS: ${clusters.length} fire clusters from ${hotspots.length} detections`);
+
+		const kv = env.AEGIS_CACHE;
+		const known = (await kv?.get<ClusterRegistry>(CLUSTER_REGISTRY_KEY, 'json')) ?? {};
+		const { ids, registry } = assignClusterIds(clusters, known);
+		await kv?.put(CLUSTER_REGISTRY_KEY, JSON.stringify(registry));
+
+		return clusters.map((cluster, index) => clusterToDisaster(cluster, ids[index]));
+	},
+
+	health({ env }) {
+		if (!hasFirmsKey(env.FIRMS_MAP_KEY)) {
+			return Promise.resolve({ ok: false, latencyMs: 0, checkedAt: new Date().toISOString(), error: 'FIRMS_MAP_KEY not configured' });
+		}
+		return probeUrl(`https://firms.modaps.eosdis.nasa.gov/api/data_availability/csv/${env.FIRMS_MAP_KEY}/VIIRS_SNPP_NRT`);
+	},
+
+	merge: (disasters, own) => mergeFireClusters(disasters, own),
+};
+
+/**
+ * Fold FIRMS clusters into confirmed fires
+ * A cluster within matchDistanceKm of a fire event adds its detections to that event's fireCluster summary
+ * and the fire is re-scored from them (raising its severity only, like GDACS alert levels);
+ * clusters with no fire nearby are added as unconfirmed fires
+ */
+export function mergeFireClusters(disasters: Disaster[], clusters: Disaster[], now?: Date): Disaster[] {
+	const fires = disasters.filter((disaster) => disaster.type === 'fire' && !disaster.unconfirmed);
+	const merged = [...disasters];
+	const matched = new Set<Disaster>();
+
+	for (const cluster of clusters) {
+		let match: Disaster | undefined;
+		let matchDistance = Infinity;
+		for (const fire of fires) {
+			const distance = haversineKm(fire.lat, fire.lng, cluster.lat, cluster.lng);
+			if (distance <= FIRE_CLUSTER_CONFIG.matchDistanceKm && distance < matchDistance) {
+				match = fire;
+				matchDistance = distance;
+			}
+		}
+
+		if (!match) {
+			merged.push(cluster);
+			continue;
+		}
+
+		match.fireCluster = combineSummaries(match.fireCluster, cluster.fireCluster!);
+		matched.add(match);
+	}
+
+	// The EONET score may come from a closer FIRMS lookup, so the clusters can only raise it;
+	// GDACS merges before FIRMS, so its alert-level reason is carried over
+	for (const fire of matched) {
+		const { severity, score, reasons } = scoreSeverity({ ...fire, hotspots: fire.fireCluster }, now);
+		if (score > (fire.severityScore ?? 0)) {
+			fire.severity = severity;
+			fire.severityScore = score;
+			fire.severityReasons = [...reasons, ...(fire.severityReasons ?? []).filter((reason) => reason.startsWith('GDACS '))];
+		}
+	}
+
+	return merged;
+}
+
+function summarizeCluster(cluster: FireCluster): FireClusterSummary {
+	return {
+		...summarizeHotspots(cluster.hotspots),
+		clusters: 1,
+		firstDetected: cluster.firstDetected,
+		lastDetected: cluster.lastDetected,
+	};
+}
+
+function combineSummaries(current: FireClusterSummary | undefined, added: FireClusterSummary): FireClusterSummary {
+	if (!current) return { ...added };
+	return {
+		count: current.count + added.count,
+		highConfidence: current.highConfidence + added.highConfidence,
+		maxFrp: Math.max(current.maxFrp, added.maxFrp),
+		totalFrp: current.totalFrp + added.totalFrp,
+		clusters: current.clusters + added.clusters,
+		firstDetected: current.firstDetected < added.firstDetected ? current.firstDetected : added.firstDetected,
+		lastDetected: current.lastDetected > added.lastDetected ? current.lastDetected : added.lastDetected,
+	};
+}
+
+function round(value: number, decimals: number): number {
+	const factor = 10 ** decimals;
+	return Math.round(value * factor) / factor;
+}
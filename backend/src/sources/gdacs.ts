@@ -0,0 +1,282 @@
+/**
+ * GDACS (Global Disaster Alert and Coordination System)
+ * Parses the GDACS GeoJSON event list and RSS feed into Disaster records
+ * and merges them with EONET/USGS results
+ *
+ * GDACS alert levels map onto severity: Green → low, Orange → medium, Red → high
+ */
+
+import { haversineKm } from '../geo';
+import { severityForScore, type Severity } from '../severity';
+import type { AlertLevel, Disaster, DisasterType } from '../types';
+import { probeUrl } from './probe';
+import type { DisasterSource } from './types';
+
+export const GDACS_FEEDS = {
+	geojson: 'https://www.gdacs.org/gdacsapi/api/events/geteventlist/MAP',
+	rss: 'https://www.gdacs.org/xml/rss.xml',
+} as const;
+
+/** GDACS event type codes we can show on the map (TS = tsunami has no matching layer) */
+const GDACS_EVENT_TYPES: Record<string, DisasterType> = {
+	EQ: 'earthquake',
+	TC: 'storm',
+	FL: 'flood',
+	VO: 'volcano',
+	WF: 'fire',
+	DR: 'drought',
+};
+
+/** Severity score implied by each alert level (Green stays low, Red always high) */
+const ALERT_SCORES: Record<AlertLevel, number> = {
+	green: 15,
+	orange: 45,
+	red: 80,
+};
+
+/**
+ * Duplicate matching windows per type
+ * Cyclones move hundreds of km a day and droughts/floods are reported for regions,
+ * so they get looser windows than point events like earthquakes
+ */
+const DEDUP_WINDOWS: Record<DisasterType, { distanceKm: number; hours: number }> = {
+	earthquake: { distanceKm: 100, hours: 2 },
+	volcano: { distanceKm: 50, hours: 14 * 24 },
+	fire: { distanceKm: 50, hours: 7 * 24 },
+	storm: { distanceKm: 500, hours: 72 },
+	flood: { distanceKm: 300, hours: 14 * 24 },
+	drought: { distanceKm: 1000, hours: 90 * 24 },
+	landslide: { distanceKm: 50, hours: 72 },
+	dust: { distanceKm: 300, hours: 72 },
+	ice: { distanceKm: 300, hours: 7 * 24 },
+	snow: { distanceKm: 300, hours: 72 },
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2 };
+
+type GdacsEventFields = {
+	eventType: string;
+	eventId: string;
+	title: string;
+	lat: number;
+	lng: number;
+	fromDate: string;
+	toDate?: string;
+	alertLevel: string;
+	severityText?: string;
+	url?: string;
+};
+
+/**
+ * Parse the GDACS GeoJSON event list (geteventlist/MAP)
+ * Only Point features are used; the feed also carries affected-area polygons for the same events
+ */
+export function parseGdacsGeoJson(data: any): Disaster[] {
+	const features: any[] = Array.isArray(data?.features) ? data.features : [];
+
+	return features
+		.filter((feature) => feature?.geometry?.type === 'Point')
+		.map((feature) => {
+			const props = feature.properties ?? {};
+			const [lng, lat] = feature.geometry.coordinates ?? [];
+			return toDisaster({
+				eventType: props.eventtype,
+				eventId: String(props.eventid ?? ''),
+				title: props.name || props.description || props.eventname,
+				lat,
+				lng,
+				fromDate: props.fromdate,
+				toDate: props.todate,
+				alertLevel: props.alertlevel,
+				severityText: props.severitydata?.severitytext,
+				url: props.url?.report,
+			});
+		})
+		.filter((disaster): disaster is Disaster => disaster !== null)
+		.filter(uniqueById());
+}
+
+/**
+ * Parse the GDACS RSS feed (rss.xml)
+ * Workers have no DOMParser, so items are read with tag-level regexes
+ */
+export function parseGdacsRss(xml: string): Disaster[] {
+	const items = xml.match(/<item\b[^>]*>[\s\S]*?<\/item>/g) ?? [];
+
+	return items
+		.map((item) =>
+			toDisaster({
+				eventType: readTag(item, 'gdacs:eventtype') ?? '',
+				eventId: readTag(item, 'gdacs:eventid') ?? '',
+				title: readTag(item, 'title') ?? '',
+				lat: parseFloat(readTag(item, 'geo:lat') ?? ''),
+				lng: parseFloat(readTag(item, 'geo:long') ?? ''),
+				fromDate: readTag(item, 'gdacs:fromdate') ?? readTag(item, 'pubDate') ?? '',
+				toDate: readTag(item, 'gdacs:todate'),
+				alertLevel: readTag(item, 'gdacs:alertlevel') ?? '',
+				severityText: readTag(item, 'gdacs:severity'),
+				url: readTag(item, 'link'),
+			})
+		)
+		.filter((disaster): disaster is Disaster => disaster !== null)
+		.filter(uniqueById());
+}
+
+/**
+ * GDACS source: prefers the GeoJSON event list and falls back to the RSS feed
+ * Records are folded into EONET/USGS results by mergeGdacsDisasters
+ */
+export const gdacsSource: DisasterSource<{ format: 'geojson'; data: any } | { format: 'rss'; data: string }> = {
+	id: 'gdacs',
+	name: 'GDACS',
+	cacheTtl: 900, // 15 minutes - GDACS updates its lists every few minutes at most
+
+	async fetch() {
+		try {
+			const response = await fetch(GDACS_FEEDS.geojson, { headers: { Accept: 'application/json' } });
+			if (!response.ok) throw new Error(`GDACS GeoJSON returned ${response.status}`);
+			return { format: 'geojson', data: await response.json() };
+		} catch (error) {
+			console.warn('GDACS GeoJSON unavailable, trying RSS:', error);
+		}
+
+		const response = await fetch(GDACS_FEEDS.rss);
+		if (!response.ok) throw new Error(`GDACS RSS returned ${response.status}`);
+		return { format: 'rss', data: await response.text() };
+	},
+
+	normalize(raw) {
+		const disasters = raw.format === 'geojson' ? parseGdacsGeoJson(raw.data) : parseGdacsRss(raw.data);
+		console.log(`✅ Fetched ${disasters.length} GDACS events (${raw.format})`);
+		return disasters;
+	},
+
+	health: () => probeUrl(GDACS_FEEDS.rss),
+
+	merge: (disasters, own) => mergeGdacsDisasters(disasters, own),
+};
+
+/**
+ * Merge GDACS events into EONET/USGS results
+ * A GDACS event matching an existing record (same type, within the type's distance and time window)
+ * annotates that record with its alert level and can only raise its severity;
+ * unmatched GDACS events are added as their own records
+ */
+export function mergeGdacsDisasters(disasters: Disaster[], gdacsDisasters: Disaster[]): Disaster[] {
+	const merged = [...disasters];
+
+	for (const gdacs of gdacsDisasters) {
+		const match = findDuplicate(disasters, gdacs);
+		if (!match) {
+			merged.push(gdacs);
+			continue;
+		}
+
+		const level = gdacs.alertLevel!;
+		match.alertLevel = level;
+		match.alertUrl = gdacs.alertUrl;
+		match.severityReasons = [...(match.severityReasons ?? []), `GDACS ${capitalize(level)} alert`];
+
+		const score = Math.max(match.severityScore ?? 0, ALERT_SCORES[level]);
+		const severity = severityForScore(score);
+		if (SEVERITY_RANK[severity] > SEVERITY_RANK[match.severity]) {
+			match.severity = severity;
+		}
+		match.severityScore = score;
+	}
+
+	return merged;
+}
+
+function findDuplicate(disasters: Disaster[], gdacs: Disaster): Disaster | undefined {
+	const window = DEDUP_WINDOWS[gdacs.type];
+	const gdacsTime = new Date(gdacs.date).getTime();
+
+	let best: Disaster | undefined;
+	let bestDistance = Infinity;
+
+	for (const candidate of disasters) {
+		if (candidate.type !== gdacs.type) continue;
+
+		const hoursApart = Math.abs(new Date(candidate.date).getTime() - gdacsTime) / HOUR_MS;
+		if (!(hoursApart <= window.hours)) continue;
+
+		const distance = haversineKm(candidate.lat, candidate.lng, gdacs.lat, gdacs.lng);
+		if (distance <= window.distanceKm && distance < bestDistance) {
+			best = candidate;
+			bestDistance = distance;
+		}
+	}
+
+	return best;
+}
+
+function toDisaster(fields: GdacsEventFields): Disaster | null {
+	const type = GDACS_EVENT_TYPES[(fields.eventType ?? '').toUpperCase()];
+	const alertLevel = (fields.alertLevel ?? '').toLowerCase() as AlertLevel;
+	if (!type || !(alertLevel in ALERT_SCORES) || !fields.eventId) return null;
+
+	const lat = Number(fields.lat);
+	const lng = Number(fields.lng);
+	if (isNaN(lat) || isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+
+	// Latest episode date is the current state of the event
+	const date = parseGdacsDate(fields.toDate) ?? parseGdacsDate(fields.fromDate);
+	if (!date) return null;
+
+	const score = ALERT_SCORES[alertLevel];
+	const reasons = [`GDACS ${capitalize(alertLevel)} alert`];
+	if (fields.severityText) reasons.push(fields.severityText.trim());
+
+	return {
+		id: `GDACS_${fields.eventType.toUpperCase()}${fields.eventId}`,
+		type,
+		title: (fields.title ?? '').trim() || `GDACS ${fields.eventType.toUpperCase()} ${fields.eventId}`,
+		lat,
+		lng,
+		date,
+		severity: severityForScore(score),
+		severityScore: score,
+		severityReasons: reasons,
+		alertLevel,
+		...(fields.url ? { alertUrl: fields.url } : {}),
+	};
+}
+
+// GDACS GeoJSON dates are UTC without a zone designator ("2026-10-19T03:12:00"); RSS uses RFC 822
+function parseGdacsDate(value: string | undefined): string | null {
+	if (!value) return null;
+	const trimmed = value.trim();
+	const isoWithoutZone = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(trimmed);
+	const time = new Date(isoWithoutZone ? `${trimmed}Z` : trimmed).getTime();
+	return isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function readTag(xml: string, tag: string): string | undefined {
+	const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+	if (!match) return undefined;
+	const cdata = match[1].match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+	return decodeEntities(cdata ? cdata[1] : match[1]).trim();
+}
+
+function decodeEntities(text: string): string {
+	return text
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;|&#39;/g, "'")
+		.replace(/&amp;/g, '&');
+}
+
+// The feeds can list an event once per episode; keep the first entry per event
+function uniqueById() {
+	const seen = new Set<string>();
+	return (disaster: Disaster) => {
+		if (seen.has(disaster.id)) return false;
+		seen.add(disaster.id);
+		return true;
+	};
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
@@ -0,0 +1,129 @@
+/**
+ * Disaster source registry
+ * Adding a feed = implement DisasterSource in its own module and list it in SOURCE_REGISTRY;
+ * the DISASTER_SOURCES binding then decides which registered sources run
+ */
+
+import { swrCache } from '../cache';
+import type { Disaster } from '../types';
+import { eonetSource } from './eonet';
+import { firmsSource } from './firms';
+import { gdacsSource } from './gdacs';
+import { usgsSource } from './usgs';
+import type { DisasterQuery, DisasterSource, SourceContext } from './types';
+
+export type { DisasterQuery, DisasterSource, SourceContext, SourceEnv, SourceHealth } from './types';
+
+/** Every source the worker knows about, in merge order (FIRMS clusters fold in after GDACS fires) */
+export const SOURCE_REGISTRY: readonly DisasterSource<any>[] = [eonetSource, usgsSource, gdacsSource, firmsSource];
+
+/**
+ * How a source's records were obtained for this request
+ * live = fetched now, cached = KV copy (fresh or being revalidated),
+ * stale = last-known-good after a failed fetch, failed = no data
+ */
+export type SourceStatus = 'live' | 'cached' | 'stale' | 'failed';
+
+export type SourceResult = {
+	source: DisasterSource<any>;
+	disasters: Disaster[];
+	status: SourceStatus;
+	latencyMs: number;
+	lastSuccess: string | null; // ISO time of the last successful upstream fetch
+	ageSeconds: number | null; // Age of the served records
+	error?: string;
+};
+
+/** Per-source entry of the /api/disasters `sources` block */
+export type SourceStatusReport = Omit<SourceResult, 'source' | 'disasters'> & { count: number };
+
+/** Query the frontend loads by default; pre-warmed by the Cron trigger */
+export const DEFAULT_DISASTER_QUERY: DisasterQuery = { window: 'day', minMagnitude: 2.5 };
+
+/**
+ * Sources enabled by the DISASTER_SOURCES binding (comma-separated ids)
+ * All registered sources run when the binding is unset; unknown ids are logged and ignored
+ */
+export function enabledSources(binding: string | undefined): DisasterSource<any>[] {
+	if (!binding || binding.trim() === '') return [...SOURCE_REGISTRY];
+
+	const ids = binding
+		.split(',')
+		.map((id) => id.trim().toLowerCase())
+		.filter(Boolean);
+
+	for (const id of ids) {
+		if (!SOURCE_REGISTRY.some((source) => source.id === id)) {
+			console.warn(`⚠️ DISASTER_SOURCES lists unknown source "${id}"`);
+		}
+	}
+
+	return SOURCE_REGISTRY.filter((source) => ids.includes(source.id));
+}
+
+/**
+ * Run one source through the stale-while-revalidate cache (see ../cache)
+ * Never throws; a failed fetch falls back to the last-known-good records so other sources are unaffected
+ */
+export async function runSource(source: DisasterSource<any>, ctx: SourceContext): Promise<SourceResult> {
+	const started = Date.now();
+
+	try {
+		const cached = await swrCache(
+			ctx.env.AEGIS_CACHE,
+			sourceCacheKey(source, ctx),
+			async () => source.normalize(await source.fetch(ctx), ctx),
+			{ ttl: source.cacheTtl, waitUntil: ctx.waitUntil }
+		);
+
+		const status: SourceStatus = cached.state === 'live' ? 'live' : cached.state === 'stale' ? 'stale' : 'cached';
+		if (status === 'stale') {
+			console.warn(`⚠️ Serving last-known-good ${source.id} records from ${cached.fetchedAt}`);
+		}
+
+		return {
+			source,
+			disasters: source.select ? source.select(cached.value, ctx.query) : cached.value,
+			status,
+			latencyMs: Date.now() - started,
+			lastSuccess: cached.fetchedAt,
+			ageSeconds: cached.ageSeconds,
+			...(cached.error ? { error: cached.error } : {}),
+		};
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		console.error(`❌ Source ${source.id} failed:`, message);
+		return { source, disasters: [], status: 'failed', latencyMs: Date.now() - started, lastSuccess: null, ageSeconds: null, error: message };
+	}
+}
+
+/**
+ * Run sources in parallel and merge their records
+ * Sources without a merge hook are appended first, then hook sources fold their records in
+ */
+export async function runSources(sources: DisasterSource<any>[], ctx: SourceContext): Promise<{ disasters: Disaster[]; results: SourceResult[] }> {
+	const results = await Promise.all(sources.map((source) => runSource(source, ctx)));
+
+	let disasters: Disaster[] = results.filter((r) => !r.source.merge).flatMap((r) => r.disasters);
+	for (const result of results) {
+		if (result.source.merge && result.disasters.length > 0) {
+			disasters = result.source.merge(disasters, result.disasters);
+		}
+	}
+
+	return { disasters, results };
+}
+
+/**
+ * Build the `sources` status block, keyed by source id
+ */
+export function sourceStatusReport(results: SourceResult[]): Record<string, SourceStatusReport> {
+	return Object.fromEntries(
+		results.map(({ source, disasters, ...status }) => [source.id, { ...status, count: disasters.length }])
+	);
+}
+
+function sourceCacheKey(source: DisasterSource<any>, ctx: SourceContext): string {
+	const variant = source.cacheKey?.(ctx.query);
+	return variant ? `source:${source.id}:${variant}` : `source:${source.id}`;
+}
@@ -0,0 +1,27 @@
+import type { SourceHealth } from './types';
+
+/**
+ * Probe a URL for /api/sources health checks
+ */
+export async function probeUrl(url: string, init?: RequestInit): Promise<SourceHealth> {
+	const started = Date.now();
+	try {
+		const response = await fetch(url, init);
+		// Probes only need the status line; drop the body
+		await response.body?.cancel();
+		return {
+			ok: response.ok,
+			status: response.status,
+			latencyMs: Date.now() - started,
+			checkedAt: new Date().toISOString(),
+			...(response.ok ? {} : { error: `${response.status} ${response.statusText}` }),
+		};
+	} catch (error) {
+		return {
+			ok: false,
+			latencyMs: Date.now() - started,
+			checkedAt: new Date().toISOString(),
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+}
@@ -0,0 +1,61 @@
+/**
+ * DisasterSource contract
+ * Every upstream feed behind /api/disasters implements this interface and is listed in ./index.ts
+ */
+
+import type { Disaster } from '../types';
+
+/** Worker bindings a source may read (API keys, KV) */
+export type SourceEnv = {
+	AEGIS_CACHE?: KVNamespace;
+	FIRMS_MAP_KEY?: string;
+	[binding: string]: unknown;
+};
+
+/** Validated /api/disasters query parameters */
+export type DisasterQuery = {
+	window: string; // USGS summary feed window
+	minMagnitude: number;
+};
+
+export type SourceContext = {
+	env: SourceEnv;
+	query: DisasterQuery;
+	/** Lets expired caches revalidate after the response is sent (ExecutionContext.waitUntil) */
+	waitUntil?: (promise: Promise<unknown>) => void;
+};
+
+export type SourceHealth = {
+	ok: boolean;
+	status?: number; // HTTP status of the probe
+	latencyMs: number;
+	checkedAt: string; // ISO
+	error?: string;
+};
+
+export interface DisasterSource<Raw = unknown> {
+	/** Stable id used in DISASTER_SOURCES and cache keys, e.g. 'eonet' */
+	id: string;
+	/** Human-readable agency/feed name */
+	name: string;
+	/** Seconds the normalized records are served before being revalidated */
+	cacheTtl: number;
+	/** Query-dependent part of the cache key; omit when the source ignores the query */
+	cacheKey?(query: DisasterQuery): string;
+	/** Download the raw upstream payload; throw on failure */
+	fetch(ctx: SourceContext): Promise<Raw>;
+	/** Convert the raw payload into scored Disaster records */
+	normalize(raw: Raw, ctx: SourceContext): Disaster[] | Promise<Disaster[]>;
+	/**
+	 * Optional per-request filter applied to the cached records, so query values that would otherwise
+	 * each need their own cache entry (e.g. any minMagnitude) share the one keyed by cacheKey
+	 */
+	select?(disasters: Disaster[], query: DisasterQuery): Disaster[];
+	/** Lightweight reachability probe used by /api/sources */
+	health(ctx: SourceContext): Promise<SourceHealth>;
+	/**
+	 * Optional merge hook for sources that describe events other feeds already report
+	 * (e.g. GDACS alert levels). Without it, records are appended as-is
+	 */
+	merge?(disasters: Disaster[], own: Disaster[]): Disaster[];
+}
@@ -0,0 +1,74 @@
+/**
+ * USGS earthquake summary feeds
+ * https://earthquake.usgs.gov/earthquakes/feed/v1.0/geojson.php
+ */
+
+import { applySeverity } from '../severity';
+import type { Disaster } from '../types';
+import { probeUrl } from './probe';
+import type { DisasterSource } from './types';
+
+/**
+ * USGS summary feed windows and magnitude thresholds
+ */
+export const USGS_WINDOWS = ['hour', 'day', 'week', 'month'];
+const USGS_FEED_THRESHOLDS: Array<{ min: number; feed: string }> = [
+	{ min: 4.5, feed: '4.5' },
+	{ min: 2.5, feed: '2.5' },
+	{ min: 1.0, feed: '1.0' },
+	{ min: 0, feed: 'all' },
+];
+
+/**
+ * Pick the smallest USGS summary feed that still contains every event >= minMagnitude
+ */
+export function usgsSummaryFeed(minMagnitude: number): string {
+	return (USGS_FEED_THRESHOLDS.find((t) => minMagnitude >= t.min) ?? { feed: 'all' }).feed;
+}
+
+function usgsSummaryFeedUrl(window: string, minMagnitude: number): string {
+	return `https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/${usgsSummaryFeed(minMagnitude)}_${window}.geojson`;
+}
+
+export const usgsSource: DisasterSource<any> = {
+	id: 'usgs',
+	name: 'USGS Earthquakes',
+	cacheTtl: 300, // 5 minutes - the summary feeds update every minute
+
+	// One entry per summary feed; the exact minMagnitude is applied per request by select()
+	cacheKey: ({ window, minMagnitude }) => `${window}:${usgsSummaryFeed(minMagnitude)}`,
+
+	async fetch({ query }) {
+		// Narrowest summary feed covering minMagnitude
+		const response = await fetch(usgsSummaryFeedUrl(query.window, query.minMagnitude));
+		if (!response.ok) throw new Error(`USGS returned ${response.status}`);
+		return response.json();
+	},
+
+	// Keeps the whole feed, since the cached records serve every minMagnitude that maps to it
+	normalize(data) {
+		const earthquakes: Disaster[] = (data.features as any[])
+			.filter((feature: any) => typeof feature.properties.mag === 'number')
+			.map((feature: any): Disaster => {
+				const earthquake: Disaster = {
+					id: feature.id,
+					type: 'earthquake',
+					title: feature.properties.place,
+					lng: feature.geometry.coordinates[0],
+					lat: feature.geometry.coordinates[1],
+					date: new Date(feature.properties.time).toISOString(),
+					severity: 'low',
+					magnitude: feature.properties.mag,
+				};
+				return applySeverity(earthquake);
+			});
+
+		console.log(`✅ Fetched ${earthquakes.length} earthquakes`);
+		return earthquakes;
+	},
+
+	select: (earthquakes, { minMagnitude }) => earthquakes.filter((earthquake) => (earthquake.magnitude ?? 0) >= minMagnitude),
+
+	// Smallest feed; same host as every query
+	health: () => probeUrl(usgsSummaryFeedUrl('hour', 4.5)),
+};
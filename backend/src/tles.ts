@@ -0,0 +1,198 @@
+/**
+ * CelesTrak element sets for the disaster-monitoring satellites
+ * Fetched as OMM JSON (see ./omm), validated, and served as TLE text or with per-satellite epoch freshness
+ */
+
+import type { OMMJsonObject } from 'satellite.js';
+import { TLE_STALE_AFTER_DAYS, tleAgeDays } from '../../shared/orbital';
+import { SATELLITE_NORAD_IDS } from '../../shared/satellites';
+import { swrCache, type CacheEntry, type CachedValue } from './cache';
+import { ommEpoch, ommToTle, validateOmm } from './omm';
+
+/**
+ * NORAD catalog numbers we track: every satellite of the catalog (GET /api/satellites)
+ */
+export const TLE_SATELLITES = SATELLITE_NORAD_IDS;
+
+/** TLEs change slowly and CelesTrak asks clients not to poll more than every few hours */
+export const TLE_CACHE_TTL = 43200; // 12 hours
+export const TLE_CACHE_KEY = 'tles_v5'; // Bumped when the catalog or the stored format changes
+
+/**
+ * Every satellite's most recent valid element set, kept without expiry so a CelesTrak outage
+ * longer than the cache retention still has something to serve
+ */
+export const TLE_LAST_GOOD_KEY = 'tles_last_good';
+
+/**
+ * CelesTrak groups that hold the tracked satellites (Earth resources, weather), fetched with one request each
+ * gp.php takes a single CATNR per request, so a group is the only batch query; satellites a group does
+ * not list are then requested by catalog number
+ */
+export const TLE_GROUPS = ['resource', 'weather'];
+
+/** Response formats of /api/tles: 3-line TLE text (default) or JSON with epoch freshness */
+export const TLE_FORMATS = ['tle', 'json'];
+
+/** One satellite's element set as cached */
+export type ElementSet = {
+	noradId: number;
+	omm: OMMJsonObject;
+	fetchedAt: string; // ISO time this set was fetched; older than the cache entry when a refresh failed for this satellite
+};
+
+/** Per-satellite entry of the /api/tles?format=json response */
+export type ElementSetReport = {
+	noradId: number;
+	name: string;
+	epoch: string; // ISO time of the element set epoch
+	ageDays: number; // Days since the epoch
+	stale: boolean; // Older than TLE_STALE_AFTER_DAYS
+	fetchedAt: string;
+	line1: string;
+	line2: string;
+	omm: OMMJsonObject;
+};
+
+/**
+ * Fetch and validate one satellite's OMM from CelesTrak
+ * Returns null (logged) when the request fails or the element set is invalid
+ */
+export async function fetchOmm(catNr: number, now: Date = new Date()): Promise<OMMJsonObject | null> {
+	const records = await fetchOmmRecords(`CATNR=${catNr}`);
+	return records && checkedOmm(records[0], catNr, now);
+}
+
+/**
+ * Fetch every tracked satellite's element set
+ * A satellite that fails keeps its last-known-good set; throws when CelesTrak returned nothing at all
+ */
+export async function fetchElementSets(kv: KVNamespace | undefined, now: Date = new Date()): Promise<ElementSet[]> {
+	console.log(`Fetching OMM element sets for ${TLE_SATELLITES.length} satellites...`);
+
+	const fetchedAt = now.toISOString();
+	const [groups, lastGood] = await Promise.all([
+		Promise.all(TLE_GROUPS.map((group) => fetchOmmRecords(`GROUP=${group}`))),
+		kv ? kv.get<CacheEntry<ElementSet[]>>(TLE_LAST_GOOD_KEY, 'json') : null,
+	]);
+
+	const grouped = new Map<number, unknown>();
+	for (const record of groups.flat()) {
+		const noradId = Number((record as Partial<OMMJsonObject> | null)?.NORAD_CAT_ID);
+		if (TLE_SATELLITES.includes(noradId) && !grouped.has(noradId)) grouped.set(noradId, record);
+	}
+
+	const results = await Promise.all(
+		TLE_SATELLITES.map((noradId) => (grouped.has(noradId) ? checkedOmm(grouped.get(noradId), noradId, now) : fetchOmm(noradId, now)))
+	);
+
+	const fetched = results.filter((omm) => omm !== null).length;
+	if (fetched === 0) {
+		throw new Error('No valid element sets fetched from CelesTrak');
+	}
+
+	const sets = TLE_SATELLITES.flatMap((noradId, i): ElementSet[] => {
+		const omm = results[i];
+		if (omm) return [{ noradId, omm, fetchedAt }];
+
+		const previous = lastGood?.value.find((set) => set.noradId === noradId);
+		if (previous) console.warn(`⚠️ Keeping last-known-good element set for ${noradId} from ${previous.fetchedAt}`);
+		return previous ? [previous] : [];
+	});
+
+	await kv?.put(TLE_LAST_GOOD_KEY, JSON.stringify({ fetchedAt, value: sets } satisfies CacheEntry<ElementSet[]>));
+	console.log(`Fetched ${fetched} of ${TLE_SATELLITES.length} element sets (${grouped.size} from groups, ${sets.length - fetched} last-known-good)`);
+	return sets;
+}
+
+/**
+ * Element sets through the KV cache (shared by /api/tles, /api/passes and Cron pre-warming)
+ * Falls back to TLE_LAST_GOOD_KEY (state 'stale') when CelesTrak fails and the cache entry has expired from KV
+ */
+export async function cachedTles(
+	kv: KVNamespace | undefined,
+	waitUntil?: (promise: Promise<unknown>) => void
+): Promise<CachedValue<ElementSet[]>> {
+	try {
+		return await swrCache(kv, TLE_CACHE_KEY, () => fetchElementSets(kv), { ttl: TLE_CACHE_TTL, waitUntil });
+	} catch (error) {
+		const lastGood = kv ? await kv.get<CacheEntry<ElementSet[]>>(TLE_LAST_GOOD_KEY, 'json') : null;
+		if (!lastGood) throw error;
+
+		console.warn(`⚠️ Serving last-known-good element sets from ${lastGood.fetchedAt}`);
+		return {
+			value: lastGood.value,
+			fetchedAt: lastGood.fetchedAt,
+			ageSeconds: Math.max(0, Math.round((Date.now() - new Date(lastGood.fetchedAt).getTime()) / 1000)),
+			state: 'stale',
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+}
+
+/**
+ * Element sets as 3-line TLE text (name line, then lines 1 and 2), the format parseTLEs reads
+ */
+export function tleText(sets: ElementSet[]): string {
+	return sets.map((set) => [set.omm.OBJECT_NAME, ...ommToTle(set.omm)].join('\n')).join('\n');
+}
+
+/**
+ * Per-satellite epoch age and staleness at a given time
+ */
+export function elementSetReport(sets: ElementSet[], now: Date = new Date()): ElementSetReport[] {
+	return sets.map((set) => {
+		const epoch = ommEpoch(set.omm.EPOCH)!;
+		const ageDays = tleAgeDays(epoch, now);
+		const [line1, line2] = ommToTle(set.omm);
+
+		return {
+			noradId: set.noradId,
+			name: set.omm.OBJECT_NAME,
+			epoch: epoch.toISOString(),
+			ageDays: Math.round(ageDays * 100) / 100,
+			stale: ageDays > TLE_STALE_AFTER_DAYS,
+			fetchedAt: set.fetchedAt,
+			line1,
+			line2,
+			omm: set.omm,
+		};
+	});
+}
+
+// OMM records of a gp.php query (e.g. "CATNR=39084" or "GROUP=weather"), or null (logged) when the request fails
+async function fetchOmmRecords(query: string): Promise<unknown[] | null> {
+	try {
+		const response = await fetch(`https://celestrak.org/NORAD/elements/gp.php?${query}&FORMAT=json`);
+		if (!response.ok) {
+			console.error(`Failed to fetch OMM for ${query}: ${response.status} ${response.statusText}`);
+			return null;
+		}
+
+		// An unknown or decayed object comes back as a plain-text message, not an empty array
+		const text = await response.text();
+		let records: unknown;
+		try {
+			records = JSON.parse(text);
+		} catch {
+			console.warn(`Invalid OMM for ${query}: ${text.substring(0, 100)}`);
+			return null;
+		}
+		return Array.isArray(records) ? records : null;
+	} catch (error) {
+		console.error(`Error fetching OMM for ${query}:`, error);
+		return null;
+	}
+}
+
+// The record if it is a valid element set of the satellite, otherwise null (logged)
+function checkedOmm(omm: unknown, catNr: number, now: Date): OMMJsonObject | null {
+	const error = validateOmm(omm, catNr, now);
+	if (error) {
+		console.warn(`Invalid OMM for ${catNr}: ${error}`);
+		return null;
+	}
+
+	console.log(`✅ Fetched valid OMM for ${catNr}: epoch ${(omm as OMMJsonObject).EPOCH}`);
+	return omm as OMMJsonObject;
+}
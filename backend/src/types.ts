@@ -0,0 +1,60 @@
+/**
+ * Shared API types
+ * Disaster types mirror frontend/src/types/index.ts - keep the two in sync
+ */
+
+import type { HotspotSummary, Severity } from './severity';
+
+export type DisasterType = 'fire' | 'volcano' | 'earthquake' | 'storm' | 'flood' | 'landslide' | 'dust' | 'ice' | 'drought' | 'snow';
+
+/** Every DisasterType, for validating `type` query parameters */
+export const DISASTER_TYPES: DisasterType[] = ['fire', 'volcano', 'earthquake', 'storm', 'flood', 'landslide', 'dust', 'ice', 'drought', 'snow'];
+
+/** GDACS alert level (what humanitarian partners quote) */
+export type AlertLevel = 'green' | 'orange' | 'red';
+
+export type TrackPoint = {
+	lat: number;
+	lng: number;
+	date: string;
+	magnitudeValue?: number;
+	magnitudeUnit?: string;
+};
+
+export type Disaster = {
+	id: string;
+	type: DisasterType;
+	title: string;
+	lat: number;
+	lng: number;
+	date: string;
+	severity: Severity;
+	severityScore?: number; // 0-100 from the severity engine
+	severityReasons?: string[];
+	magnitude?: number; // USGS earthquakes
+	magnitudeValue?: number; // Latest EONET magnitude (e.g. acres, kts)
+	magnitudeUnit?: string;
+	track?: TrackPoint[]; // EONET events with more than one observation (oldest first)
+	alertLevel?: AlertLevel; // GDACS alert level, when GDACS reports the event
+	alertUrl?: string; // GDACS event report
+	distanceKm?: number; // Great-circle distance from `near`, when the request had one
+	fireCluster?: FireClusterSummary; // FIRMS detections clustered around this fire
+	unconfirmed?: boolean; // FIRMS cluster no feed reports yet
+};
+
+/** FIRMS detection clusters attached to a fire (see sources/firms.ts) */
+export type FireClusterSummary = HotspotSummary & {
+	clusters: number;
+	firstDetected: string; // ISO
+	lastDetected: string; // ISO
+};
+
+/** Worker bindings (wrangler.jsonc vars, secrets and KV) */
+export type Bindings = {
+	AEGIS_CACHE: KVNamespace;
+	GEMINI_API_KEY: string;
+	FIRMS_MAP_KEY: string;
+	DISASTER_SOURCES?: string; // Comma-separated source ids, e.g. "eonet,usgs,gdacs" (default: all)
+	CAP_MIN_SEVERITY?: string; // Lowest severity exported by the /api/alerts routes: low | medium | high (default: high)
+	FRONTEND_URL?: string; // AegisMap frontend that /api/feed.atom entries link to
+};
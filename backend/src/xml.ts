@@ -0,0 +1,21 @@
+/**
+ * XML output helpers shared by the CAP and ATOM exports
+ */
+
+export const ATOM_CONTENT_TYPE = 'application/atom+xml';
+
+const XML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' };
+
+/**
+ * Escape text or attribute values
+ */
+export function escapeXml(value: string | number): string {
+	return String(value).replace(/[&<>"']/g, (char) => XML_ESCAPES[char]);
+}
+
+/**
+ * <name>escaped text</name>, or nothing when the value is missing
+ */
+export function xmlText(name: string, value: string | number | undefined | null, indent = ''): string {
+	return value === undefined || value === null || value === '' ? '' : `${indent}<${name}>${escapeXml(value)}</${name}>\n`;
+}
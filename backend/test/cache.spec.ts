@@ -0,0 +1,98 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { swrCache, type CacheEntry } from '../src/cache';
+
+const kv = env.AEGIS_CACHE;
+
+// Store an entry as if it had been fetched `ageSeconds` ago
+const seed = async <T>(key: string, value: T, ageSeconds: number, extra: Partial<CacheEntry<T>> = {}) => {
+	const entry: CacheEntry<T> = { fetchedAt: new Date(Date.now() - ageSeconds * 1000).toISOString(), value, ...extra };
+	await kv.put(key, JSON.stringify(entry));
+};
+
+describe('swrCache', () => {
+	it('loads and stores on a miss', async () => {
+		const result = await swrCache(kv, 'swr:miss', async () => 'fresh value', { ttl: 60 });
+
+		expect(result).toMatchObject({ value: 'fresh value', state: 'live', ageSeconds: 0 });
+		expect((await kv.get<CacheEntry<string>>('swr:miss', 'json'))?.value).toBe('fresh value');
+	});
+
+	it('serves a fresh entry without loading', async () => {
+		await seed('swr:fresh', 'cached value', 10);
+		let loads = 0;
+
+		const result = await swrCache(kv, 'swr:fresh', async () => `load ${++loads}`, { ttl: 60 });
+
+		expect(result).toMatchObject({ value: 'cached value', state: 'fresh' });
+		expect(result.ageSeconds).toBeGreaterThanOrEqual(10);
+		expect(loads).toBe(0);
+	});
+
+	it('serves an expired entry immediately and revalidates in the background', async () => {
+		await seed('swr:expired', 'old value', 120);
+		const background: Promise<unknown>[] = [];
+
+		const result = await swrCache(kv, 'swr:expired', async () => 'new value', {
+			ttl: 60,
+			waitUntil: (promise) => background.push(promise),
+		});
+
+		expect(result).toMatchObject({ value: 'old value', state: 'revalidating' });
+		expect(background).toHaveLength(1);
+
+		await Promise.all(background);
+		expect((await kv.get<CacheEntry<string>>('swr:expired', 'json'))?.value).toBe('new value');
+	});
+
+	it('revalidates an expired key once for concurrent reads', async () => {
+		await seed('swr:concurrent', 'old value', 120);
+		const background: Promise<unknown>[] = [];
+		let loads = 0;
+		let release!: () => void;
+		const gate = new Promise<void>((resolve) => (release = resolve));
+		// Held until every read has arrived, so the first revalidation is still running
+		const load = async () => {
+			loads++;
+			await gate;
+			return `load ${loads}`;
+		};
+		const options = { ttl: 60, waitUntil: (promise: Promise<unknown>) => background.push(promise) };
+
+		const results = await Promise.all(Array.from({ length: 5 }, () => swrCache(kv, 'swr:concurrent', load, options)));
+		const pendingInline = swrCache(kv, 'swr:concurrent', load, { ttl: 60 });
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		release();
+		const inline = await pendingInline;
+		await Promise.all(background);
+
+		expect(results.map((result) => result.state)).toEqual(Array(5).fill('revalidating'));
+		expect(background).toHaveLength(1);
+		expect(inline).toMatchObject({ value: 'load 1', state: 'live' });
+		expect(loads).toBe(1);
+	});
+
+	it('keeps the old value and records the error when revalidation fails', async () => {
+		await seed('swr:failing', 'last good', 120);
+		const failingLoad = async (): Promise<string> => {
+			throw new Error('upstream down');
+		};
+
+		const inline = await swrCache(kv, 'swr:failing', failingLoad, { ttl: 60 });
+		expect(inline).toMatchObject({ value: 'last good', state: 'stale', error: 'upstream down' });
+
+		// The next background-revalidated request reports the earlier failure
+		const pending: Promise<unknown>[] = [];
+		const background = await swrCache(kv, 'swr:failing', failingLoad, { ttl: 60, waitUntil: (promise) => pending.push(promise) });
+		expect(background).toMatchObject({ value: 'last good', state: 'stale', error: 'upstream down' });
+		await Promise.all(pending);
+	});
+
+	it('throws when there is nothing cached and the load fails', async () => {
+		await expect(
+			swrCache(kv, 'swr:empty', async () => {
+				throw new Error('upstream down');
+			}, { ttl: 60 })
+		).rejects.toThrow('upstream down');
+	});
+});
@@ -0,0 +1,198 @@
+/**
+ * CAP 1.2 rule check for the tests: NOT validation against the OASIS XSD
+ * A hand-written subset of CAP-v1.2.xsd (element order, cardinality, enumerations, and the datatypes of
+ * the fields cap.ts writes) plus format rules the spec puts in prose (identifier characters, polygon/circle
+ * syntax). It cannot catch what the rules leave out (xs:anyURI, xs:language, <resource> datatypes) and
+ * would not notice the XSD changing. Before changing the CAP output, also validate a document with the
+ * official schema, e.g. `xmllint --noout --schema CAP-v1.2.xsd alert.cap`
+ */
+
+export const CAP_NAMESPACE = 'urn:oasis:names:tc:emergency:cap:1.2';
+
+export type XmlElement = {
+	name: string;
+	attributes: Record<string, string>;
+	children: XmlElement[];
+	text: string;
+};
+
+type Rule = {
+	name: string;
+	min: number;
+	max: number; // Infinity = unbounded
+	pattern?: RegExp;
+	values?: string[];
+	children?: Rule[];
+	check?: (text: string) => string | null;
+};
+
+const one = (name: string, extra: Partial<Rule> = {}): Rule => ({ name, min: 1, max: 1, ...extra });
+const optional = (name: string, extra: Partial<Rule> = {}): Rule => ({ name, min: 0, max: 1, ...extra });
+const many = (name: string, min: number, extra: Partial<Rule> = {}): Rule => ({ name, min, max: Infinity, ...extra });
+
+// xs:dateTime restricted by CAP: explicit offset, no fractional seconds, no "Z"
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}[-+]\d{2}:\d{2}$/;
+// identifier/sender/references "MUST NOT include spaces, commas or restricted characters (< and &)"
+const NO_RESTRICTED = /^[^\s,<&]+$/;
+const DECIMAL = /^-?\d+(\.\d+)?$/;
+
+const valuePair = (name: string, min: number) => many(name, min, { children: [one('valueName'), one('value')] });
+
+const checkPolygon = (text: string) => {
+	const pairs = text.trim().split(/\s+/);
+	if (pairs.length < 4) return 'polygon needs at least 4 coordinate pairs';
+	if (!pairs.every((pair) => /^-?\d+(\.\d+)?,-?\d+(\.\d+)?$/.test(pair))) return 'polygon pairs must be "lat,lon"';
+	if (pairs[0] !== pairs[pairs.length - 1]) return 'polygon must be closed (first pair = last pair)';
+	return null;
+};
+
+const checkCircle = (text: string) =>
+	/^-?\d+(\.\d+)?,-?\d+(\.\d+)? \d+(\.\d+)?$/.test(text.trim()) ? null : 'circle must be "lat,lon radius"';
+
+const CAP_ALERT: Rule = one('alert', {
+	children: [
+		one('identifier', { pattern: NO_RESTRICTED }),
+		one('sender', { pattern: NO_RESTRICTED }),
+		one('sent', { pattern: DATE_TIME }),
+		one('status', { values: ['Actual', 'Exercise', 'System', 'Test', 'Draft'] }),
+		one('msgType', { values: ['Alert', 'Update', 'Cancel', 'Ack', 'Error'] }),
+		optional('source'),
+		one('scope', { values: ['Public', 'Restricted', 'Private'] }),
+		optional('restriction'),
+		optional('addresses'),
+		many('code', 0),
+		optional('note'),
+		optional('references'),
+		optional('incidents'),
+		many('info', 0, {
+			children: [
+				optional('language'),
+				many('category', 1, {
+					values: ['Geo', 'Met', 'Safety', 'Security', 'Rescue', 'Fire', 'Health', 'Env', 'Transport', 'Infra', 'CBRNE', 'Other'],
+				}),
+				one('event'),
+				many('responseType', 0, {
+					values: ['Shelter', 'Evacuate', 'Prepare', 'Execute', 'Avoid', 'Monitor', 'Assess', 'AllClear', 'None'],
+				}),
+				one('urgency', { values: ['Immediate', 'Expected', 'Future', 'Past', 'Unknown'] }),
+				one('severity', { values: ['Extreme', 'Severe', 'Moderate', 'Minor', 'Unknown'] }),
+				one('certainty', { values: ['Observed', 'Likely', 'Possible', 'Unlikely', 'Unknown'] }),
+				optional('audience'),
+				valuePair('eventCode', 0),
+				optional('effective', { pattern: DATE_TIME }),
+				optional('onset', { pattern: DATE_TIME }),
+				optional('expires', { pattern: DATE_TIME }),
+				optional('senderName'),
+				optional('headline'),
+				optional('description'),
+				optional('instruction'),
+				optional('web', { pattern: /^\S+$/ }),
+				optional('contact'),
+				valuePair('parameter', 0),
+				many('resource', 0, {
+					children: [one('resourceDesc'), one('mimeType'), optional('size'), optional('uri'), optional('derefUri'), optional('digest')],
+				}),
+				many('area', 0, {
+					children: [
+						one('areaDesc'),
+						many('polygon', 0, { check: checkPolygon }),
+						many('circle', 0, { check: checkCircle }),
+						valuePair('geocode', 0),
+						optional('altitude', { pattern: DECIMAL }),
+						optional('ceiling', { pattern: DECIMAL }),
+					],
+				}),
+			],
+		}),
+	],
+});
+
+/**
+ * Minimal XML parser for the documents under test (elements, attributes, text; no DTDs/CDATA)
+ */
+export function parseXml(xml: string): XmlElement {
+	const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+	const stack = [root];
+	const body = xml.replace(/^\s*<\?xml[^>]*\?>/, '');
+
+	for (const [, closing, name, rawAttributes, selfClosing, text] of body.matchAll(/<(\/?)([\w:.-]+)([^>]*?)(\/?)>|([^<]+)/g)) {
+		const parent = stack[stack.length - 1];
+		if (text !== undefined) {
+			parent.text += decodeEntities(text);
+			continue;
+		}
+		if (closing) {
+			const open = stack.pop();
+			if (open?.name !== name) throw new Error(`Mismatched </${name}> (open: <${open?.name}>)`);
+			continue;
+		}
+
+		const attributes: Record<string, string> = {};
+		for (const [, key, value] of rawAttributes.matchAll(/([\w:.-]+)="([^"]*)"/g)) {
+			attributes[key] = decodeEntities(value);
+		}
+		const element: XmlElement = { name, attributes, children: [], text: '' };
+		parent.children.push(element);
+		if (!selfClosing) stack.push(element);
+	}
+
+	if (stack.length !== 1) throw new Error(`Unclosed <${stack[stack.length - 1].name}>`);
+	if (root.children.length !== 1) throw new Error('Document must have exactly one root element');
+	return root.children[0];
+}
+
+/**
+ * Check a CAP 1.2 <alert> (document string or parsed element) against the rules above; returns the violations
+ */
+export function checkCapRules(alert: string | XmlElement): string[] {
+	const element = typeof alert === 'string' ? parseXml(alert) : alert;
+	const errors: string[] = [];
+
+	if (element.name !== 'alert') errors.push(`Root element is <${element.name}>, expected <alert>`);
+	if (element.attributes.xmlns !== CAP_NAMESPACE) errors.push(`alert namespace is "${element.attributes.xmlns}", expected ${CAP_NAMESPACE}`);
+
+	validateChildren(element, CAP_ALERT.children ?? [], 'alert', errors);
+	return errors;
+}
+
+function validateChildren(element: XmlElement, rules: Rule[], path: string, errors: string[]) {
+	let index = 0;
+
+	for (const rule of rules) {
+		let count = 0;
+		while (index < element.children.length && element.children[index].name === rule.name) {
+			validateElement(element.children[index], rule, `${path}/${rule.name}`, errors);
+			index++;
+			count++;
+		}
+		if (count < rule.min) errors.push(`${path}: missing <${rule.name}>`);
+		if (count > rule.max) errors.push(`${path}: <${rule.name}> may appear at most ${rule.max} time(s)`);
+	}
+
+	for (const extra of element.children.slice(index)) {
+		errors.push(`${path}: unexpected <${extra.name}> (wrong order or not in the rules)`);
+	}
+}
+
+function validateElement(element: XmlElement, rule: Rule, path: string, errors: string[]) {
+	if (rule.children) {
+		validateChildren(element, rule.children, path, errors);
+		return;
+	}
+
+	const text = element.text.trim();
+	if (element.children.length > 0) errors.push(`${path}: must contain text only`);
+	if (rule.values && !rule.values.includes(text)) errors.push(`${path}: "${text}" is not one of ${rule.values.join(', ')}`);
+	if (rule.pattern && !rule.pattern.test(text)) errors.push(`${path}: "${text}" does not match ${rule.pattern}`);
+	const problem = rule.check?.(text);
+	if (problem) errors.push(`${path}: ${problem}`);
+}
+
+function decodeEntities(text: string): string {
+	return text
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&amp;/g, '&');
+}
@@ -0,0 +1,217 @@
+import { env, SELF } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { capAlertDisasters, capAlertDocument, capAlertsDocument, capAtomIndex, capDateTime, capSeverity, capUrgency } from '../src/cap';
+import type { Disaster } from '../src/types';
+import { parseXml, checkCapRules } from './cap-rules';
+
+const options = { baseUrl: 'https://api.example.org', sender: 'aegismap@api.example.org' };
+const now = new Date('2026-09-02T12:00:00Z');
+
+const fire: Disaster = {
+	id: 'EONET_15000',
+	type: 'fire',
+	title: 'Creek Fire <Fresno & Madera>',
+	lat: 37.2,
+	lng: -119.3,
+	date: '2026-09-02T06:00:00Z',
+	severity: 'high',
+	severityScore: 88,
+	severityReasons: ['Burned area 150,000 acres', '412 FIRMS detections'],
+	magnitudeValue: 150000,
+	magnitudeUnit: 'acres',
+	track: [
+		{ lat: 37.1, lng: -119.4, date: '2026-09-01T06:00:00Z' },
+		{ lat: 37.2, lng: -119.3, date: '2026-09-02T06:00:00Z' },
+	],
+};
+
+const quake: Disaster = {
+	id: 'us7000abcd',
+	type: 'earthquake',
+	title: 'M 6.4 - 20 km SW of Ridgecrest, CA',
+	lat: 35.7,
+	lng: -117.5,
+	date: '2026-09-02T03:19:53.000Z',
+	severity: 'high',
+	severityScore: 68,
+	magnitude: 6.4,
+	alertLevel: 'orange',
+	alertUrl: 'https://www.gdacs.org/report.aspx?eventtype=EQ&eventid=1',
+};
+
+const flood: Disaster = {
+	id: 'GDACS_FL1001',
+	type: 'flood',
+	title: 'Flood in Bangladesh',
+	lat: 23.7,
+	lng: 90.4,
+	date: '2026-08-20T00:00:00Z',
+	severity: 'medium',
+	alertLevel: 'red',
+};
+
+// An event whose upstream date cannot be parsed
+const undated: Disaster = { ...flood, id: 'GDACS_FL1002', date: 'unknown' };
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('CAP field mapping', () => {
+	it('maps severity, with GDACS red and top scores as Extreme', () => {
+		expect(capSeverity(fire)).toBe('Extreme');
+		expect(capSeverity(quake)).toBe('Severe');
+		expect(capSeverity(flood)).toBe('Extreme');
+		expect(capSeverity({ ...flood, alertLevel: undefined })).toBe('Moderate');
+		expect(capSeverity({ ...flood, alertLevel: undefined, severity: 'low' })).toBe('Minor');
+	});
+
+	it('maps urgency from the event type and last observation', () => {
+		expect(capUrgency(quake, now)).toBe('Past');
+		expect(capUrgency(fire, now)).toBe('Immediate');
+		expect(capUrgency(flood, now)).toBe('Unknown');
+	});
+
+	it('formats dateTime with an explicit UTC offset', () => {
+		expect(capDateTime('2026-09-02T03:19:53.123Z')).toBe('2026-09-02T03:19:53-00:00');
+	});
+
+	it('selects alerts at or above the minimum severity, most severe first', () => {
+		expect(capAlertDisasters([flood, quake, fire], 'high').map((d) => d.id)).toEqual(['EONET_15000', 'us7000abcd']);
+		expect(capAlertDisasters([flood, quake, fire], 'medium')).toHaveLength(3);
+	});
+
+	it('leaves out events without a valid observation time', () => {
+		expect(capAlertDisasters([flood, undated], 'low').map((d) => d.id)).toEqual(['GDACS_FL1001']);
+	});
+});
+
+describe('CAP 1.2 documents', () => {
+	it('produces alerts that pass the CAP 1.2 rule check (not XSD validation)', () => {
+		for (const disaster of [fire, quake, flood]) {
+			expect(checkCapRules(capAlertDocument(disaster, options, now))).toEqual([]);
+		}
+	});
+
+	it('describes the area with a circle, plus a polygon around tracked events', () => {
+		const area = parseXml(capAlertDocument(fire, options, now))
+			.children.find((child) => child.name === 'info')!
+			.children.find((child) => child.name === 'area')!;
+
+		const polygon = area.children.find((child) => child.name === 'polygon')!.text;
+		expect(polygon.split(' ')).toHaveLength(5);
+		expect(area.children.find((child) => child.name === 'circle')!.text).toBe('37.2,-119.3 25');
+	});
+
+	it('escapes text content', () => {
+		const info = parseXml(capAlertDocument(fire, options, now)).children.find((child) => child.name === 'info')!;
+		expect(info.children.find((child) => child.name === 'headline')!.text).toBe('Creek Fire <Fresno & Madera>');
+	});
+
+	it('reports rule violations', () => {
+		const invalid = capAlertDocument(quake, options, now).replace('-00:00</sent>', 'Z</sent>').replace('<status>Actual</status>', '');
+		expect(checkCapRules(invalid)).toEqual([
+			'alert/sent: "2026-09-02T03:19:53Z" does not match /^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}[-+]\\d{2}:\\d{2}$/',
+			'alert: missing <status>',
+		]);
+	});
+});
+
+describe('CAP alerts document', () => {
+	it('carries one info block per alert, identified by event id', () => {
+		const text = capAlertsDocument([fire, quake, undated], options, now);
+		const alert = parseXml(text);
+		const ids = alert.children
+			.filter((child) => child.name === 'info')
+			.map((info) => info.children.find((child) => child.name === 'parameter' && child.children[0].text === 'AegisMapEventId')!.children[1].text);
+
+		expect(checkCapRules(text)).toEqual([]);
+		expect(ids).toEqual(['EONET_15000', 'us7000abcd']);
+		expect(alert.children.find((child) => child.name === 'sent')!.text).toBe('2026-09-02T12:00:00-00:00');
+	});
+
+	it('is a valid alert without info blocks when nothing meets the threshold', () => {
+		expect(checkCapRules(capAlertsDocument([], options, now))).toEqual([]);
+	});
+});
+
+describe('CAP ATOM index', () => {
+	it('lists every alert with a link to its CAP document and a valid embedded alert', () => {
+		const feed = parseXml(capAtomIndex([fire, quake], options, now));
+		const entries = feed.children.filter((child) => child.name === 'entry');
+
+		expect(feed.attributes.xmlns).toBe('http://www.w3.org/2005/Atom');
+		expect(feed.children.find((child) => child.name === 'updated')!.text).toBe('2026-09-02T06:00:00.000Z');
+		expect(entries).toHaveLength(2);
+
+		const link = entries[0].children.find((child) => child.name === 'link')!;
+		expect(link.attributes).toMatchObject({ rel: 'alternate', type: 'application/cap+xml', href: 'https://api.example.org/api/alerts/EONET_15000' });
+
+		for (const entry of entries) {
+			const alert = entry.children.find((child) => child.name === 'content')!.children[0];
+			expect(checkCapRules(alert)).toEqual([]);
+		}
+	});
+
+	it('skips events with an unparseable date instead of throwing', () => {
+		const feed = parseXml(capAtomIndex([fire, undated], options, now));
+		expect(feed.children.filter((child) => child.name === 'entry')).toHaveLength(1);
+	});
+
+	it('is a valid empty feed when nothing meets the threshold', () => {
+		const feed = parseXml(capAtomIndex([], options, now));
+		expect(feed.children.filter((child) => child.name === 'entry')).toHaveLength(0);
+		expect(feed.children.find((child) => child.name === 'updated')!.text).toBe(now.toISOString());
+	});
+});
+
+describe('GET /api/alerts', () => {
+	const percent: Disaster = { ...flood, id: 'GDACS_%41', severity: 'high', severityScore: 70 };
+
+	// Current disasters as the sources would return them: GDACS from the KV cache, every other source down
+	const seedDisasters = async (disasters: Disaster[]) => {
+		vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('unavailable', { status: 503 }));
+		await env.AEGIS_CACHE.put('source:gdacs', JSON.stringify({ fetchedAt: new Date().toISOString(), value: disasters }));
+	};
+
+	it('serves every alert at or above the threshold as one CAP 1.2 document', async () => {
+		await seedDisasters([percent, flood, undated]);
+
+		const response = await SELF.fetch('http://example.com/api/alerts.cap');
+		const text = await response.text();
+		const infos = parseXml(text).children.filter((child) => child.name === 'info');
+
+		expect(response.headers.get('Content-Type')).toMatch(/^application\/cap\+xml/);
+		expect(checkCapRules(text)).toEqual([]);
+		expect(infos).toHaveLength(1);
+		expect(parseXml(await (await SELF.fetch('http://example.com/api/alerts.cap?minSeverity=medium')).text()).children.filter((child) => child.name === 'info')).toHaveLength(2);
+		expect((await SELF.fetch('http://example.com/api/alerts.cap?minSeverity=extreme')).status).toBe(400);
+	});
+
+	it('serves the ATOM index as its own route', async () => {
+		await seedDisasters([percent, flood]);
+
+		const response = await SELF.fetch('http://example.com/api/alerts.atom?minSeverity=medium');
+		expect(response.headers.get('Content-Type')).toMatch(/^application\/atom\+xml/);
+		expect(parseXml(await response.text()).children.filter((child) => child.name === 'entry')).toHaveLength(2);
+	});
+
+	it('looks alerts up by the id as decoded once, ignoring a legacy .cap suffix', async () => {
+		await seedDisasters([percent, undated]);
+
+		for (const path of ['GDACS_%2541', 'GDACS_%2541.cap']) {
+			const response = await SELF.fetch(`http://example.com/api/alerts/${path}`);
+			expect(response.status, path).toBe(200);
+			expect(checkCapRules(await response.text())).toEqual([]);
+		}
+		expect((await SELF.fetch('http://example.com/api/alerts/%25')).status).toBe(404);
+		expect((await SELF.fetch('http://example.com/api/alerts/GDACS_FL1002')).status).toBe(404);
+	});
+
+	it('applies the same severity threshold to single alerts as to the index', async () => {
+		await seedDisasters([flood]);
+
+		expect((await SELF.fetch('http://example.com/api/alerts/GDACS_FL1001')).status).toBe(404);
+		expect((await SELF.fetch('http://example.com/api/alerts/GDACS_FL1001?minSeverity=medium')).status).toBe(200);
+	});
+});
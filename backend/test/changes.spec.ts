@@ -0,0 +1,81 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { diffSnapshots, readChanges, recordSnapshot, toSnapshot } from '../src/changes';
+import type { Disaster } from '../src/types';
+
+const kv = env.AEGIS_CACHE;
+
+const disaster = (id: string, overrides: Partial<Disaster> = {}): Disaster => ({
+	id,
+	type: 'fire',
+	title: `Event ${id}`,
+	lat: 37.5,
+	lng: -120.25,
+	date: '2026-10-01T00:00:00Z',
+	severity: 'medium',
+	...overrides,
+});
+
+describe('diffSnapshots', () => {
+	it('reports new, updated and closed events', () => {
+		const previous = toSnapshot([disaster('a'), disaster('b'), disaster('c')], '2026-10-01T00:00:00.000Z');
+		const next = toSnapshot([disaster('a'), disaster('b', { severity: 'high', magnitudeValue: 95 }), disaster('d')], '2026-10-01T00:05:00.000Z');
+
+		const changes = diffSnapshots(previous, next);
+
+		expect(changes.map((change) => [change.id, change.kind])).toEqual([
+			['b', 'updated'],
+			['d', 'new'],
+			['c', 'closed'],
+		]);
+		expect(changes[0].changes).toEqual([
+			{ field: 'severity', from: 'medium', to: 'high' },
+			{ field: 'magnitudeValue', from: null, to: 95 },
+		]);
+		expect(changes.every((change) => change.detectedAt === '2026-10-01T00:05:00.000Z')).toBe(true);
+	});
+
+	it('ignores sub-kilometre position jitter but reports real moves', () => {
+		const previous = toSnapshot([disaster('jitter'), disaster('moved')], '2026-10-01T00:00:00.000Z');
+		const next = toSnapshot(
+			[disaster('jitter', { lat: 37.501 }), disaster('moved', { lat: 37.7 })],
+			'2026-10-01T00:05:00.000Z'
+		);
+
+		const changes = diffSnapshots(previous, next);
+
+		expect(changes).toHaveLength(1);
+		expect(changes[0]).toMatchObject({ id: 'moved', kind: 'updated', changes: [{ field: 'position' }] });
+	});
+});
+
+describe('recordSnapshot', () => {
+	it('uses the first snapshot as a baseline and logs later changes', async () => {
+		const first = await recordSnapshot(kv, [disaster('a')], new Date('2026-10-01T00:00:00Z'));
+		expect(first).toEqual([]);
+
+		await recordSnapshot(kv, [disaster('a'), disaster('b')], new Date('2026-10-01T00:05:00Z'));
+		await recordSnapshot(kv, [disaster('b')], new Date('2026-10-01T00:10:00Z'));
+
+		const all = await readChanges(kv, new Date('2026-09-30T00:00:00Z'));
+		expect(all.changes.map((change) => [change.id, change.kind])).toEqual([
+			['b', 'new'],
+			['a', 'closed'],
+		]);
+		expect(all.latestSnapshot).toBe('2026-10-01T00:10:00.000Z');
+
+		const recent = await readChanges(kv, new Date('2026-10-01T00:05:00Z'));
+		expect(recent.changes.map((change) => change.id)).toEqual(['a']);
+	});
+
+	it('does not rewrite an unchanged snapshot', async () => {
+		await kv.put('changes:snapshot', JSON.stringify({ takenAt: '2026-10-02T00:00:00.000Z', events: {} }));
+		await recordSnapshot(kv, [disaster('x')], new Date('2026-10-02T00:10:00Z'));
+
+		expect(await recordSnapshot(kv, [disaster('x')], new Date('2026-10-02T00:20:00Z'))).toEqual([]);
+		expect((await readChanges(kv, new Date('2026-10-02T00:00:00Z'))).latestSnapshot).toBe('2026-10-02T00:10:00.000Z');
+
+		await recordSnapshot(kv, [disaster('x', { severity: 'high' })], new Date('2026-10-02T00:30:00Z'));
+		expect((await readChanges(kv, new Date('2026-10-02T00:00:00Z'))).latestSnapshot).toBe('2026-10-02T00:30:00.000Z');
+	});
+});
@@ -1,3 +1,9 @@
 declare module 'cloudflare:test' {
 	interface ProvidedEnv extends Env {}
 }
+
+// Recorded upstream responses in test/fixtures, imported as text
+declare module '*?raw' {
+	const content: string;
+	export default content;
+}
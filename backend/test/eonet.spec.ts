@@ -0,0 +1,106 @@
+import { SELF } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { EONET_CATEGORY_TYPES, eonetGeometryToTrack, eonetSource } from '../src/sources/eonet';
+import type { SourceContext } from '../src/sources';
+import eonetEvents from './fixtures/eonet-events.json?raw';
+
+// No FIRMS key, so events are scored without hotspot lookups
+const ctx: SourceContext = { env: {}, query: { window: 'day', minMagnitude: 2.5 } };
+
+const events: any[] = JSON.parse(eonetEvents).events;
+const event = (id: string) => events.find((e) => e.id === id);
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('EONET source', () => {
+	it('maps every natural-event category onto its disaster type', async () => {
+		const disasters = await eonetSource.normalize(JSON.parse(eonetEvents), ctx);
+
+		expect(Object.fromEntries(disasters.map((d) => [d.id, d.type]))).toEqual({
+			EONET_15001: 'fire',
+			EONET_15002: 'volcano',
+			EONET_15003: 'storm',
+			EONET_15004: 'flood',
+			EONET_15005: 'landslide',
+			EONET_15006: 'dust',
+			EONET_15007: 'ice',
+			EONET_15008: 'drought',
+			EONET_15009: 'snow',
+			EONET_15012: 'flood',
+		});
+		expect(new Set(disasters.map((d) => d.type))).toEqual(new Set(Object.values(EONET_CATEGORY_TYPES)));
+	});
+
+	it('leaves earthquakes to USGS and ignores man-made events', async () => {
+		const ids = (await eonetSource.normalize(JSON.parse(eonetEvents), ctx)).map((d) => d.id);
+		expect(ids).not.toContain('EONET_15010');
+		expect(ids).not.toContain('EONET_15011');
+	});
+});
+
+describe('EONET tracks', () => {
+	it('orders track points by date, keeping magnitudes', () => {
+		expect(eonetGeometryToTrack(event('EONET_15003').geometry)).toEqual([
+			{ lat: 16.5, lng: -58, date: '2026-09-01T00:00:00Z', magnitudeValue: 90, magnitudeUnit: 'kts' },
+			{ lat: 17.3, lng: -59.1, date: '2026-09-01T12:00:00Z', magnitudeValue: 110, magnitudeUnit: 'kts' },
+			{ lat: 18.1, lng: -60.2, date: '2026-09-02T00:00:00Z', magnitudeValue: 130, magnitudeUnit: 'kts' },
+		]);
+	});
+
+	it('reduces polygons to their centroid and skips unusable entries', () => {
+		const geometry = [...event('EONET_15004').geometry, { type: 'Point', coordinates: [1, 2] }, { type: 'LineString', date: '2026-08-29T00:00:00Z' }];
+		expect(eonetGeometryToTrack(geometry)).toEqual([{ lat: 23.5, lng: 90.5, date: '2026-08-28T00:00:00Z' }]);
+		expect(eonetGeometryToTrack(undefined)).toEqual([]);
+	});
+
+	it('keeps only the latest position on the disaster, with a track for moving events', async () => {
+		const disasters = await eonetSource.normalize(JSON.parse(eonetEvents), ctx);
+		const storm = disasters.find((d) => d.id === 'EONET_15003')!;
+
+		expect(storm).toMatchObject({ lat: 18.1, lng: -60.2, date: '2026-09-02T00:00:00Z', magnitudeValue: 130 });
+		expect(storm.track).toHaveLength(3);
+		expect(disasters.find((d) => d.id === 'EONET_15002')!.track).toBeUndefined();
+	});
+});
+
+describe('GET /api/disasters/:id/track', () => {
+	// Built per call: a Response created outside the request handler cannot be read inside it
+	const mockEonet = (body: unknown, status = 200) =>
+		vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(JSON.stringify(body), { status }));
+
+	it('returns the date-ordered track of a moving event', async () => {
+		mockEonet(event('EONET_15003'));
+
+		const response = await SELF.fetch('http://example.com/api/disasters/EONET_15003/track');
+		const body = await response.json<any>();
+
+		expect(response.status).toBe(200);
+		expect(body).toMatchObject({ id: 'EONET_15003', type: 'storm', title: 'Hurricane Lee', closed: null });
+		expect(body.track.map((point: any) => point.date)).toEqual(['2026-09-01T00:00:00Z', '2026-09-01T12:00:00Z', '2026-09-02T00:00:00Z']);
+	});
+
+	it('returns a one-point track for a stationary event', async () => {
+		mockEonet({ ...event('EONET_15002'), closed: '2026-09-01T00:00:00Z' });
+
+		const body = await (await SELF.fetch('http://example.com/api/disasters/EONET_15002/track')).json<any>();
+		expect(body).toMatchObject({ type: 'volcano', closed: '2026-09-01T00:00:00Z', track: [{ lat: 37.75, lng: 15, date: '2026-08-30T00:00:00Z' }] });
+	});
+
+	it('is 404 for events EONET does not know', async () => {
+		mockEonet({ message: 'Not found' }, 404);
+
+		const response = await SELF.fetch('http://example.com/api/disasters/EONET_99999/track');
+		expect(response.status).toBe(404);
+		expect(await response.json()).toEqual({ error: 'Event EONET_99999 not found' });
+	});
+
+	it('is 404 without calling EONET for other sources', async () => {
+		const fetchSpy = mockEonet({});
+
+		const response = await SELF.fetch('http://example.com/api/disasters/us7000abcd/track');
+		expect(response.status).toBe(404);
+		expect(fetchSpy).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,102 @@
+import { SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { disasterAtomFeed, FEED_MAX_ENTRIES, feedEntryId, feedFrontendUrl } from '../src/feed';
+import type { Disaster } from '../src/types';
+import { parseXml, type XmlElement } from './cap-rules';
+
+const options = { feedUrl: 'https://api.example.org/api/feed.atom', frontendUrl: 'https://maps.example.org/aegis-map/' };
+const now = new Date('2026-09-02T12:00:00Z');
+
+const fire: Disaster = {
+	id: 'EONET_15000',
+	type: 'fire',
+	title: 'Creek Fire <Fresno & Madera>',
+	lat: 37.2,
+	lng: -119.3,
+	date: '2026-09-02T06:00:00Z',
+	severity: 'high',
+	severityScore: 88,
+};
+
+const quake: Disaster = {
+	id: 'us7000abcd',
+	type: 'earthquake',
+	title: 'M 6.4 - 20 km SW of Ridgecrest, CA',
+	lat: 35.7,
+	lng: -117.5,
+	date: '2026-09-02T03:19:53.000Z',
+	severity: 'high',
+	magnitude: 6.4,
+	alertUrl: 'https://www.gdacs.org/report.aspx?eventtype=EQ&eventid=1',
+};
+
+const flood: Disaster = {
+	id: 'GDACS_FL1001',
+	type: 'flood',
+	title: 'Flood in Bangladesh',
+	lat: 23.7,
+	lng: 90.4,
+	date: '2026-08-20T00:00:00Z',
+	severity: 'medium',
+};
+
+const child = (element: XmlElement, name: string) => element.children.find((c) => c.name === name)!;
+const entries = (feed: XmlElement) => feed.children.filter((c) => c.name === 'entry');
+
+describe('Disaster ATOM feed', () => {
+	it('lists entries newest first and stamps the feed with the latest observation', () => {
+		const feed = parseXml(disasterAtomFeed([flood, quake, fire], options, now));
+
+		expect(feed.attributes.xmlns).toBe('http://www.w3.org/2005/Atom');
+		expect(child(feed, 'updated').text).toBe('2026-09-02T06:00:00.000Z');
+		expect(entries(feed).map((entry) => child(entry, 'updated').text)).toEqual([
+			'2026-09-02T06:00:00.000Z',
+			'2026-09-02T03:19:53.000Z',
+			'2026-08-20T00:00:00.000Z',
+		]);
+	});
+
+	it('keeps entry ids stable across observations of the same event', () => {
+		const moved = { ...fire, lat: 37.4, date: '2026-09-03T06:00:00Z' };
+		expect(feedEntryId(moved)).toBe(feedEntryId(fire));
+		expect(feedEntryId(quake)).toBe('urn:aegismap:disaster:us7000abcd');
+	});
+
+	it('links each entry to the frontend with the event selected', () => {
+		const [quakeEntry] = entries(parseXml(disasterAtomFeed([quake], options, now)));
+		const links = quakeEntry.children.filter((c) => c.name === 'link').map((link) => link.attributes);
+
+		expect(links).toEqual([
+			{ rel: 'alternate', type: 'text/html', href: 'https://maps.example.org/aegis-map/?event=us7000abcd' },
+			{ rel: 'related', type: 'text/html', href: 'https://www.gdacs.org/report.aspx?eventtype=EQ&eventid=1' },
+		]);
+	});
+
+	it('escapes titles and caps the number of entries', () => {
+		const [fireEntry] = entries(parseXml(disasterAtomFeed([fire], options, now)));
+		expect(child(fireEntry, 'title').text).toBe('Creek Fire <Fresno & Madera>');
+
+		const many = Array.from({ length: FEED_MAX_ENTRIES + 5 }, (_, i) => ({ ...flood, id: `GDACS_FL${i}` }));
+		expect(entries(parseXml(disasterAtomFeed(many, options, now)))).toHaveLength(FEED_MAX_ENTRIES);
+	});
+
+	it('is a valid empty feed stamped with the current time', () => {
+		const feed = parseXml(disasterAtomFeed([], options, now));
+		expect(entries(feed)).toHaveLength(0);
+		expect(child(feed, 'updated').text).toBe(now.toISOString());
+	});
+
+	it('falls back to the default frontend when FRONTEND_URL is malformed', () => {
+		expect(feedFrontendUrl('https://eamaster.github.io/aegis-map/', 'https://api.example.org')).toBe('https://eamaster.github.io/aegis-map/');
+		for (const configured of [undefined, '', 'eamaster.github.io/aegis-map', 'javascript:alert(1)']) {
+			expect(feedFrontendUrl(configured, 'https://api.example.org'), configured).toBe('https://api.example.org');
+		}
+	});
+
+	it('rejects invalid filters', async () => {
+		for (const query of ['type=tornado', 'minSeverity=extreme', 'bbox=1,2,3']) {
+			const response = await SELF.fetch(`http://example.com/api/feed.atom?${query}`);
+			expect(response.status, query).toBe(400);
+		}
+	});
+});
@@ -0,0 +1,144 @@
+import { env } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import type { FireHotspot } from '../src/firms';
+import { parseFirmsCsv } from '../src/firms-csv';
+import { assignClusterIds, clusterHotspots, clusterToDisaster, firmsSource, mergeFireClusters } from '../src/sources/firms';
+import type { Disaster } from '../src/types';
+import firmsSample from './fixtures/firms-sample.csv?raw';
+
+const now = new Date('2026-01-20T12:00:00Z');
+
+// The fixture is one fire front near Los Angeles (five detections within ~2 km, 09:28-09:32 UTC)
+const sample = parseFirmsCsv(firmsSample).hotspots;
+
+const detection = (latitude: number, longitude: number, acq_date = '2026-01-20', acq_time = '0930'): FireHotspot =>
+	({ latitude, longitude, acq_date, acq_time, confidence: 'n', frp: 10 }) as FireHotspot;
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+const eonetFire: Disaster = {
+	id: 'EONET_15000',
+	type: 'fire',
+	title: 'Palisades Fire',
+	lat: 34.07,
+	lng: -118.54,
+	date: '2026-01-19T00:00:00Z',
+	severity: 'high',
+};
+
+describe('FIRMS fire clustering', () => {
+	it('groups nearby simultaneous detections into one cluster', () => {
+		const clusters = clusterHotspots(sample);
+
+		expect(clusters).toHaveLength(1);
+		expect(clusters[0].hotspots).toHaveLength(5);
+		expect(clusters[0].lat).toBeCloseTo(34.0551, 3);
+		expect(clusters[0].firstDetected).toBe('2026-01-20T09:28:00.000Z');
+		expect(clusters[0].lastDetected).toBe('2026-01-20T09:32:00.000Z');
+	});
+
+	it('drops isolated detections as noise', () => {
+		const clusters = clusterHotspots([...sample, detection(-3.1, 25.4), detection(-3.4, 25.9)]);
+		expect(clusters.map((cluster) => cluster.hotspots.length)).toEqual([5]);
+	});
+
+	it('splits detections of the same place that are too far apart in time', () => {
+		const morning = [detection(10, 20), detection(10.001, 20), detection(10, 20.001)];
+		const nextDay = morning.map((hotspot) => ({ ...hotspot, acq_date: '2026-01-21' }));
+		expect(clusterHotspots([...morning, ...nextDay])).toHaveLength(2);
+	});
+
+	it('chains detections along a fire front longer than the neighbour distance', () => {
+		const front = Array.from({ length: 10 }, (_, i) => detection(10, 20 + i * 0.02)); // ~2.2 km apart, ~20 km long
+		expect(clusterHotspots(front)).toHaveLength(1);
+	});
+});
+
+describe('FIRMS cluster records', () => {
+	it('becomes an unconfirmed fire scored from its detections', () => {
+		const disaster = clusterToDisaster(clusterHotspots(sample)[0], 'FIRMS_34.1_-118.2_20260120', now);
+
+		expect(disaster).toMatchObject({
+			id: 'FIRMS_34.1_-118.2_20260120',
+			type: 'fire',
+			title: 'Unconfirmed fire (5 FIRMS detections)',
+			date: '2026-01-20T09:32:00.000Z',
+			unconfirmed: true,
+			fireCluster: { count: 5, highConfidence: 3, clusters: 1, maxFrp: 52.3 },
+		});
+		expect(disaster.severityReasons).toContain('5 FIRMS hotspots nearby (3 high confidence)');
+		expect(disaster.severityReasons).toContain('Unconfirmed: FIRMS detections only, not yet listed by EONET');
+	});
+
+	it('attaches to the nearest confirmed fire and is emitted on its own otherwise', () => {
+		const nearby = clusterToDisaster(clusterHotspots(sample)[0], 'FIRMS_34.1_-118.2_20260120', now);
+		const remote = clusterToDisaster(clusterHotspots([detection(-3.1, 25.4), detection(-3.1, 25.401), detection(-3.101, 25.4)])[0], 'FIRMS_-3.1_25.4_20260120', now);
+
+		const merged = mergeFireClusters([{ ...eonetFire }], [nearby, remote]);
+
+		expect(merged.map((d) => d.id)).toEqual(['EONET_15000', remote.id]);
+		expect(merged[0].fireCluster).toMatchObject({ count: 5, clusters: 1, lastDetected: '2026-01-20T09:32:00.000Z' });
+		expect(merged[0].unconfirmed).toBeUndefined();
+	});
+
+	it('re-scores the fire it attaches to, raising its severity only', () => {
+		const nearby = clusterToDisaster(clusterHotspots(sample)[0], 'FIRMS_34.1_-118.2_20260120', now);
+		const quiet: Disaster = { ...eonetFire, severity: 'low', severityScore: 20, severityReasons: ['GDACS Green alert'] };
+		const scored: Disaster = { ...eonetFire, severityScore: 95, severityReasons: ['150,000 acres burned'] };
+
+		const [raised] = mergeFireClusters([quiet], [nearby], now);
+		expect(raised.severityScore).toBeGreaterThan(20);
+		expect(raised.severityReasons).toContain('5 FIRMS hotspots nearby (3 high confidence)');
+		expect(raised.severityReasons).toContain('GDACS Green alert');
+
+		const [kept] = mergeFireClusters([scored], [nearby], now);
+		expect(kept).toMatchObject({ severity: 'high', severityScore: 95, severityReasons: ['150,000 acres burned'] });
+	});
+
+	it('contributes nothing without a FIRMS map key', async () => {
+		const ctx = { env: { FIRMS_MAP_KEY: 'YOUR_FIRMS_MAP_KEY_HERE' }, query: { window: 'day', minMagnitude: 2.5 } };
+		expect(await firmsSource.normalize(await firmsSource.fetch(ctx), ctx)).toEqual([]);
+	});
+
+	it('flags the FIRMS quota window when the global download is rate limited', async () => {
+		vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('Too Many Requests', { status: 429 }));
+		const ctx = { env: { FIRMS_MAP_KEY: 'abc123', AEGIS_CACHE: env.AEGIS_CACHE }, query: { window: 'day', minMagnitude: 2.5 } };
+
+		await expect(firmsSource.fetch(ctx)).rejects.toMatchObject({ quotaExceeded: true });
+		expect((await env.AEGIS_CACHE.list({ prefix: 'firms-quota:' })).keys).toHaveLength(1);
+	});
+});
+
+describe('FIRMS cluster ids', () => {
+	const tomorrow = new Date('2026-01-21T12:00:00Z');
+
+	it('is named after the snapped centroid and the day it was first detected', () => {
+		const { ids, registry } = assignClusterIds(clusterHotspots(sample), {}, now);
+
+		expect(ids).toEqual(['FIRMS_34.1_-118.2_20260120']);
+		expect(registry).toEqual({ 'FIRMS_34.1_-118.2_20260120': { lat: 34.0551, lng: expect.any(Number), lastSeen: now.toISOString() } });
+	});
+
+	it('keeps its id once the earliest detections leave the one-day window', () => {
+		const { registry } = assignClusterIds(clusterHotspots(sample), {}, now);
+		// The next day's download: the fire has moved ~3 km east and none of yesterday's detections remain
+		const nextDay = clusterHotspots(sample.map((hotspot) => ({ ...hotspot, longitude: hotspot.longitude + 0.03, acq_date: '2026-01-21' })));
+
+		expect(assignClusterIds(nextDay, registry, tomorrow).ids).toEqual(['FIRMS_34.1_-118.2_20260120']);
+	});
+
+	it('never hands the same id to two clusters', () => {
+		const east = [detection(34.06, -118.2), detection(34.061, -118.2), detection(34.06, -118.201)];
+		const { ids } = assignClusterIds(clusterHotspots([...sample, ...east]), {}, now);
+
+		// Both centroids snap to the same cell on the same day; the larger cluster gets the plain id
+		expect(ids).toEqual(['FIRMS_34.1_-118.2_20260120', 'FIRMS_34.1_-118.2_20260120_2']);
+	});
+
+	it('forgets clusters that have not been seen for a while', () => {
+		const stale = { FIRMS_10_20_20260101: { lat: 10, lng: 20, lastSeen: '2026-01-01T00:00:00.000Z' } };
+		expect(assignClusterIds([], stale, now).registry).toEqual({});
+	});
+});
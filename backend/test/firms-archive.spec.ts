@@ -0,0 +1,77 @@
+import { SELF } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { DEFAULT_FIRMS_SOURCES } from '../src/firms';
+import { cachedFireDetectionsForRange, FIRMS_RANGE_CONCURRENCY, firmsRangeChunks, parseFirmsDateRange } from '../src/firms-archive';
+import firmsSample from './fixtures/firms-sample.csv?raw';
+
+const now = new Date('2026-03-15T12:00:00Z');
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('FIRMS date ranges', () => {
+	it('defaults to today and validates the dates', () => {
+		expect(parseFirmsDateRange('2026-02-20', undefined, now)).toEqual({ from: '2026-02-20', to: '2026-03-15' });
+		expect(parseFirmsDateRange('2025-06-01', '2025-08-31', now)).toEqual({ from: '2025-06-01', to: '2025-08-31' });
+
+		for (const [from, to] of [
+			['2026-02-30', undefined],
+			['20260220', undefined],
+			['2026-03-01', '2026-02-28'],
+			['2026-03-01', '2026-03-16'],
+			['2000-10-31', '2000-11-10'],
+			['2025-06-01', '2025-09-02'],
+		]) {
+			expect(parseFirmsDateRange(from!, to, now), `${from}..${to}`).toHaveProperty('error');
+		}
+	});
+
+	it('splits a range into aligned chunks, archive products before the NRT window', () => {
+		expect(firmsRangeChunks({ from: '2026-02-20', to: '2026-03-15' }, now)).toEqual([
+			{ date: '2026-02-16', days: 10, archive: true },
+			{ date: '2026-02-26', days: 8, archive: true },
+			{ date: '2026-03-06', days: 2, archive: false },
+			{ date: '2026-03-08', days: 8, archive: false },
+		]);
+	});
+
+	it('reuses the same chunks for overlapping ranges', () => {
+		const season = firmsRangeChunks({ from: '2025-07-01', to: '2025-08-31' }, now);
+		const august = firmsRangeChunks({ from: '2025-08-03', to: '2025-08-20' }, now);
+
+		expect(season.every((chunk) => chunk.archive && chunk.days === 10)).toBe(true);
+		expect(season).toEqual(expect.arrayContaining(august));
+	});
+
+	it('rejects days combined with from/to and to without from', async () => {
+		for (const query of ['from=2026-01-01&days=7', 'to=2026-01-10', 'from=2026-13-01', 'page=0', 'pageSize=5001']) {
+			const response = await SELF.fetch(`http://example.com/api/fire-hotspots?lat=34&lng=-118&${query}`);
+			expect(response.status, query).toBe(400);
+		}
+	});
+});
+
+describe('FIRMS range fetches', () => {
+	it('fetches a few chunks at a time and leaves NOAA-21 out of archive chunks', async () => {
+		let inFlight = 0;
+		let maxInFlight = 0;
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => {
+			maxInFlight = Math.max(maxInFlight, ++inFlight);
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			inFlight--;
+			return new Response(firmsSample);
+		});
+
+		const area = { lat: 34, lng: -118, radiusKm: 25, sources: DEFAULT_FIRMS_SOURCES };
+		const { value } = await cachedFireDetectionsForRange(undefined, 'key', area, { from: '2026-01-01', to: '2026-03-15' }, now);
+		const products = fetchSpy.mock.calls.map(([input]) => String(input).split('/')[7]);
+
+		// 7 archive chunks × 2 products, then 2 NRT chunks × 3 products
+		expect(products).toHaveLength(20);
+		expect(products.filter((product) => product === 'VIIRS_NOAA21_NRT')).toHaveLength(2);
+		expect(products.some((product) => product.startsWith('VIIRS_NOAA21') && product !== 'VIIRS_NOAA21_NRT')).toBe(false);
+		expect(maxInFlight).toBeLessThanOrEqual(FIRMS_RANGE_CONCURRENCY * DEFAULT_FIRMS_SOURCES.length);
+		expect(value.unavailableSources).toEqual([]);
+	});
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { FirmsResponseError, normalizeConfidence, parseFirmsCsv, splitCsvLine } from '../src/firms-csv';
+import firmsEmpty from './fixtures/firms-empty.csv?raw';
+import firmsInvalidKey from './fixtures/firms-invalid-key.csv?raw';
+import firmsMalformed from './fixtures/firms-malformed.csv?raw';
+import firmsModis from './fixtures/firms-modis.csv?raw';
+import firmsQuota from './fixtures/firms-quota.csv?raw';
+import firmsReordered from './fixtures/firms-reordered.csv?raw';
+import firmsSample from './fixtures/firms-sample.csv?raw';
+import firmsSingle from './fixtures/firms-single.csv?raw';
+
+// The error parseFirmsCsv throws for a response body
+const failure = (csv: string) => {
+	try {
+		parseFirmsCsv(csv);
+	} catch (error) {
+		return error;
+	}
+};
+
+describe('FIRMS CSV parsing', () => {
+	it('reads every row of a well-formed VIIRS response', () => {
+		const { hotspots, skipped } = parseFirmsCsv(firmsSample);
+
+		expect(skipped).toEqual([]);
+		expect(hotspots).toHaveLength(5);
+		expect(hotspots[0]).toEqual({
+			latitude: 34.0546,
+			longitude: -118.2426,
+			bright_ti4: 320.5,
+			scan: 1.2,
+			track: 1.1,
+			acq_date: '2026-01-20',
+			acq_time: '0930',
+			satellite: 'N',
+			confidence: 'h',
+			version: '1.0NRT',
+			bright_ti5: 298.3,
+			frp: 45.6,
+			daynight: 'D',
+			sensor: 'viirs-snpp',
+		});
+	});
+
+	it('handles a single detection and a header-only response', () => {
+		expect(parseFirmsCsv(firmsSingle).hotspots.map((h) => [h.latitude, h.frp])).toEqual([[40.1234, 68.9]]);
+		expect(parseFirmsCsv(firmsEmpty)).toEqual({ hotspots: [], skipped: [] });
+	});
+
+	it('tags detections with the product sensor', () => {
+		expect(parseFirmsCsv(firmsSample, 'VIIRS_NOAA20_NRT').hotspots[0].sensor).toBe('viirs-noaa20');
+	});
+
+	it('maps MODIS brightness columns and percent confidence onto the VIIRS fields', () => {
+		const { hotspots } = parseFirmsCsv(firmsModis, 'MODIS_NRT');
+		expect(hotspots.map((h) => [h.bright_ti4, h.bright_ti5, h.confidence, h.sensor])).toEqual([
+			[331.4, 299.8, 'h', 'modis'],
+			[318.9, 296.4, 'n', 'modis'],
+			[305.2, 293.0, 'l', 'modis'],
+		]);
+	});
+
+	it('bands MODIS confidence at 30 and 80 percent', () => {
+		expect(['0', '29', '30', '79', '80', '100', 'nominal', 'H', '101', 'x'].map(normalizeConfidence)).toEqual([
+			'l',
+			'l',
+			'n',
+			'n',
+			'h',
+			'h',
+			'n',
+			'h',
+			null,
+			null,
+		]);
+	});
+
+	it('maps columns by header name, with quoted fields and CRLF line endings', () => {
+		const { hotspots, skipped } = parseFirmsCsv(firmsReordered, 'MODIS_NRT');
+
+		expect(skipped).toEqual([]);
+		expect(hotspots.map((h) => [h.latitude, h.longitude, h.frp, h.bright_ti4, h.confidence, h.acq_time, h.satellite])).toEqual([
+			[34.0547, -118.2427, 61.2, 331.4, 'h', '955', 'Terra, MODIS'],
+			[34.07, -118.21, 22.7, 318.9, 'n', '0955', 'T "A"'],
+		]);
+		// Columns this product does not report
+		expect(hotspots[0].scan).toBeNaN();
+		expect(hotspots[0].version).toBe('');
+	});
+
+	it('splits quoted commas and escaped quotes', () => {
+		expect(splitCsvLine('1, "a, b" ,"say ""hi""",')).toEqual(['1', 'a, b', 'say "hi"', '']);
+	});
+});
+
+describe('FIRMS CSV validation', () => {
+	it('skips and reports rows with invalid values', () => {
+		const { hotspots, skipped } = parseFirmsCsv(firmsMalformed);
+
+		expect(hotspots.map((h) => h.latitude)).toEqual([34.0546]);
+		expect(skipped).toEqual([
+			{ line: 3, reason: 'invalid latitude "95.1"' },
+			{ line: 4, reason: 'expected 13 fields, got 12' },
+			{ line: 5, reason: 'invalid acq_date "20/01/2026"' },
+			{ line: 6, reason: 'invalid confidence "x"' },
+			{ line: 7, reason: 'invalid brightness "nan"' },
+			{ line: 8, reason: 'invalid acq_time "2575"' },
+			{ line: 9, reason: 'invalid frp "-4"' },
+		]);
+	});
+
+	it('recognises FIRMS error messages', () => {
+		expect(() => parseFirmsCsv(firmsInvalidKey)).toThrow(FirmsResponseError);
+		expect(() => parseFirmsCsv(firmsInvalidKey)).toThrow('Invalid MAP_KEY');
+		expect(() => parseFirmsCsv('')).toThrow('Empty response');
+		expect(() => parseFirmsCsv('<html><body><h1>502 Bad Gateway</h1></body></html>')).toThrow('502 Bad Gateway');
+	});
+
+	it('flags an exceeded transaction limit', () => {
+		expect(failure(firmsQuota)).toMatchObject({ name: 'FirmsResponseError', quotaExceeded: true });
+		expect(failure(firmsInvalidKey)).toMatchObject({ quotaExceeded: false });
+	});
+
+	it('rejects a header without the hotspot columns', () => {
+		expect(() => parseFirmsCsv('latitude,longitude,acq_date\n34,-118,2026-01-20\n')).toThrow(
+			'missing column(s) bright_ti4, acq_time, confidence, frp'
+		);
+	});
+});
@@ -0,0 +1,201 @@
+import { env, SELF } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import {
+	acquireFirmsQuota,
+	dedupeHotspots,
+	DEFAULT_FIRMS_SOURCES,
+	exhaustFirmsQuota,
+	FIRMS_QUOTA,
+	fireHotspotReport,
+	fetchFireHotspots,
+	fireHotspotsCacheKey,
+	parseFirmsRange,
+	parseFirmsSources,
+	radiusBBoxes,
+	snapFirmsArea,
+} from '../src/firms';
+import { parseFirmsCsv } from '../src/firms-csv';
+import firmsModis from './fixtures/firms-modis.csv?raw';
+import firmsSample from './fixtures/firms-sample.csv?raw';
+
+// The MODIS fixture sees the same LA fire 25 minutes after the VIIRS fixture: its first row is the same pixel
+const viirs = parseFirmsCsv(firmsSample).hotspots;
+const modis = parseFirmsCsv(firmsModis, 'MODIS_NRT').hotspots;
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('Cross-sensor de-duplication', () => {
+	it('keeps the VIIRS detection of a pixel MODIS saw within the hour', () => {
+		const merged = dedupeHotspots([...modis, ...viirs]);
+
+		expect(merged).toHaveLength(viirs.length + modis.length - 1);
+		expect(merged.filter((h) => h.sensor === 'modis').map((h) => h.bright_ti4)).toEqual([318.9, 305.2]);
+	});
+
+	it('keeps a later pass over the same pixel', () => {
+		const nextPass = modis.map((h) => ({ ...h, acq_time: '1930' }));
+		expect(dedupeHotspots([...viirs, ...nextPass])).toHaveLength(viirs.length + modis.length);
+	});
+
+	it('matches within a wide MODIS pixel at the scan edge, at any latitude', () => {
+		// 4.8 km along the scan: the VIIRS pixel 4.5 km east (two 0.02° cells away) is the same fire
+		for (const latitude of [0.01, 34.05, 64.8]) {
+			const edge = { ...modis[0], latitude, longitude: 20, scan: 4.8, track: 2 };
+			const east = { ...viirs[0], latitude, longitude: 20 + 4.5 / (111.19 * Math.cos((latitude * Math.PI) / 180)), acq_time: edge.acq_time };
+			const beyond = { ...east, longitude: 20 + 5.5 / (111.19 * Math.cos((latitude * Math.PI) / 180)) };
+
+			expect(dedupeHotspots([edge, east]).map((h) => h.sensor), `${latitude}`).toEqual([east.sensor]);
+			expect(dedupeHotspots([edge, beyond]), `${latitude}`).toHaveLength(2);
+		}
+	});
+
+	it('never merges detections from the same sensor', () => {
+		expect(dedupeHotspots([...viirs, ...viirs.map((h) => ({ ...h }))])).toHaveLength(viirs.length * 2);
+	});
+});
+
+describe('FIRMS sources parameter', () => {
+	it('defaults to every VIIRS satellite', () => {
+		expect(parseFirmsSources(undefined)).toEqual(DEFAULT_FIRMS_SOURCES);
+		expect(parseFirmsSources('modis_nrt, VIIRS_SNPP_NRT')).toEqual(['MODIS_NRT', 'VIIRS_SNPP_NRT']);
+	});
+
+	it('caches non-default product sets separately', () => {
+		const area = { lat: 34.1, lng: -118.2, radiusKm: 65, days: 7, sources: DEFAULT_FIRMS_SOURCES };
+
+		expect(fireHotspotsCacheKey(area)).toBe('firms:34.1:-118.2:65km:7d');
+		expect(fireHotspotsCacheKey({ ...area, sources: [...DEFAULT_FIRMS_SOURCES].reverse() })).toBe('firms:34.1:-118.2:65km:7d');
+		expect(fireHotspotsCacheKey({ ...area, sources: ['MODIS_NRT'] })).toBe('firms:34.1:-118.2:65km:7d:MODIS_NRT');
+	});
+
+	it('rejects unknown products', async () => {
+		expect(parseFirmsSources('VIIRS_SNPP_NRT,GOES_NRT')).toHaveProperty('error');
+
+		const response = await SELF.fetch('http://example.com/api/fire-hotspots?lat=34&lng=-118&sources=GOES_NRT');
+		expect(response.status).toBe(400);
+		expect(((await response.json()) as { error: string }).error).toContain('GOES_NRT');
+	});
+});
+
+describe('FIRMS area', () => {
+	it('widens the box in longitude away from the equator', () => {
+		const [[west, south, east, north]] = radiusBBoxes(60, 10, 55.66);
+
+		expect(north - south).toBeCloseTo(1, 3);
+		expect(east - west).toBeCloseTo(2, 1); // 1 / cos(60°)
+		const [[equatorWest, , equatorEast]] = radiusBBoxes(0, 10, 55.66);
+		expect(equatorEast - equatorWest).toBeCloseTo(1, 3);
+	});
+
+	it('spans every longitude at the poles', () => {
+		expect(radiusBBoxes(89.9, 0, 100)).toEqual([[-180, expect.closeTo(89.0, 1), 180, 90]]);
+	});
+
+	it('splits a box crossing the antimeridian into one on each side', () => {
+		expect(radiusBBoxes(0, 179.9, 55.66)).toEqual([
+			[179.4, -0.5, 180, 0.5],
+			[-180, -0.5, -179.6, 0.5],
+		]);
+		expect(radiusBBoxes(0, -179.9, 55.66)).toEqual([
+			[-180, -0.5, -179.4, 0.5],
+			[179.6, -0.5, 180, 0.5],
+		]);
+	});
+
+	it('fetches both sides of the antimeridian and keeps the detections across it', async () => {
+		const csv = (longitude: number) =>
+			`latitude,longitude,bright_ti4,scan,track,acq_date,acq_time,satellite,confidence,version,bright_ti5,frp,daynight\n-16.5,${longitude},330,0.4,0.4,2026-01-20,0930,N,n,2.0NRT,290,12.5,D\n`;
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) =>
+			new Response(csv(String(input).includes('/-180,') ? -179.95 : 179.95))
+		);
+
+		const detections = await fetchFireHotspots(undefined, 'abc123', { lat: -16.5, lng: 179.9, radiusKm: 30, days: 1, sources: ['VIIRS_SNPP_NRT'] });
+
+		expect(fetchSpy).toHaveBeenCalledTimes(2);
+		expect(detections.hotspots.map((hotspot) => hotspot.longitude).sort()).toEqual([-179.95, 179.95]);
+	});
+
+	it('snaps nearby requests onto one cache cell that covers each of them', () => {
+		const first = snapFirmsArea({ lat: 34.052, lng: -118.243, radiusKm: 55, days: 7, sources: DEFAULT_FIRMS_SOURCES });
+		const second = snapFirmsArea({ lat: 34.071, lng: -118.219, radiusKm: 55, days: 7, sources: DEFAULT_FIRMS_SOURCES });
+
+		expect(fireHotspotsCacheKey(first)).toBe('firms:34.1:-118.2:65km:7d');
+		expect(fireHotspotsCacheKey(second)).toBe(fireHotspotsCacheKey(first));
+	});
+
+	it('trims cached detections to the requested radius', () => {
+		const far = { ...viirs[0], latitude: 34.6 }; // ~60 km north
+		const report = fireHotspotReport(
+			{ hotspots: [...viirs, far], duplicatesRemoved: 0, unavailableSources: [], skippedRows: 0 },
+			{ lat: 34.0522, lng: -118.2437, radiusKm: 55, days: 7 },
+			{ from: '2026-01-14', to: '2026-01-21' }
+		);
+
+		expect(report).toMatchObject({ totalCount: 5, highConfidence: 3, maxPower: 52.3, sensors: { 'viirs-snpp': 5 }, radiusKm: 55, days: 7 });
+	});
+
+	it('counts detections and FRP per day and pages through them', () => {
+		const earlier = viirs.slice(0, 2).map((h) => ({ ...h, acq_date: '2026-01-18' }));
+		const detections = { hotspots: [...viirs, ...earlier], duplicatesRemoved: 0, unavailableSources: [], skippedRows: 0 };
+		const area = { lat: 34.0522, lng: -118.2437, radiusKm: 55, days: 4 };
+		const range = { from: '2026-01-17', to: '2026-01-20' };
+
+		const report = fireHotspotReport(detections, area, range, { page: 2, pageSize: 3 });
+
+		expect(report.daily).toEqual([
+			{ date: '2026-01-17', count: 0, totalFrp: 0 },
+			{ date: '2026-01-18', count: 2, totalFrp: 83.8 },
+			{ date: '2026-01-19', count: 0, totalFrp: 0 },
+			{ date: '2026-01-20', count: 5, totalFrp: 210.9 },
+		]);
+		expect(report).toMatchObject({ totalCount: 7, page: 2, pageSize: 3, totalPages: 3, from: '2026-01-17', to: '2026-01-20' });
+		// Oldest first: the two detections of the 18th and the 0928 pass fill the first page
+		expect(report.hotspots.map((h) => h.acq_time)).toEqual(['0929', '0930', '0931']);
+	});
+
+	it('validates radiusKm and days', async () => {
+		expect(parseFirmsRange(undefined, undefined)).toEqual({ radiusKm: 55, days: 7 });
+		expect(parseFirmsRange('120.5', '10')).toEqual({ radiusKm: 120.5, days: 10 });
+
+		for (const query of ['radiusKm=0', 'radiusKm=251', 'radiusKm=abc', 'days=0', 'days=11', 'days=2.5']) {
+			const response = await SELF.fetch(`http://example.com/api/fire-hotspots?lat=34&lng=-118&${query}`);
+			expect(response.status, query).toBe(400);
+		}
+	});
+});
+
+describe('FIRMS quota limiter', () => {
+	const window = Date.parse('2026-01-20T09:30:00Z');
+
+	it('stops at the budget for the rest of the window', async () => {
+		await acquireFirmsQuota(env.AEGIS_CACHE, FIRMS_QUOTA.budget - 1, window);
+		await acquireFirmsQuota(env.AEGIS_CACHE, 1, window + 1000);
+
+		await expect(acquireFirmsQuota(env.AEGIS_CACHE, 1, window + 2000)).rejects.toMatchObject({ quotaExceeded: true });
+		await expect(acquireFirmsQuota(env.AEGIS_CACHE, 1, window + FIRMS_QUOTA.windowSeconds * 1000)).resolves.toBeUndefined();
+	});
+
+	it('counts parallel reservations in memory without writing KV', async () => {
+		const later = window + 5 * FIRMS_QUOTA.windowSeconds * 1000;
+		const results = await Promise.allSettled(Array.from({ length: 50 }, () => acquireFirmsQuota(env.AEGIS_CACHE, 100, later)));
+
+		expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(FIRMS_QUOTA.budget / 100);
+		expect((await env.AEGIS_CACHE.list({ prefix: 'firms-quota:' })).keys).toHaveLength(0);
+	});
+
+	it('blocks the window after FIRMS reports the quota exceeded', async () => {
+		const later = window + 10 * FIRMS_QUOTA.windowSeconds * 1000;
+		await exhaustFirmsQuota(env.AEGIS_CACHE, later);
+
+		await expect(acquireFirmsQuota(env.AEGIS_CACHE, 1, later)).rejects.toMatchObject({ name: 'FirmsResponseError' });
+	});
+
+	it('backs off when another isolate flagged the window exhausted', async () => {
+		const later = window + 20 * FIRMS_QUOTA.windowSeconds * 1000;
+		await env.AEGIS_CACHE.put(`firms-quota:${Math.floor(later / (FIRMS_QUOTA.windowSeconds * 1000))}`, 'exhausted');
+
+		await expect(acquireFirmsQuota(env.AEGIS_CACHE, 1, later)).rejects.toMatchObject({ quotaExceeded: true });
+	});
+});
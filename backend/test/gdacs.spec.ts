@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { mergeGdacsDisasters, parseGdacsGeoJson, parseGdacsRss } from '../src/sources/gdacs';
+import type { Disaster } from '../src/types';
+import gdacsRss from './fixtures/gdacs-rss.xml?raw';
+import gdacsEvents from './fixtures/gdacs-events.geojson?raw';
+import gdacsEmpty from './fixtures/gdacs-empty.geojson?raw';
+
+describe('GDACS parser', () => {
+	describe('RSS feed', () => {
+		const disasters = parseGdacsRss(gdacsRss);
+
+		it('parses supported event types and skips tsunamis', () => {
+			expect(disasters.map((d) => d.id)).toEqual(['GDACS_EQ1450001', 'GDACS_TC1001200', 'GDACS_FL1102330']);
+			expect(disasters.map((d) => d.type)).toEqual(['earthquake', 'storm', 'flood']);
+		});
+
+		it('maps alert levels onto severity', () => {
+			expect(disasters.map((d) => [d.alertLevel, d.severity])).toEqual([
+				['green', 'low'],
+				['orange', 'medium'],
+				['red', 'high'],
+			]);
+		});
+
+		it('reads coordinates, latest date and report link', () => {
+			const cyclone = disasters[1];
+			expect(cyclone.lat).toBe(-18.4);
+			expect(cyclone.lng).toBe(55.1);
+			expect(cyclone.date).toBe('2026-01-20T06:00:00.000Z');
+			expect(cyclone.alertUrl).toBe('https://www.gdacs.org/report.aspx?eventtype=TC&eventid=1001200');
+			expect(cyclone.severityReasons).toEqual(['GDACS Orange alert', 'Tropical Storm (maximum wind speed of 148 km/h)']);
+		});
+
+		it('returns an empty list for a feed without items', () => {
+			expect(parseGdacsRss('<rss><channel></channel></rss>')).toEqual([]);
+		});
+	});
+
+	describe('GeoJSON event list', () => {
+		const disasters = parseGdacsGeoJson(JSON.parse(gdacsEvents));
+
+		it('uses point features only and skips unknown types and alert levels', () => {
+			expect(disasters.map((d) => d.id)).toEqual(['GDACS_EQ1450001', 'GDACS_VO1000150', 'GDACS_WF1020400']);
+		});
+
+		it('treats zone-less dates as UTC', () => {
+			expect(disasters[0].date).toBe('2026-01-20T03:12:04.000Z');
+		});
+
+		it('maps GeoJSON fields onto Disaster records', () => {
+			const volcano = disasters[1];
+			expect(volcano).toMatchObject({
+				type: 'volcano',
+				title: 'Etna',
+				lat: 37.75,
+				lng: 15,
+				severity: 'medium',
+				alertLevel: 'orange',
+				alertUrl: 'https://www.gdacs.org/report.aspx?eventid=1000150&episodeid=1000170&eventtype=VO',
+			});
+		});
+
+		it('handles an empty event list', () => {
+			expect(parseGdacsGeoJson(JSON.parse(gdacsEmpty))).toEqual([]);
+			expect(parseGdacsGeoJson(null)).toEqual([]);
+		});
+	});
+});
+
+describe('mergeGdacsDisasters', () => {
+	const usgsQuake = (): Disaster => ({
+		id: 'us7000abcd',
+		type: 'earthquake',
+		title: '110 km NNE of Ambon, Indonesia',
+		lat: -3.49,
+		lng: 128.25,
+		date: '2026-01-20T03:12:04.000Z',
+		severity: 'medium',
+		severityScore: 42,
+		severityReasons: ['Magnitude M5.1'],
+		magnitude: 5.1,
+	});
+
+	const eonetFire = (): Disaster => ({
+		id: 'EONET_9001',
+		type: 'fire',
+		title: 'Dixie Complex Fire',
+		lat: 40.1,
+		lng: -120.6,
+		date: '2026-01-19T12:00:00.000Z',
+		severity: 'medium',
+		severityScore: 50,
+		severityReasons: ['12,400 acres burned'],
+	});
+
+	const gdacs = () => parseGdacsGeoJson(JSON.parse(gdacsEvents));
+
+	it('annotates a matching record instead of adding a duplicate', () => {
+		const merged = mergeGdacsDisasters([usgsQuake()], gdacs());
+		const quake = merged.find((d) => d.id === 'us7000abcd')!;
+
+		expect(merged.some((d) => d.id === 'GDACS_EQ1450001')).toBe(false);
+		expect(quake.alertLevel).toBe('green');
+		expect(quake.severityReasons).toContain('GDACS Green alert');
+	});
+
+	it('never lowers severity for a green alert', () => {
+		const [quake] = mergeGdacsDisasters([usgsQuake()], gdacs());
+		expect(quake.severity).toBe('medium');
+		expect(quake.severityScore).toBe(42);
+	});
+
+	it('raises severity for a red alert', () => {
+		const fire = mergeGdacsDisasters([eonetFire()], gdacs()).find((d) => d.id === 'EONET_9001')!;
+		expect(fire.alertLevel).toBe('red');
+		expect(fire.severity).toBe('high');
+		expect(fire.severityScore).toBe(80);
+	});
+
+	it('keeps events outside the distance or time window separate', () => {
+		const farQuake = { ...usgsQuake(), lat: 0, lng: 120 };
+		const oldQuake = { ...usgsQuake(), date: '2026-01-19T03:12:04.000Z' };
+
+		expect(mergeGdacsDisasters([farQuake], gdacs()).map((d) => d.id)).toContain('GDACS_EQ1450001');
+		expect(mergeGdacsDisasters([oldQuake], gdacs()).map((d) => d.id)).toContain('GDACS_EQ1450001');
+	});
+
+	it('only matches records of the same type', () => {
+		const volcanoAtFire = { ...eonetFire(), type: 'volcano' as const };
+		const merged = mergeGdacsDisasters([volcanoAtFire], gdacs());
+		expect(merged.map((d) => d.id)).toContain('GDACS_WF1020400');
+		expect(volcanoAtFire.alertLevel).toBeUndefined();
+	});
+});
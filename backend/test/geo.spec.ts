@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { filterByArea, haversineKm, inBBox, parseBBox, parseLatLng } from '../src/geo';
+
+const places = [
+	{ id: 'sf', lat: 37.77, lng: -122.42 },
+	{ id: 'la', lat: 34.05, lng: -118.24 },
+	{ id: 'fiji', lat: -17.8, lng: 178.0 },
+	{ id: 'samoa', lat: -13.8, lng: -172.1 },
+];
+
+describe('bbox helpers', () => {
+	it('parses and validates west,south,east,north', () => {
+		expect(parseBBox('-125,32,-114,42')).toEqual([-125, 32, -114, 42]);
+		expect(parseBBox('-125,32,-114')).toBeNull();
+		expect(parseBBox('-125,42,-114,32')).toBeNull();
+		expect(parseBBox('-190,32,-114,42')).toBeNull();
+		expect(parseBBox('a,b,c,d')).toBeNull();
+	});
+
+	it('wraps across the antimeridian when west > east', () => {
+		const pacific = parseBBox('170,-20,-170,0')!;
+		expect(inBBox(-10, 175, pacific)).toBe(true);
+		expect(inBBox(-10, -175, pacific)).toBe(true);
+		expect(inBBox(-10, 0, pacific)).toBe(false);
+	});
+});
+
+describe('filterByArea', () => {
+	it('parses lat,lng', () => {
+		expect(parseLatLng('37.77,-122.42')).toEqual({ lat: 37.77, lng: -122.42 });
+		expect(parseLatLng('95,0')).toBeNull();
+		expect(parseLatLng('37.77')).toBeNull();
+	});
+
+	it('measures great-circle distance', () => {
+		// San Francisco to Los Angeles is ~559 km
+		expect(haversineKm(37.77, -122.42, 34.05, -118.24)).toBeCloseTo(559, -1);
+	});
+
+	it('filters by an antimeridian bbox', () => {
+		const result = filterByArea(places, { bbox: [170, -25, -165, -5] });
+		expect(result.map((place) => place.id)).toEqual(['fiji', 'samoa']);
+	});
+
+	it('filters by radius and sorts nearest first', () => {
+		const result = filterByArea(places, { near: { lat: 34, lng: -118 }, radiusKm: 1000 });
+
+		expect(result.map((place) => place.id)).toEqual(['la', 'sf']);
+		expect(result[0].distanceKm).toBeLessThan(30);
+	});
+
+	it('measures distance across the antimeridian', () => {
+		// Fiji and Samoa are ~1,100 km apart, not ~39,000 km around the other way
+		const result = filterByArea(places, { near: { lat: -17.8, lng: 178.0 }, radiusKm: 1500 });
+		expect(result.map((place) => place.id)).toEqual(['fiji', 'samoa']);
+	});
+});
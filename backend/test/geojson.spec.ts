@@ -0,0 +1,95 @@
+import { env, SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import type { FireHotspot } from '../src/firms';
+import { disastersToGeoJson, GEOJSON_CONTENT_TYPE, hotspotsToGeoJson, wantsGeoJson } from '../src/geojson';
+import { archiveSnapshot } from '../src/history';
+import type { Disaster } from '../src/types';
+
+const quake: Disaster = {
+	id: 'us7000abcd',
+	type: 'earthquake',
+	title: 'M 4.6 - The Geysers, CA',
+	lat: 38.8,
+	lng: -122.76,
+	date: '2026-09-01T04:21:09.000Z',
+	severity: 'medium',
+	magnitude: 4.6,
+};
+
+const storm: Disaster = {
+	id: 'EONET_1',
+	type: 'storm',
+	title: 'Typhoon',
+	lat: 13.4,
+	lng: 128.9,
+	date: '2026-09-01T06:00:00Z',
+	severity: 'high',
+	track: [
+		{ lat: 12.1, lng: 130.5, date: '2026-08-31T00:00:00Z' },
+		{ lat: 13.4, lng: 128.9, date: '2026-09-01T06:00:00Z' },
+	],
+};
+
+describe('GeoJSON output', () => {
+	it('negotiates via format= first, then Accept', () => {
+		expect(wantsGeoJson('geojson', undefined)).toBe(true);
+		expect(wantsGeoJson('json', GEOJSON_CONTENT_TYPE)).toBe(false);
+		expect(wantsGeoJson(undefined, 'application/geo+json, application/json;q=0.9')).toBe(true);
+		expect(wantsGeoJson(undefined, 'application/json')).toBe(false);
+		expect(wantsGeoJson(undefined, undefined)).toBe(false);
+	});
+
+	it('converts disasters to Point features with a bbox', () => {
+		const collection = disastersToGeoJson([quake, storm]);
+
+		expect(collection.type).toBe('FeatureCollection');
+		expect(collection.bbox).toEqual([-122.76, 13.4, 128.9, 38.8]);
+		expect(collection.features[0]).toEqual({
+			type: 'Feature',
+			id: 'us7000abcd',
+			geometry: { type: 'Point', coordinates: [-122.76, 38.8] },
+			properties: {
+				id: 'us7000abcd',
+				type: 'earthquake',
+				title: 'M 4.6 - The Geysers, CA',
+				date: '2026-09-01T04:21:09.000Z',
+				severity: 'medium',
+				magnitude: 4.6,
+			},
+		});
+		// Position lives in the geometry and tracks stay behind /api/disasters/:id/track
+		expect(collection.features[1].properties).not.toHaveProperty('track');
+		expect(collection.features[1].properties).not.toHaveProperty('lat');
+	});
+
+	it('omits bbox for an empty collection', () => {
+		expect(disastersToGeoJson([])).toEqual({ type: 'FeatureCollection', features: [] });
+	});
+
+	it('converts FIRMS hotspots to Point features', () => {
+		const hotspot = { latitude: 34.1, longitude: -118.2, bright_ti4: 340.5, frp: 12.3, confidence: 'h' } as FireHotspot;
+		const collection = hotspotsToGeoJson([hotspot]);
+
+		expect(collection.features[0].geometry.coordinates).toEqual([-118.2, 34.1]);
+		expect(collection.features[0].properties).toMatchObject({ bright_ti4: 340.5, frp: 12.3, confidence: 'h' });
+		expect(collection.bbox).toEqual([-118.2, 34.1, -118.2, 34.1]);
+	});
+
+	it('serves application/geo+json from /api/disasters/history', async () => {
+		await archiveSnapshot(env.AEGIS_CACHE, [quake], new Date('2026-09-01T05:00:00Z'));
+
+		const response = await SELF.fetch('http://example.com/api/disasters/history?from=2026-09-01T00:00:00Z&to=2026-09-02T00:00:00Z', {
+			headers: { Accept: GEOJSON_CONTENT_TYPE },
+		});
+		const body = await response.json<any>();
+
+		expect(response.headers.get('Content-Type')).toBe(GEOJSON_CONTENT_TYPE);
+		expect(body).toMatchObject({ type: 'FeatureCollection', count: 1, bbox: [-122.76, 38.8, -122.76, 38.8] });
+		expect(body.features[0].properties).toMatchObject({ id: 'us7000abcd', firstSeen: '2026-09-01T05:00:00.000Z' });
+	});
+
+	it('rejects unknown formats', async () => {
+		const response = await SELF.fetch('http://example.com/api/disasters/history?format=kml');
+		expect(response.status).toBe(400);
+	});
+});
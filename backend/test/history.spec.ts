@@ -0,0 +1,59 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { archiveSnapshot, queryHistory } from '../src/history';
+import type { Disaster } from '../src/types';
+
+const kv = env.AEGIS_CACHE;
+
+const disaster = (id: string, overrides: Partial<Disaster> = {}): Disaster => ({
+	id,
+	type: 'earthquake',
+	title: `Event ${id}`,
+	lat: 38.8,
+	lng: -122.8,
+	date: '2026-09-01T00:00:00Z',
+	severity: 'medium',
+	...overrides,
+});
+
+describe('disaster history', () => {
+	it('merges day buckets and keeps the first/last sighting of each event', async () => {
+		await archiveSnapshot(kv, [disaster('swarm-1', { magnitude: 3.1 })], new Date('2026-09-01T10:00:00Z'));
+		await archiveSnapshot(kv, [disaster('swarm-1', { magnitude: 3.4 }), disaster('swarm-2')], new Date('2026-09-01T10:05:00Z'));
+		await archiveSnapshot(kv, [disaster('swarm-1', { magnitude: 3.4 }), disaster('fire-1', { type: 'fire', lat: 34, lng: -118 })], new Date('2026-09-02T08:00:00Z'));
+
+		const all = await queryHistory(kv, { from: new Date('2026-09-01T00:00:00Z'), to: new Date('2026-09-03T00:00:00Z') });
+
+		expect(all.map((event) => event.id)).toEqual(['swarm-1', 'swarm-2', 'fire-1']);
+		expect(all[0]).toMatchObject({ magnitude: 3.4, firstSeen: '2026-09-01T10:00:00.000Z', lastSeen: '2026-09-02T08:00:00.000Z' });
+	});
+
+	it('skips unchanged snapshots until lastSeen is an hour behind', async () => {
+		const range = { from: new Date('2026-09-05T00:00:00Z'), to: new Date('2026-09-06T00:00:00Z') };
+
+		expect(await archiveSnapshot(kv, [disaster('steady')], new Date('2026-09-05T10:00:00Z'))).toBe(true);
+		expect(await archiveSnapshot(kv, [disaster('steady')], new Date('2026-09-05T10:50:00Z'))).toBe(false);
+		expect((await queryHistory(kv, range))[0].lastSeen).toBe('2026-09-05T10:00:00.000Z');
+
+		expect(await archiveSnapshot(kv, [disaster('steady')], new Date('2026-09-05T11:00:00Z'))).toBe(true);
+		expect(await archiveSnapshot(kv, [disaster('steady', { severity: 'high' })], new Date('2026-09-05T11:10:00Z'))).toBe(true);
+		expect((await queryHistory(kv, range))[0]).toMatchObject({ severity: 'high', lastSeen: '2026-09-05T11:10:00.000Z' });
+	});
+
+	it('filters by time range, type and bbox', async () => {
+		await archiveSnapshot(kv, [disaster('quake'), disaster('fire', { type: 'fire', lat: 34, lng: -118 })], new Date('2026-09-10T12:00:00Z'));
+
+		const before = await queryHistory(kv, { from: new Date('2026-09-10T00:00:00Z'), to: new Date('2026-09-10T11:00:00Z') });
+		expect(before).toEqual([]);
+
+		const fires = await queryHistory(kv, { from: new Date('2026-09-10T00:00:00Z'), to: new Date('2026-09-11T00:00:00Z'), types: ['fire'] });
+		expect(fires.map((event) => event.id)).toEqual(['fire']);
+
+		const northCalifornia = await queryHistory(kv, {
+			from: new Date('2026-09-10T00:00:00Z'),
+			to: new Date('2026-09-11T00:00:00Z'),
+			bbox: [-124, 37, -120, 40],
+		});
+		expect(northCalifornia.map((event) => event.id)).toEqual(['quake']);
+	});
+});
@@ -0,0 +1,144 @@
+import { env, SELF } from 'cloudflare:test';
+import * as satellite from 'satellite.js';
+import { describe, it, expect } from 'vitest';
+import { parseTLEs, predictPasses, swathStatus, tleChecksum, type SatellitePass } from '../../shared/orbital';
+import { SATELLITE_NORAD_IDS } from '../../shared/satellites';
+import { parsePassQuery } from '../src/passes';
+import { TLE_CACHE_KEY } from '../src/tles';
+import ommJson from './fixtures/celestrak-omm.json?raw';
+import tles from './fixtures/tles.tle?raw';
+
+// Los Angeles, from the element set epoch
+const [lat, lng] = [34.0522, -118.2437];
+const start = new Date('2026-02-19T12:00:00Z');
+
+describe('Pass prediction', () => {
+	it('reads the NORAD id of each element set', () => {
+		expect(parseTLEs(tles).map((sat) => [sat.name, sat.noradId])).toEqual([
+			['LANDSAT 8', 39084],
+			['SENTINEL-2A', 40697],
+		]);
+	});
+
+	it('reports AOS, TCA and LOS of each pass in time order', () => {
+		const passes = predictPasses(tles, lat, lng, 25, { start });
+
+		expect(passes.length).toBeGreaterThan(0);
+		for (const pass of passes) {
+			expect(pass.aos.time.getTime()).toBeLessThan(pass.tca.time.getTime());
+			expect(pass.tca.time.getTime()).toBeLessThan(pass.los.time.getTime());
+			expect(pass.duration).toBe((pass.los.time.getTime() - pass.aos.time.getTime()) / 1000);
+			expect([pass.time, pass.elevation, pass.azimuth]).toEqual([pass.tca.time, pass.tca.elevation, pass.tca.azimuth]);
+			// AOS and LOS sit on the elevation mask (to the second)
+			expect(pass.aos.elevation).toBeCloseTo(25, 0);
+			expect(pass.los.elevation).toBeCloseTo(25, 0);
+			// The window starts at the element set epoch
+			expect(pass.tleEpoch).toEqual(start);
+			expect(pass.tleAgeDays).toBeCloseTo((pass.tca.time.getTime() - start.getTime()) / 86_400_000, 2);
+		}
+		expect(passes.map((pass) => pass.time.getTime())).toEqual(passes.map((pass) => pass.time.getTime()).sort((a, b) => a - b));
+	});
+
+	it('refines the events to the second', () => {
+		const [pass] = predictPasses(tles, lat, lng, 10, { start, noradIds: [39084] });
+
+		// Brute force: elevation every second across the pass
+		const satrec = satellite.twoline2satrec(parseTLEs(tles)[0].line1, parseTLEs(tles)[0].line2);
+		const observer = { latitude: satellite.degreesToRadians(lat), longitude: satellite.degreesToRadians(lng), height: 0 };
+		const elevationAt = (time: number) => {
+			const { position } = satellite.propagate(satrec, new Date(time)) as { position: satellite.EciVec3<number> };
+			const ecf = satellite.eciToEcf(position, satellite.gstime(new Date(time)));
+			return satellite.radiansToDegrees(satellite.ecfToLookAngles(observer, ecf).elevation);
+		};
+		const seconds = [];
+		for (let time = pass.aos.time.getTime() - 10_000; time <= pass.los.time.getTime() + 10_000; time += 1000) {
+			seconds.push({ time, elevation: elevationAt(time) });
+		}
+		const visible = seconds.filter((second) => second.elevation >= 10);
+		const peak = seconds.reduce((best, second) => (second.elevation > best.elevation ? second : best));
+
+		expect(Math.abs(visible[0].time - pass.aos.time.getTime())).toBeLessThanOrEqual(1000);
+		expect(Math.abs(visible[visible.length - 1].time - pass.los.time.getTime())).toBeLessThanOrEqual(1000);
+		expect(Math.abs(peak.time - pass.tca.time.getTime())).toBeLessThanOrEqual(1000);
+		expect(pass.elevation).toBeCloseTo(peak.elevation, 2);
+	});
+
+	it('finds passes shorter than the sampling step', () => {
+		const [pass] = predictPasses(tles, lat, lng, 10, { start, noradIds: [39084] });
+		const grazing = predictPasses(tles, lat, lng, pass.elevation - 0.05, { start, hours: 24, noradIds: [39084] });
+
+		expect(grazing.map((p) => p.tca.time)).toContainEqual(pass.tca.time);
+		expect(grazing.find((p) => p.tca.time.getTime() === pass.tca.time.getTime())!.duration).toBeLessThan(60);
+	});
+
+	it('limits the window and the satellites', () => {
+		const landsat = predictPasses(tles, lat, lng, 10, { start, hours: 72, noradIds: [39084] });
+		const firstDay = predictPasses(tles, lat, lng, 10, { start, hours: 24, noradIds: [39084] });
+
+		expect(landsat.every((pass) => pass.noradId === 39084)).toBe(true);
+		expect(landsat.length).toBeGreaterThan(firstDay.length);
+		expect(firstDay.every((pass) => pass.time.getTime() <= start.getTime() + 24 * 60 * 60 * 1000)).toBe(true);
+	});
+});
+
+describe('Swath coverage', () => {
+	it('classifies the area around the site against the half-swath', () => {
+		expect(swathStatus(80, 92.5, 10)).toBe('in-swath');
+		expect(swathStatus(88, 92.5, 10)).toBe('edge');
+		expect(swathStatus(100, 92.5, 10)).toBe('edge');
+		expect(swathStatus(103, 92.5, 10)).toBe('outside');
+		expect(swathStatus(92.5, 92.5, 0)).toBe('in-swath');
+	});
+
+	it('only images the site from a nadir-looking sensor when the ground track passes close by', () => {
+		const passes = predictPasses(tles, lat, lng, 0, { start, hours: 72 });
+
+		for (const pass of passes) {
+			expect(pass.swath).toMatchObject({ halfSwathKm: pass.noradId === 39084 ? 92.5 : 145 });
+		}
+		// A 25° pass is ~1000 km off track; a site in the swath sees the satellite nearly overhead
+		expect(passes.filter((pass) => pass.elevation < 25).every((pass) => pass.swath!.status === 'outside')).toBe(true);
+		expect(passes.filter((pass) => pass.swath!.status !== 'outside').every((pass) => pass.elevation > 70)).toBe(true);
+		// Higher passes are closer to the ground track
+		const byElevation = [...passes].sort((a, b) => b.elevation - a.elevation);
+		expect(byElevation[0].swath!.crossTrackKm).toBeLessThan(byElevation[byElevation.length - 1].swath!.crossTrackKm);
+	});
+
+	it('has no swath for a satellite without sensor data', () => {
+		// Renumbered, with the checksums redone so the sets still validate
+		const unknown = tles
+			.replace(/39084/g, '99999')
+			.split('\n')
+			.map((line) => (/^[12] /.test(line) ? `${line.substring(0, 68)}${tleChecksum(line)}` : line))
+			.join('\n');
+		expect(predictPasses(unknown, lat, lng, 10, { start, noradIds: [99999] })[0].swath).toBeNull();
+	});
+});
+
+describe('GET /api/passes', () => {
+	it('validates hours, minElevation and satellites', async () => {
+		expect(parsePassQuery(undefined, undefined, '39084, 40697')).toEqual({ hours: 24, minElevation: 25, noradIds: [39084, 40697], radiusKm: 10 });
+		expect(parsePassQuery(undefined, undefined, 'ISS')).toHaveProperty('error');
+
+		for (const query of ['lat=95&lng=0', 'lng=-118', 'hours=0', 'hours=73', 'minElevation=91', 'satellites=25544', 'radiusKm=-1']) {
+			const params = query.includes('lat') || query.includes('lng') ? query : `lat=34&lng=-118&${query}`;
+			const response = await SELF.fetch(`http://example.com/api/passes?${params}`);
+			expect(response.status, query).toBe(400);
+		}
+	});
+
+	it('predicts from the cached TLEs with the shared engine', async () => {
+		const sets = (JSON.parse(ommJson) as { NORAD_CAT_ID: number }[]).map((omm) => ({ noradId: omm.NORAD_CAT_ID, omm, fetchedAt: start.toISOString() }));
+		await env.AEGIS_CACHE.put(TLE_CACHE_KEY, JSON.stringify({ fetchedAt: new Date().toISOString(), value: sets }));
+
+		const response = await SELF.fetch(`http://example.com/api/passes?lat=${lat}&lng=${lng}&hours=48&minElevation=10`);
+		const body = (await response.json()) as { passes: SatellitePass[]; count: number; hours: number; from: string };
+
+		expect(response.status).toBe(200);
+		expect(body).toMatchObject({ hours: 48, minElevation: 10, noradIds: SATELLITE_NORAD_IDS });
+		expect(body.count).toBe(body.passes.length);
+
+		const expected = predictPasses(tles, lat, lng, 10, { start: new Date(body.from), hours: 48 });
+		expect(body.passes.map((pass) => pass.tca.time)).toEqual(expected.map((pass) => pass.tca.time.toISOString()));
+	});
+});
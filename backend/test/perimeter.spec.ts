@@ -0,0 +1,105 @@
+import { SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import type { FireHotspot } from '../src/firms';
+import { parseFirmsCsv } from '../src/firms-csv';
+import { perimetersToGeoJson } from '../src/geojson';
+import { concaveHull, firePerimeters, PERIMETER_CONFIG, polygonAreaKm2 } from '../src/perimeter';
+import firmsSample from './fixtures/firms-sample.csv?raw';
+
+const pixel = (latitude: number, longitude: number, acq_date: string): FireHotspot =>
+	({ latitude, longitude, acq_date, acq_time: '1000', scan: 0.4, track: 0.4, confidence: 'n', frp: 10 }) as FireHotspot;
+
+// A row of pixels ~0.4 km apart along a latitude line
+const row = (latitude: number, fromLng: number, count: number, acq_date: string) =>
+	Array.from({ length: count }, (_, i) => pixel(latitude, fromLng + i * 0.0045, acq_date));
+
+describe('Concave hull', () => {
+	it('measures ring area with the shoelace formula', () => {
+		expect(polygonAreaKm2([[0, 0], [2, 0], [2, 3], [0, 3]])).toBe(6);
+	});
+
+	it('follows a U-shape instead of bridging it', () => {
+		// 14 × 5 km block with a 10 × 3 km notch cut from the top: 40 km², convex hull 70 km²
+		const points: [number, number][] = [];
+		for (let x = 0; x <= 14; x++) {
+			for (let y = 0; y <= 5; y++) {
+				if (x <= 2 || x >= 12 || y <= 2) points.push([x, y]);
+			}
+		}
+		const area = polygonAreaKm2(concaveHull(points, 2, 0.75));
+
+		expect(area).toBeGreaterThanOrEqual(40);
+		expect(area).toBeLessThan(50);
+	});
+});
+
+describe('Fire perimeters', () => {
+	it('wraps a single day of footprints in one closed ring', () => {
+		const [perimeter, ...rest] = firePerimeters(parseFirmsCsv(firmsSample).hotspots);
+
+		expect(rest).toHaveLength(0);
+		expect(perimeter).toMatchObject({ date: '2026-01-20', detections: 5, totalDetections: 5 });
+		expect(perimeter.polygons).toHaveLength(1);
+		expect(perimeter.polygons[0][0]).toEqual(perimeter.polygons[0][perimeter.polygons[0].length - 1]);
+		// Five overlapping ~1.2 × 1.1 km MODIS-sized pixels spread over ~2 km
+		expect(perimeter.areaHa).toBeGreaterThan(300);
+		expect(perimeter.areaHa).toBeLessThan(900);
+		expect(perimeter.growthHa).toBe(perimeter.areaHa);
+	});
+
+	it('accumulates detections by day and reports daily growth', () => {
+		const perimeters = firePerimeters([...row(40, -120, 5, '2026-08-01'), ...row(40.004, -120, 10, '2026-08-02')]);
+
+		expect(perimeters.map((p) => [p.date, p.detections, p.totalDetections])).toEqual([
+			['2026-08-01', 5, 5],
+			['2026-08-02', 10, 15],
+		]);
+		expect(perimeters[1].areaHa).toBeGreaterThan(perimeters[0].areaHa);
+		expect(perimeters[1].growthHa).toBeCloseTo(perimeters[1].areaHa - perimeters[0].areaHa, 1);
+	});
+
+	it('keeps separate burn areas as separate polygons', () => {
+		const [perimeter] = firePerimeters([...row(40, -120, 3, '2026-08-01'), ...row(40.2, -120, 3, '2026-08-01')]);
+		expect(perimeter.polygons).toHaveLength(2);
+	});
+
+	it('keeps the hull of a burn area that had no new detections', () => {
+		const perimeters = firePerimeters([...row(40, -120, 5, '2026-08-01'), ...row(40.2, -120, 5, '2026-08-01'), ...row(40.204, -120, 5, '2026-08-02')]);
+
+		expect(perimeters[1].polygons).toHaveLength(2);
+		expect(perimeters[1].polygons).toContainEqual(perimeters[0].polygons.find((ring) => ring[0][1] < 40.1));
+		expect(perimeters[1].growthHa).toBeGreaterThan(0);
+	});
+
+	it('thins a large burn area before hulling it', () => {
+		// Six days of a ~23 × 24 km fire: 60 rows of 60 pixels, ten new rows a day (14,400 corners)
+		const hotspots = Array.from({ length: 60 }, (_, i) => row(40 + i * 0.0036, -120, 60, `2026-08-0${1 + Math.floor(i / 10)}`)).flat();
+		const perimeters = firePerimeters(hotspots.map((h) => ({ ...h, scan: 0.5, track: 0.5 })));
+		const latest = perimeters[perimeters.length - 1];
+
+		expect(perimeters).toHaveLength(6);
+		expect(latest.polygons).toHaveLength(1);
+		expect(latest.polygons[0].length).toBeLessThanOrEqual(PERIMETER_CONFIG.maxHullPoints + 1);
+		// ~55,700 ha of footprints; the thinned hull may cut its corners by a few percent
+		expect(latest.areaHa).toBeGreaterThan(50000);
+		expect(latest.areaHa).toBeLessThan(58000);
+	});
+
+	it('serves each day as a MultiPolygon feature', () => {
+		const collection = perimetersToGeoJson(firePerimeters(parseFirmsCsv(firmsSample).hotspots));
+		const [feature] = collection.features;
+
+		expect(feature.id).toBe('2026-01-20');
+		expect(feature.geometry.type).toBe('MultiPolygon');
+		expect(feature.properties).not.toHaveProperty('polygons');
+		expect(collection.bbox![0]).toBeLessThan(-118.25);
+		expect(collection.bbox![3]).toBeGreaterThan(34.06);
+	});
+
+	it('validates the query', async () => {
+		for (const query of ['lng=-118', 'lat=34&lng=-118&days=11', 'lat=34&lng=-118&days=2.5']) {
+			const response = await SELF.fetch(`http://example.com/api/fire-perimeter?${query}`);
+			expect(response.status, query).toBe(400);
+		}
+	});
+});
@@ -0,0 +1,45 @@
+import { SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { describeSatellite, SATELLITE_CATALOG, satelliteByName, satelliteByNoradId, type SatelliteInfo } from '../../shared/satellites';
+import { TLE_SATELLITES } from '../src/tles';
+
+describe('Satellite catalog', () => {
+	it('covers the optical, SAR and thermal constellation once each', () => {
+		const ids = SATELLITE_CATALOG.map((sat) => sat.noradId);
+
+		expect(new Set(ids).size).toBe(ids.length);
+		expect(new Set(SATELLITE_CATALOG.map((sat) => sat.id)).size).toBe(ids.length);
+		expect(ids).toEqual(expect.arrayContaining([39634, 41335, 43437, 37849, 43013, 54234]));
+		expect(TLE_SATELLITES).toEqual(ids);
+	});
+
+	it('flags SAR and thermal from the sensors', () => {
+		for (const sat of SATELLITE_CATALOG) {
+			expect(sat.sar, sat.name).toBe(sat.sensors.some((sensor) => sensor.type === 'sar'));
+			expect(sat.thermal, sat.name).toBe(sat.sensors.some((sensor) => sensor.type === 'thermal'));
+		}
+		expect(SATELLITE_CATALOG.filter((sat) => sat.sar).map((sat) => sat.name)).toEqual(['Sentinel-1A']);
+	});
+
+	it('finds satellites by NORAD id and by CelesTrak or display name', () => {
+		expect(satelliteByNoradId(43013)?.name).toBe('NOAA-20');
+		expect(satelliteByName('NOAA 20 (JPSS-1)')?.id).toBe('noaa-20');
+		expect(satelliteByName('landsat-8')?.noradId).toBe(39084);
+		expect(satelliteByName('SENTINEL_2B')?.noradId).toBe(42063);
+		expect(satelliteByName('ISS (ZARYA)')).toBeUndefined();
+	});
+
+	it('summarizes capabilities for the analysis prompt', () => {
+		expect(describeSatellite(satelliteByNoradId(39084)!)).toBe('OLI optical 15 m, TIRS thermal 100 m; 185 km swath; 16-day revisit');
+		expect(describeSatellite(satelliteByNoradId(37849)!)).toBe('VIIRS thermal 375 m; 3040 km swath; 12-hour revisit');
+	});
+
+	it('serves the catalog', async () => {
+		const response = await SELF.fetch('http://example.com/api/satellites');
+		const body = (await response.json()) as { satellites: SatelliteInfo[]; count: number };
+
+		expect(response.status).toBe(200);
+		expect(body.count).toBe(SATELLITE_CATALOG.length);
+		expect(body.satellites.find((sat) => sat.id === 'sentinel-1a')).toMatchObject({ sar: true, swathKm: 250, revisitDays: 12 });
+	});
+});
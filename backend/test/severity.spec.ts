@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import type { FireHotspot } from '../src/firms';
+import { applySeverity, meetsSeverity, scoreSeverity, severityForScore, summarizeHotspots, type HotspotSummary } from '../src/severity';
+import type { Disaster } from '../src/types';
+
+const now = new Date('2026-09-02T12:00:00Z');
+
+// ISO time `hours` before now
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString();
+
+// Old enough to add no recency points, recent enough to lose none
+const undated = hoursAgo(10 * 24);
+
+const hotspots = (count: number, maxFrp = 50): HotspotSummary => ({ count, highConfidence: 0, maxFrp, totalFrp: count * maxFrp });
+
+const score = (input: Parameters<typeof scoreSeverity>[0]) => scoreSeverity(input, now).score;
+
+describe('summarizeHotspots', () => {
+	it('counts detections and high confidence, and ignores unreadable FRP', () => {
+		const detections = [
+			{ confidence: 'h', frp: 120 },
+			{ confidence: 'high', frp: 30.5 },
+			{ confidence: 'n', frp: NaN },
+			{ confidence: 'nominal', frp: 8 },
+		] as FireHotspot[];
+
+		expect(summarizeHotspots(detections)).toEqual({ count: 4, highConfidence: 2, maxFrp: 120, totalFrp: 158.5 });
+		expect(summarizeHotspots([])).toEqual({ count: 0, highConfidence: 0, maxFrp: 0, totalFrp: 0 });
+	});
+});
+
+describe('scoreSeverity', () => {
+	it('scores earthquakes on the USGS magnitude bands (M6+ high, M4.5+ medium)', () => {
+		const quake = (magnitude: number) => scoreSeverity({ type: 'earthquake', date: undated, magnitude }, now);
+
+		expect([8, 7, 6.4, 6].map((m) => [quake(m).score, quake(m).severity])).toEqual([
+			[100, 'high'],
+			[80, 'high'],
+			[68, 'high'],
+			[60, 'high'],
+		]);
+		expect([5.99, 5, 4.5].map((m) => quake(m).severity)).toEqual(['medium', 'medium', 'medium']);
+		expect(quake(4.5).score).toBe(30);
+		expect([4.49, 3, 0].map((m) => quake(m).severity)).toEqual(['low', 'low', 'low']);
+		expect(quake(6.4).reasons).toEqual(['Magnitude M6.4']);
+		expect(scoreSeverity({ type: 'earthquake', date: undated }, now)).toEqual({ severity: 'low', score: 0, reasons: ['Magnitude unknown'] });
+	});
+
+	it('does not age earthquakes', () => {
+		expect(score({ type: 'earthquake', date: hoursAgo(1), magnitude: 5 })).toBe(score({ type: 'earthquake', date: hoursAgo(60 * 24), magnitude: 5 }));
+	});
+
+	it('adds burned-area points at 1,000, 10,000 and 100,000 acres', () => {
+		const fire = (magnitudeValue: number) => score({ type: 'fire', date: undated, magnitudeValue, magnitudeUnit: 'acres' });
+
+		expect([999, 1000, 9999, 10000, 99999, 100000].map(fire)).toEqual([25, 35, 35, 50, 50, 65]);
+		expect(scoreSeverity({ type: 'fire', date: undated, magnitudeValue: 150000, magnitudeUnit: 'acres' }, now).reasons).toEqual(['150,000 acres burned']);
+	});
+
+	it('adds wind points at tropical storm, Cat 1 and Cat 3 speeds', () => {
+		const storm = (magnitudeValue: number) => score({ type: 'storm', date: undated, magnitudeValue, magnitudeUnit: 'kts' });
+
+		expect([33, 34, 63, 64, 95, 96].map(storm)).toEqual([25, 45, 45, 65, 65, 80]);
+		expect(scoreSeverity({ type: 'storm', date: undated, magnitudeValue: 110, magnitudeUnit: 'kts' }, now).severity).toBe('high');
+	});
+
+	it('adds no points for other EONET units but explains them', () => {
+		const result = scoreSeverity({ type: 'volcano', date: undated, magnitudeValue: 3, magnitudeUnit: 'VEI' }, now);
+		expect(result).toEqual({ severity: 'low', score: 25, reasons: ['EONET magnitude 3 VEI (volcano)'] });
+	});
+
+	it('scores FIRMS detection counts at 10 and 50, and peak FRP at 100 and 500 MW', () => {
+		const fire = (summary?: HotspotSummary) => score({ type: 'fire', date: undated, hotspots: summary });
+
+		expect(fire(undefined)).toBe(20);
+		expect(fire(hotspots(0))).toBe(10);
+		expect([1, 9, 10, 49, 50].map((count) => fire(hotspots(count)))).toEqual([25, 25, 35, 35, 45]);
+		expect([99, 100, 499, 500].map((maxFrp) => fire(hotspots(50, maxFrp)))).toEqual([45, 55, 55, 65]);
+		expect(scoreSeverity({ type: 'fire', date: undated, hotspots: { count: 60, highConfidence: 12, maxFrp: 620, totalFrp: 4000 } }, now).reasons).toEqual([
+			'60 FIRMS hotspots nearby (12 high confidence)',
+			'Peak FRP 620 MW',
+		]);
+	});
+
+	it('only uses FIRMS detections for fires and volcanoes', () => {
+		expect(score({ type: 'volcano', date: undated, hotspots: hotspots(50, 500) })).toBe(70);
+		expect(score({ type: 'storm', date: undated, hotspots: hotspots(50, 500) })).toBe(25);
+	});
+
+	it('rewards observations in the last 24 hours and 3 days, and penalizes none for 30 days', () => {
+		const fire = (hours: number) => score({ type: 'fire', date: hoursAgo(hours) });
+
+		expect([1, 24, 25, 72, 73, 30 * 24, 31 * 24].map(fire)).toEqual([30, 30, 25, 25, 20, 20, 5]);
+		expect(score({ type: 'fire', date: 'unknown' })).toBe(20);
+		expect(scoreSeverity({ type: 'fire', date: hoursAgo(40 * 24) }, now).reasons).toEqual(['No new observation for 40 days']);
+	});
+
+	it('clamps the combined score to 0-100', () => {
+		const result = scoreSeverity(
+			{ type: 'fire', date: hoursAgo(6), magnitudeValue: 150000, magnitudeUnit: 'acres', hotspots: hotspots(60, 600) },
+			now
+		);
+
+		expect(result).toMatchObject({ severity: 'high', score: 100 });
+		expect(score({ type: 'ice', date: hoursAgo(60 * 24) })).toBe(0);
+	});
+});
+
+describe('applySeverity', () => {
+	it('stores the score, severity and reasons on the disaster', () => {
+		const fire: Disaster = { id: 'EONET_15000', type: 'fire', title: 'Creek Fire', lat: 37.2, lng: -119.3, date: hoursAgo(6), severity: 'low', magnitudeValue: 12000, magnitudeUnit: 'acres' };
+
+		const scored = applySeverity(fire, hotspots(12, 150), now);
+
+		expect(scored).toBe(fire);
+		expect(fire).toMatchObject({ severity: 'high', severityScore: 85 });
+		expect(fire.severityReasons).toEqual(['12,000 acres burned', '12 FIRMS hotspots nearby (0 high confidence)', 'Peak FRP 150 MW', 'Observed in the last 24 hours']);
+	});
+});
+
+describe('severity levels', () => {
+	it('maps scores onto low/medium/high at 30 and 60', () => {
+		expect([0, 29, 30, 59, 60, 100].map(severityForScore)).toEqual(['low', 'low', 'medium', 'medium', 'high', 'high']);
+	});
+
+	it('compares severities against a minimum', () => {
+		expect(meetsSeverity('high', 'medium')).toBe(true);
+		expect(meetsSeverity('medium', 'medium')).toBe(true);
+		expect(meetsSeverity('low', 'medium')).toBe(false);
+	});
+});
@@ -0,0 +1,126 @@
+import { env } from 'cloudflare:test';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { enabledSources, runSource, runSources, sourceStatusReport, SOURCE_REGISTRY, type DisasterSource, type SourceContext } from '../src/sources';
+import { usgsSource } from '../src/sources/usgs';
+import type { Disaster } from '../src/types';
+
+const ctx: SourceContext = { env: {}, query: { window: 'day', minMagnitude: 2.5 } };
+
+const fire = (id: string): Disaster => ({
+	id,
+	type: 'fire',
+	title: id,
+	lat: 0,
+	lng: 0,
+	date: '2026-01-20T00:00:00.000Z',
+	severity: 'low',
+});
+
+const fakeSource = (id: string, overrides: Partial<DisasterSource<Disaster[]>> = {}): DisasterSource<Disaster[]> => ({
+	id,
+	name: id,
+	cacheTtl: 60,
+	fetch: async () => [fire(`${id}-1`)],
+	normalize: (raw) => raw,
+	health: async () => ({ ok: true, latencyMs: 0, checkedAt: new Date(0).toISOString() }),
+	...overrides,
+});
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('enabledSources', () => {
+	it('enables every registered source when DISASTER_SOURCES is unset', () => {
+		expect(enabledSources(undefined).map((s) => s.id)).toEqual(SOURCE_REGISTRY.map((s) => s.id));
+		expect(enabledSources('  ').map((s) => s.id)).toEqual(SOURCE_REGISTRY.map((s) => s.id));
+	});
+
+	it('keeps registry order and ignores unknown ids', () => {
+		expect(enabledSources('gdacs, EONET ,nowhere').map((s) => s.id)).toEqual(['eonet', 'gdacs']);
+	});
+});
+
+describe('runSources', () => {
+	it('isolates a failing source', async () => {
+		const broken = fakeSource('broken', {
+			fetch: async () => {
+				throw new Error('upstream down');
+			},
+		});
+
+		const { disasters, results } = await runSources([fakeSource('a'), broken, fakeSource('b')], ctx);
+
+		expect(disasters.map((d) => d.id)).toEqual(['a-1', 'b-1']);
+		const brokenResult = results.find((r) => r.source.id === 'broken');
+		expect(brokenResult?.status).toBe('failed');
+		expect(brokenResult?.error).toBe('upstream down');
+		expect(brokenResult?.lastSuccess).toBeNull();
+	});
+
+	it('serves the last-known-good snapshot when a source fails', async () => {
+		const kvCtx: SourceContext = { ...ctx, env: { AEGIS_CACHE: env.AEGIS_CACHE } };
+		let up = true;
+		// cacheTtl 0: every call revalidates inline (no waitUntil in tests)
+		const flaky = fakeSource('flaky', {
+			cacheTtl: 0,
+			fetch: async () => {
+				if (!up) throw new Error('upstream down');
+				return [fire('flaky-1')];
+			},
+		});
+
+		const first = await runSource(flaky, kvCtx);
+		expect(first.status).toBe('live');
+
+		up = false;
+
+		const second = await runSource(flaky, kvCtx);
+		expect(second.status).toBe('stale');
+		expect(second.disasters.map((d) => d.id)).toEqual(['flaky-1']);
+		expect(second.lastSuccess).toBe(first.lastSuccess);
+		expect(second.error).toBe('upstream down');
+	});
+
+	it('folds merge-hook sources into the other records', async () => {
+		const annotator = fakeSource('annotator', {
+			merge: (disasters, own) => disasters.map((d) => ({ ...d, title: `${d.title}+${own.length}` })),
+		});
+
+		const { disasters } = await runSources([annotator, fakeSource('a')], ctx);
+
+		expect(disasters.map((d) => d.title)).toEqual(['a-1+1']);
+	});
+});
+
+describe('USGS source', () => {
+	it('caches one entry per summary feed and applies minMagnitude per request', async () => {
+		const features = [2.6, 3.4, 4.1].map((mag, i) => ({
+			id: `us${i}`,
+			properties: { mag, place: `M ${mag}`, time: Date.parse('2026-01-20T00:00:00Z') },
+			geometry: { coordinates: [-117, 35, 10] },
+		}));
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => Response.json({ features }));
+		const kvCtx = (minMagnitude: number): SourceContext => ({ env: { AEGIS_CACHE: env.AEGIS_CACHE }, query: { window: 'week', minMagnitude } });
+
+		const magnitudes = async (minMagnitude: number) => (await runSource(usgsSource, kvCtx(minMagnitude))).disasters.map((d) => d.magnitude);
+
+		expect(await magnitudes(2.5)).toEqual([2.6, 3.4, 4.1]);
+		expect(await magnitudes(3.14159)).toEqual([3.4, 4.1]);
+		expect(await magnitudes(4)).toEqual([4.1]);
+		expect(fetchSpy).toHaveBeenCalledTimes(1);
+		expect(String(fetchSpy.mock.calls[0][0])).toMatch(/summary\/2\.5_week\.geojson$/);
+		expect((await env.AEGIS_CACHE.list({ prefix: 'source:usgs:' })).keys.map((key) => key.name)).toEqual(['source:usgs:week:2.5']);
+	});
+});
+
+describe('sourceStatusReport', () => {
+	it('reports status, count, latency and last success per source', async () => {
+		const { results } = await runSources([fakeSource('a')], ctx);
+		const report = sourceStatusReport(results);
+
+		expect(report.a).toMatchObject({ status: 'live', count: 1 });
+		expect(typeof report.a.latencyMs).toBe('number');
+		expect(report.a.lastSuccess).not.toBeNull();
+	});
+});
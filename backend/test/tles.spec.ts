@@ -0,0 +1,177 @@
+import { env, SELF } from 'cloudflare:test';
+import type { OMMJsonObject } from 'satellite.js';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { parseTLEs, tleChecksum, tleEpoch, validateTLE } from '../../shared/orbital';
+import type { CacheEntry } from '../src/cache';
+import { ommToTle, validateOmm } from '../src/omm';
+import { cachedTles, elementSetReport, fetchElementSets, TLE_CACHE_KEY, TLE_LAST_GOOD_KEY, type ElementSet } from '../src/tles';
+import ommJson from './fixtures/celestrak-omm.json?raw';
+import tles from './fixtures/tles.tle?raw';
+
+const kv = env.AEGIS_CACHE;
+const omm = JSON.parse(ommJson) as OMMJsonObject[];
+const [landsat, sentinel] = parseTLEs(tles);
+const epoch = new Date('2026-02-19T12:00:00Z');
+
+const elementSets = (fetchedAt = epoch.toISOString()): ElementSet[] => omm.map((record) => ({ noradId: Number(record.NORAD_CAT_ID), omm: record, fetchedAt }));
+
+// CelesTrak answering only for the satellites in `records` (by catalog number, and in `groups`),
+// with its plain-text message otherwise
+const mockCelestrak = (records: OMMJsonObject[], groups: Record<string, OMMJsonObject[]> = {}) =>
+	vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+		const params = new URL(String(input)).searchParams;
+		const group = groups[params.get('GROUP') ?? ''];
+		if (group) return Response.json(group);
+
+		const record = records.find((r) => Number(r.NORAD_CAT_ID) === Number(params.get('CATNR')));
+		return record ? Response.json([record]) : new Response('No GP data found');
+	});
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('TLE validation', () => {
+	it('parses 3-line and 2-line sets with CRLF and blank lines', () => {
+		const text = `\r\n${tles.replace(/\n/g, '\r\n')}\r\n\r\n${landsat.line1}\n${landsat.line2}\n`;
+
+		expect(parseTLEs(text).map((sat) => [sat.name, sat.noradId])).toEqual([
+			['LANDSAT 8', 39084],
+			['SENTINEL-2A', 40697],
+			['NORAD 39084', 39084],
+		]);
+		expect(landsat.epoch).toEqual(epoch);
+	});
+
+	it('rejects sets with a bad checksum, truncated lines or mismatched catalog numbers', () => {
+		const corrupted = `${landsat.line1.substring(0, 68)}${(tleChecksum(landsat.line1) + 1) % 10}`;
+
+		expect(validateTLE(landsat.line1, landsat.line2)).toBeNull();
+		expect(validateTLE(corrupted, landsat.line2)).toMatch(/checksum/);
+		expect(validateTLE(landsat.line1.substring(0, 60), landsat.line2)).toMatch(/columns/);
+		expect(validateTLE(landsat.line1, sentinel.line2)).toMatch(/catalog numbers/);
+		expect(parseTLEs(`LANDSAT 8\n${corrupted}\n${landsat.line2}\n${tles}`).map((sat) => sat.noradId)).toEqual([39084, 40697]);
+	});
+
+	it('reads two-digit epoch years', () => {
+		expect(tleEpoch(landsat.line1)).toEqual(epoch);
+		expect(tleEpoch(landsat.line1.replace('26050.50000000', '99001.25000000'))).toEqual(new Date('1999-01-01T06:00:00Z'));
+	});
+});
+
+describe('OMM element sets', () => {
+	it('renders OMM as the TLE CelesTrak publishes for the same elements', () => {
+		expect(ommToTle(omm[0])).toEqual([landsat.line1, landsat.line2]);
+		expect(ommToTle(omm[1])).toEqual([sentinel.line1, sentinel.line2]);
+	});
+
+	it('accepts numeric fields sent as strings', () => {
+		const asStrings = Object.fromEntries(Object.entries(omm[0]).map(([key, value]) => [key, String(value)])) as OMMJsonObject;
+
+		expect(validateOmm(asStrings, 39084, epoch)).toBeNull();
+		expect(ommToTle(asStrings)).toEqual([landsat.line1, landsat.line2]);
+	});
+
+	it('keeps the drag terms in their columns with one-digit exponents', () => {
+		const [tiny, line2] = ommToTle({ ...omm[0], MEAN_MOTION_DDOT: 1.2e-12, BSTAR: -4.5e-11 });
+		const [huge] = ommToTle({ ...omm[0], BSTAR: 3.2e12 });
+
+		// Columns 45-52 and 54-61
+		expect(tiny.substring(44, 52)).toBe(' 00000-0');
+		expect(tiny.substring(53, 61)).toBe(' 00000-0');
+		expect(huge.substring(53, 61)).toBe(' 99999+9');
+		expect(validateTLE(tiny, line2)).toBeNull();
+		expect(validateTLE(huge, line2)).toBeNull();
+	});
+
+	it('rejects OMM for the wrong satellite or with impossible elements', () => {
+		expect(validateOmm(omm[0], 39084, epoch)).toBeNull();
+		expect(validateOmm(omm[0], 40697, epoch)).toMatch(/does not match/);
+		expect(validateOmm({ ...omm[0], NORAD_CAT_ID: 'A9084' as unknown as number }, 39084, epoch)).toMatch(/catalog number/);
+		expect(validateOmm({ ...omm[0], OBJECT_ID: '13-008A' }, 39084, epoch)).toMatch(/OBJECT_ID/);
+		expect(validateOmm({ ...omm[0], ECCENTRICITY: 1.2 }, 39084, epoch)).toMatch(/ECCENTRICITY/);
+		expect(validateOmm({ ...omm[0], MEAN_MOTION: 'n/a' }, 39084, epoch)).toMatch(/MEAN_MOTION/);
+		expect(validateOmm({ ...omm[0], REV_AT_EPOCH: -1 }, 39084, epoch)).toMatch(/REV_AT_EPOCH/);
+		expect(validateOmm('No GP data found', 39084, epoch)).not.toBeNull();
+	});
+
+	it('rejects epochs that do not parse, lie in the future or are more than 30 days old', () => {
+		expect(validateOmm({ ...omm[0], EPOCH: '19 Feb 2026' }, 39084, epoch)).toMatch(/invalid EPOCH/);
+		expect(validateOmm(omm[0], 39084, new Date('2026-02-18T00:00:00Z'))).toMatch(/in the future/);
+		expect(validateOmm(omm[0], 39084, new Date('2026-03-21T00:00:00Z'))).toBeNull();
+		expect(validateOmm(omm[0], 39084, new Date('2026-03-22T00:00:00Z'))).toMatch(/30 days old/);
+	});
+
+	it('rejects orbits whose perigee is inside the atmosphere', () => {
+		// 17.5 rev/day is a period shorter than a circular orbit at the surface
+		expect(validateOmm({ ...omm[0], MEAN_MOTION: 17.5 }, 39084, epoch)).toMatch(/perigee/);
+		// Landsat's mean motion with an eccentricity that takes the perigee down to ~70 km
+		expect(validateOmm({ ...omm[0], ECCENTRICITY: 0.09 }, 39084, epoch)).toMatch(/perigee/);
+	});
+
+	it('reports the epoch age of each set and flags stale ones', () => {
+		const report = elementSetReport(elementSets(), new Date('2026-02-23T00:00:00Z'));
+
+		expect(report[0]).toMatchObject({ noradId: 39084, name: 'LANDSAT 8', epoch: epoch.toISOString(), ageDays: 3.5, stale: true });
+		expect(elementSetReport(elementSets(), new Date('2026-02-21T12:00:00Z'))[0]).toMatchObject({ ageDays: 2, stale: false });
+	});
+});
+
+describe('CelesTrak requests', () => {
+	it('takes the satellites CelesTrak groups list and asks for the others by catalog number', async () => {
+		const fetchSpy = mockCelestrak([omm[1]], { resource: [omm[0], { ...omm[1], NORAD_CAT_ID: 99999 }], weather: [] });
+
+		const sets = await fetchElementSets(undefined, epoch);
+		const queries = fetchSpy.mock.calls.map(([input]) => new URL(String(input)).searchParams);
+
+		expect(sets.map((set) => set.noradId)).toEqual([39084, 40697]);
+		expect(queries.filter((params) => params.has('GROUP')).map((params) => params.get('GROUP'))).toEqual(['resource', 'weather']);
+		expect(queries.filter((params) => params.get('CATNR') === '39084')).toHaveLength(0);
+		expect(queries.filter((params) => params.get('CATNR') === '40697')).toHaveLength(1);
+	});
+});
+
+describe('Last-known-good fallback', () => {
+	it('keeps the previous set of a satellite CelesTrak did not return', async () => {
+		const previous: ElementSet = { ...elementSets('2026-02-18T00:00:00.000Z')[1] };
+		await kv.put(TLE_LAST_GOOD_KEY, JSON.stringify({ fetchedAt: previous.fetchedAt, value: [previous] }));
+		mockCelestrak([omm[0]]);
+
+		const sets = await fetchElementSets(kv, epoch);
+
+		expect(sets.map((set) => [set.noradId, set.fetchedAt === previous.fetchedAt])).toEqual([
+			[39084, false],
+			[40697, true],
+		]);
+		expect((await kv.get<CacheEntry<ElementSet[]>>(TLE_LAST_GOOD_KEY, 'json'))?.value).toEqual(sets);
+	});
+
+	it('serves the last-known-good sets when CelesTrak fails and nothing is cached', async () => {
+		await kv.put(TLE_LAST_GOOD_KEY, JSON.stringify({ fetchedAt: epoch.toISOString(), value: elementSets() }));
+		mockCelestrak([]);
+
+		const result = await cachedTles(kv);
+
+		expect(result).toMatchObject({ state: 'stale', fetchedAt: epoch.toISOString(), error: 'No valid element sets fetched from CelesTrak' });
+		expect(result.value).toEqual(elementSets());
+		await expect(cachedTles(undefined)).rejects.toThrow('No valid element sets');
+	});
+});
+
+describe('GET /api/tles', () => {
+	it('serves TLE text by default and epoch freshness as JSON', async () => {
+		await kv.put(TLE_CACHE_KEY, JSON.stringify({ fetchedAt: new Date().toISOString(), value: elementSets() }));
+
+		const text = await (await SELF.fetch('http://example.com/api/tles')).text();
+		expect(parseTLEs(text)).toEqual(parseTLEs(tles));
+
+		const response = await SELF.fetch('http://example.com/api/tles?format=json');
+		const body = (await response.json()) as { satellites: { noradId: number; ageDays: number; line1: string }[]; stale: number[]; staleAfterDays: number };
+
+		expect(response.status).toBe(200);
+		expect(body.satellites.map((sat) => sat.line1)).toEqual([landsat.line1, sentinel.line1]);
+		expect(body.satellites[0].ageDays).toBeGreaterThan(0);
+		expect(body.stale).toEqual(body.satellites.filter((sat) => sat.ageDays > body.staleAfterDays).map((sat) => sat.noradId));
+		expect((await SELF.fetch('http://example.com/api/tles?format=xml')).status).toBe(400);
+	});
+});
@@ -1,11 +1,15 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: b739a9c19cff1463949c4db47674ed86)
+// Generated by Wrangler by running `wrangler types` (hash: 92c945b4bfd1101307e4a099756c8c4a)
 // Runtime types generated with workerd@1.20251118.0 2025-11-21 global_fetch_strictly_public
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/index");
 	}
 	interface Env {
+		AEGIS_CACHE: KVNamespace;
+		DISASTER_SOURCES: "eonet,usgs,gdacs,firms";
+		CAP_MIN_SEVERITY: "high";
+		FRONTEND_URL: "https://eamaster.github.io/aegis-map/";
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -19,6 +19,33 @@ const API_BASE_URL = process.env.API_BASE_URL || null;
 const TIMEOUT_MS = 30000; // 30 seconds
 const EPSILON = 1e-5; // Coordinate comparison epsilon
 
+// Disaster type -> Mapbox source ID (must match src/constants/disasterTypes.ts)
+const TYPE_SOURCES = {
+  fire: 'fires',
+  volcano: 'volcanoes',
+  earthquake: 'earthquakes',
+  storm: 'storms',
+  flood: 'floods',
+  landslide: 'landslides',
+  dust: 'dust',
+  ice: 'ice',
+  drought: 'droughts',
+  snow: 'snow',
+};
+
+const TYPE_ICONS = {
+  fire: '🔥',
+  volcano: '🌋',
+  earthquake: '🌍',
+  storm: '🌀',
+  flood: '🌊',
+  landslide: '⛰️',
+  dust: '🌫️',
+  ice: '🧊',
+  drought: '☀️',
+  snow: '❄️',
+};
+
 // ANSI color codes for pretty output
 const colors = {
   reset: '\x1b[0m',
@@ -82,8 +109,8 @@ async function main() {
     await page.route('**/*', async (route) => {
       const url = route.request().url();
       
-      // Intercept /api/disasters request
-      if (url.includes('/api/disasters')) {
+      // Intercept /api/disasters request (not /api/disasters/:id/track)
+      if (new URL(url).pathname.endsWith('/api/disasters')) {
         log(`Intercepted: ${url}`, 'blue');
         
         // Verify API_BASE_URL if provided
@@ -97,9 +124,19 @@ async function main() {
           // Continue the request and capture response with timeout
           const response = await route.fetch({ timeout: 60000 }); // 60 second timeout
           const body = await response.json();
-          capturedApiResponse = body;
+          // The map requests format=geojson; flatten features back to { ...properties, lat, lng } records
+          capturedApiResponse = Array.isArray(body.features)
+            ? body.features.map((feature) => ({
+                ...feature.properties,
+                lng: feature.geometry.coordinates[0],
+                lat: feature.geometry.coordinates[1],
+              }))
+            : body.disasters;
           
-          log(`Captured ${body.length} disaster records from API`, 'green');
+          log(`Captured ${capturedApiResponse?.length ?? 0} disaster records from API`, 'green');
+          if (body.degraded) {
+            log(`Degraded sources: ${JSON.stringify(body.sources)}`, 'yellow');
+          }
           
           // Fulfill the request with the captured response
           await route.fulfill({ response });
@@ -176,23 +213,15 @@ async function main() {
     log(`Captured ${capturedApiResponse.length} disaster records`, 'green');
 
     // Count API records by type to know which sources should exist
-    const apiCountsByType = {
-      fire: 0,
-      volcano: 0,
-      earthquake: 0,
-    };
+    const apiCountsByType = Object.fromEntries(Object.keys(TYPE_SOURCES).map(type => [type, 0]));
 
     capturedApiResponse.forEach(record => {
-      if (['fire', 'volcano', 'earthquake'].includes(record.type)) {
+      if (record.type in TYPE_SOURCES) {
         apiCountsByType[record.type]++;
       }
     });
 
-    const typeMapping = {
-      fire: 'fires',
-      volcano: 'volcanoes',
-      earthquake: 'earthquakes',
-    };
+    const typeMapping = TYPE_SOURCES;
 
     // Check which sources should exist
     logSection('📊 Checking GeoJSON Sources');
@@ -221,11 +250,7 @@ async function main() {
     logSection('🔬 Extracting Map Source Data');
     const mapSourceData = await page.evaluate((typeMappingObj, apiCountsByTypeObj) => {
       const map = window.mapDebug;
-      const data = {
-        fires: [],
-        volcanoes: [],
-        earthquakes: [],
-      };
+      const data = Object.fromEntries(Object.values(typeMappingObj).map(sourceType => [sourceType, []]));
 
       // Extract data from each source, but only if it should exist
       Object.entries(typeMappingObj).forEach(([apiType, sourceType]) => {
@@ -249,9 +274,9 @@ async function main() {
       return data;
     }, typeMapping, apiCountsByType);
 
-    log(`Fires:       ${mapSourceData.fires.length} features`, 'cyan');
-    log(`Volcanoes:   ${mapSourceData.volcanoes.length} features`, 'cyan');
-    log(`Earthquakes: ${mapSourceData.earthquakes.length} features`, 'cyan');
+    for (const [sourceType, features] of Object.entries(mapSourceData)) {
+      log(`${(sourceType + ':').padEnd(13)}${features.length} features`, 'cyan');
+    }
 
     // Validation
     logSection('✅ Validating Data');
@@ -260,16 +285,12 @@ async function main() {
     log(`Total API records: ${results.totalApiRecords}`, 'blue');
 
     // Group API records by type for validation (fresh, not duplicated)
-    const apiByType = {
-      fire: [],
-      volcano: [],
-      earthquake: [],
-    };
+    const apiByType = Object.fromEntries(Object.keys(TYPE_SOURCES).map(type => [type, []]));
 
     // Validate each record
     capturedApiResponse.forEach(record => {
       // Validate type
-      if (!['fire', 'volcano', 'earthquake'].includes(record.type)) {
+      if (!(record.type in TYPE_SOURCES)) {
         validationErrors.push(
           `Invalid type "${record.type}" for record ${record.id}`
         );
@@ -394,10 +415,8 @@ async function main() {
       });
     }
 
-    results.totalMapFeatures = 
-      mapSourceData.fires.length + 
-      mapSourceData.volcanoes.length + 
-      mapSourceData.earthquakes.length;
+    results.totalMapFeatures = Object.values(mapSourceData)
+      .reduce((sum, features) => sum + features.length, 0);
 
   } catch (error) {
     logSection('❌ ERROR');
@@ -420,7 +439,7 @@ async function main() {
 
   console.log('\n' + colors.bright + 'Counts by Type:' + colors.reset);
   for (const [type, counts] of Object.entries(results.byType)) {
-    const icon = type === 'fire' ? '🔥' : type === 'volcano' ? '🌋' : '🌍';
+    const icon = TYPE_ICONS[type] || '📍';
     const status = counts.match ? '✓' : '✗';
     const color = counts.match ? 'green' : 'red';
     log(`  ${icon} ${type.padEnd(10)} API: ${counts.apiCount.toString().padStart(3)}, Map: ${counts.mapCount.toString().padStart(3)} ${status}`, color);
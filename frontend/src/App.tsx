@@ -8,6 +8,7 @@ import DebugPanel from './components/DebugPanel';
 import ThemeToggle from './components/ThemeToggle';
 import type { Disaster } from './types';
 import { useDesignSystem } from './hooks/useDesignSystem';
+import { ALL_DISASTER_TYPES } from './constants/disasterTypes';
 
 // Lazy load rarely-used components
 const TutorialOverlay = lazy(() => import('./components/TutorialOverlay'));
@@ -20,7 +21,7 @@ function App() {
 
   // Filter state - all disasters visible by default
   const [activeFilters, setActiveFilters] = useState<Set<string>>(
-    new Set(['fire', 'earthquake', 'volcano'])
+    new Set(ALL_DISASTER_TYPES)
   );
 
   // Filter toggle handler
@@ -173,6 +174,7 @@ function App() {
       {/* Main Content Area */}
       <main className="flex-1 relative">
         <MapBoard
+          selectedDisaster={selectedDisaster}
           onDisasterSelect={handleDisasterSelect}
           activeFilters={activeFilters}
           onFilterToggle={handleFilterToggle}
@@ -0,0 +1,74 @@
+/**
+ * DataStatusBanner Component
+ * Warns when /api/disasters is degraded: a feed failed and is either
+ * served from its last-known-good snapshot or missing entirely
+ */
+
+import { AlertTriangle } from 'lucide-react';
+import { useDesignSystem } from '../hooks/useDesignSystem';
+import type { SourceStatusReport } from '../types';
+
+interface DataStatusBannerProps {
+    sources: Record<string, SourceStatusReport>;
+}
+
+// Display names for the backend source ids
+const SOURCE_LABELS: Record<string, string> = {
+    eonet: 'NASA EONET',
+    usgs: 'USGS',
+    gdacs: 'GDACS',
+    firms: 'NASA FIRMS',
+};
+
+const formatAge = (iso: string) => {
+    const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60000);
+    if (minutes < 60) return `${minutes}m ago`;
+    if (minutes < 48 * 60) return `${Math.round(minutes / 60)}h ago`;
+    return `${Math.round(minutes / (24 * 60))}d ago`;
+};
+
+export default function DataStatusBanner({ sources }: DataStatusBannerProps) {
+    const ds = useDesignSystem();
+
+    const degraded = Object.entries(sources).filter(([, report]) => report.status === 'stale' || report.status === 'failed');
+    if (degraded.length === 0) return null;
+
+    const anyMissing = degraded.some(([, report]) => report.status === 'failed');
+    const accent = anyMissing ? ds.colors.status.error : ds.colors.status.warning;
+
+    return (
+        <div
+            role="status"
+            className="absolute z-10 flex items-start"
+            style={{
+                ...ds.glass.panel,
+                top: '12px',
+                left: '50%',
+                transform: 'translateX(-50%)',
+                maxWidth: 'min(560px, calc(100% - 24px))',
+                gap: '10px',
+                padding: '10px 14px',
+                borderRadius: ds.borderRadius.lg,
+                border: `1px solid ${accent}88`,
+                boxShadow: `0 4px 16px ${accent}33`,
+            }}
+        >
+            <AlertTriangle size={16} style={{ color: accent, flexShrink: 0, marginTop: '1px' }} />
+            <div style={{ fontSize: '0.75rem', color: ds.text.secondary }}>
+                <div className="font-bold" style={{ color: ds.text.primary, marginBottom: '2px' }}>
+                    Degraded data: some feeds are unavailable
+                </div>
+                {degraded.map(([id, report]) => (
+                    <div key={id}>
+                        <span className="font-semibold" style={{ color: accent }}>
+                            {SOURCE_LABELS[id] ?? id}
+                        </span>
+                        {report.status === 'stale' && report.lastSuccess
+                            ? ` — showing last good data from ${formatAge(report.lastSuccess)}`
+                            : ' — no data available'}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
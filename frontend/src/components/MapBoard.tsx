@@ -3,20 +3,36 @@
  * Uses useRef to prevent unnecessary map re-renders
  */
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import mapboxgl from 'mapbox-gl';
 import 'mapbox-gl/dist/mapbox-gl.css';
 import { API_BASE } from '../config/api';
 import { debugLog } from '../utils/debug';
 import toast from 'react-hot-toast';
-import type { Disaster } from '../types';
-import MapLegend from './MapLegend';
+import type {
+    ChangeKind,
+    ChangesResponse,
+    Disaster,
+    DisasterFeature,
+    DisasterFeatureCollection,
+    DisastersResponse,
+    DisasterTrack,
+    EarthquakeQuery,
+    FirePerimeterResponse,
+    HistoryRange,
+    HistoryResponse,
+    SourceStatusReport,
+} from '../types';
+import { DISASTER_TYPES } from '../constants/disasterTypes';
+import MapLegend, { type DisasterCounts } from './MapLegend';
+import DataStatusBanner from './DataStatusBanner';
 
 // Set Mapbox access token
 const accessToken = import.meta.env.VITE_MAPBOX_TOKEN;
 mapboxgl.accessToken = accessToken;
 
 interface MapBoardProps {
+    selectedDisaster: Disaster | null;
     onDisasterSelect: (disaster: Disaster | null) => void;
     activeFilters: Set<string>;
     onFilterToggle: (type: string) => void;
@@ -36,7 +52,7 @@ const removeDisasterLayers = (mapInstance: mapboxgl.Map | null, animationIds?: R
     }
 
     // Remove layers (must be done before removing sources)
-    ['fires-layer', 'earthquakes-layer', 'volcanoes-layer'].forEach(layerId => {
+    DISASTER_TYPES.forEach(({ layerId }) => {
         if (mapInstance.getLayer(layerId)) {
             try {
                 mapInstance.removeLayer(layerId);
@@ -47,7 +63,7 @@ const removeDisasterLayers = (mapInstance: mapboxgl.Map | null, animationIds?: R
     });
 
     // Remove sources
-    ['fires', 'earthquakes', 'volcanoes'].forEach(sourceId => {
+    DISASTER_TYPES.forEach(({ sourceId }) => {
         if (mapInstance.getSource(sourceId)) {
             try {
                 mapInstance.removeSource(sourceId);
@@ -58,17 +74,112 @@ const removeDisasterLayers = (mapInstance: mapboxgl.Map | null, animationIds?: R
     });
 };
 
+// USGS feed used on first load (matches the backend defaults)
+const DEFAULT_EARTHQUAKE_QUERY: EarthquakeQuery = { window: 'day', minMagnitude: 2.5 };
 
-export default function MapBoard({ onDisasterSelect, activeFilters, onFilterToggle }: MapBoardProps) {
+// Track overlay for the selected event (drawn beneath disaster markers)
+const TRACK_LAYERS = ['selected-track-line', 'selected-track-points', 'selected-track-latest'];
+const TRACK_SOURCES = ['selected-track', 'selected-track-latest'];
+
+// Older positions fade from blue to red as they approach the latest report
+const TRACK_COLOR_RAMP: mapboxgl.Expression = [
+    'interpolate', ['linear'], ['get', 'progress'],
+    0, '#60a5fa',
+    0.5, '#facc15',
+    1, '#ef4444',
+];
+
+// Helper function to safely remove the selected-event track overlay
+const removeTrackLayers = (mapInstance: mapboxgl.Map | null) => {
+    if (!mapInstance) return;
+
+    TRACK_LAYERS.forEach(layerId => {
+        if (mapInstance.getLayer(layerId)) {
+            mapInstance.removeLayer(layerId);
+        }
+    });
+    TRACK_SOURCES.forEach(sourceId => {
+        if (mapInstance.getSource(sourceId)) {
+            mapInstance.removeSource(sourceId);
+        }
+    });
+};
+
+// Daily fire perimeters of the selected fire (newest drawn first, so older days stack on top)
+const PERIMETER_SOURCE = 'selected-perimeter';
+const PERIMETER_LAYERS = ['selected-perimeter-fill', 'selected-perimeter-line'];
+
+// Helper function to safely remove the fire perimeter overlay
+const removePerimeterLayers = (mapInstance: mapboxgl.Map | null) => {
+    if (!mapInstance) return;
+
+    PERIMETER_LAYERS.forEach(layerId => {
+        if (mapInstance.getLayer(layerId)) {
+            mapInstance.removeLayer(layerId);
+        }
+    });
+    if (mapInstance.getSource(PERIMETER_SOURCE)) {
+        mapInstance.removeSource(PERIMETER_SOURCE);
+    }
+};
+
+// Auto-refresh: poll the backend change feed (matches the 10-minute Cron snapshot cadence)
+const CHANGE_POLL_INTERVAL_MS = 10 * 60 * 1000;
+// New/updated markers stay ringed for this long after the change is seen
+const CHANGE_HIGHLIGHT_MS = 30 * 60 * 1000;
+
+const CHANGE_SOURCE = 'change-highlights';
+const CHANGE_LAYER = 'change-highlights-ring';
+
+type ChangeHighlight = { kind: Exclude<ChangeKind, 'closed'>; seenAt: number };
+
+// Helper function to safely remove the change highlight rings
+const removeChangeHighlights = (mapInstance: mapboxgl.Map | null) => {
+    if (!mapInstance) return;
+
+    if (mapInstance.getLayer(CHANGE_LAYER)) {
+        mapInstance.removeLayer(CHANGE_LAYER);
+    }
+    if (mapInstance.getSource(CHANGE_SOURCE)) {
+        mapInstance.removeSource(CHANGE_SOURCE);
+    }
+};
+
+// Backend GeoJSON features back to Disaster records (Sidebar, legend counts, change rings)
+const featureToDisaster = (feature: DisasterFeature): Disaster => ({
+    ...feature.properties,
+    lng: feature.geometry.coordinates[0],
+    lat: feature.geometry.coordinates[1],
+});
+
+const EMPTY_COLLECTION: DisasterFeatureCollection = { type: 'FeatureCollection', features: [] };
+
+// Count disasters per type (plus overall total) for the legend and logs
+const countByType = (disasters: Disaster[]): DisasterCounts => {
+    const counts = { total: disasters.length } as DisasterCounts;
+    DISASTER_TYPES.forEach(({ type }) => {
+        counts[type] = disasters.filter(d => d.type === type).length;
+    });
+    return counts;
+};
+
+export default function MapBoard({ selectedDisaster, onDisasterSelect, activeFilters, onFilterToggle }: MapBoardProps) {
     const mapContainerRef = useRef<HTMLDivElement>(null);
     const map = useRef<mapboxgl.Map | null>(null);
     const tooltipRef = useRef<mapboxgl.Popup | null>(null);
-    const [disasters, setDisasters] = useState<Disaster[]>([]);
+    // Backend GeoJSON feeds the map sources directly; Disaster records are derived from it
+    const [disasterCollection, setDisasterCollection] = useState<DisasterFeatureCollection>(EMPTY_COLLECTION);
+    const disasters = useMemo(() => disasterCollection.features.map(featureToDisaster), [disasterCollection]);
     const [loading, setLoading] = useState(true);
     const [mapError, setMapError] = useState<string>('');
     const [lastUpdated, setLastUpdated] = useState<Date | undefined>(undefined);
     const [isRefreshing, setIsRefreshing] = useState(false);
+    const [sourceStatus, setSourceStatus] = useState<Record<string, SourceStatusReport>>({});
     const isInitialLoadRef = useRef(true);
+    const [earthquakeQuery, setEarthquakeQuery] = useState<EarthquakeQuery>(DEFAULT_EARTHQUAKE_QUERY);
+    const [changeHighlights, setChangeHighlights] = useState<Record<string, ChangeHighlight>>({});
+    const [historyRange, setHistoryRange] = useState<HistoryRange | null>(null);
+    const deepLinkEventRef = useRef(new URLSearchParams(window.location.search).get('event'));
 
     // Animation interval refs for proper cleanup
     const animationIdsRef = useRef<Record<string, ReturnType<typeof setInterval>>>({});
@@ -138,7 +249,7 @@ export default function MapBoard({ onDisasterSelect, activeFilters, onFilterTogg
 
             // ✅ PERFORMANCE: Load disaster data immediately in parallel with map
             // Don't wait for map to finish loading - fetch data while map renders
-            loadDisasters();
+            loadDisasters(DEFAULT_EARTHQUAKE_QUERY);
 
             // Add disaster layers when map finishes loading
             map.current.on('load', () => {
@@ -154,33 +265,50 @@ export default function MapBoard({ onDisasterSelect, activeFilters, onFilterTogg
 
 
     // Load disasters from backend
-    const loadDisasters = async () => {
+    // announce=false skips the "Refreshed" toast (auto-refresh shows its own change summary)
+    const loadDisasters = async (query: EarthquakeQuery, announce = true) => {
         try {
+            const params = new URLSearchParams({
+                window: query.window,
+                minMagnitude: String(query.minMagnitude),
+                format: 'geojson',
+            });
+            const url = `${API_BASE}/api/disasters?${params}`;
+
             // DEBUG: Log API call
-            debugLog('backend', `Fetching disasters from ${API_BASE}/api/disasters`, 'info');
+            debugLog('backend', `Fetching disasters from ${url}`, 'info');
 
-            const response = await fetch(`${API_BASE}/api/disasters`);
-            const data: Disaster[] = await response.json();
+            const response = await fetch(url);
+            const body: DisastersResponse = await response.json();
+
+            // Per-source status drives the degraded-data banner (also present on 503)
+            setSourceStatus(body.sources ?? {});
+            if (body.degraded) {
+                debugLog('backend', 'Disaster data is degraded', 'warning', body.sources);
+            }
 
             // DEBUG: Validate disaster data
-            if (!Array.isArray(data)) {
-                debugLog('disasters', 'ERROR: Response is not an array', 'error', { data });
+            if (!Array.isArray(body.features)) {
+                debugLog('disasters', `ERROR: ${body.error ?? 'Response has no features array'}`, 'error', { body });
                 setLoading(false);
+                setIsRefreshing(false);
                 isInitialLoadRef.current = false; // Mark as no longer initial load even on error
                 return;
             }
 
-
-            const fireCount = data.filter(d => d.type === 'fire').length;
-            const volcanoCount = data.filter(d => d.type === 'volcano').length;
-            const earthquakeCount = data.filter(d => d.type === 'earthquake').length;
+            const data = body.features.map(featureToDisaster);
+            const counts = countByType(data);
+            const countSummary = DISASTER_TYPES
+                .filter(({ type }) => counts[type] > 0)
+                .map(({ type, label }) => `${counts[type]} ${label.toLowerCase()}`)
+                .join(', ');
 
             // DEBUG: Log disaster stats
             debugLog(
                 'disasters',
-                `Loaded ${data.length} disasters: ${fireCount} fires, ${volcanoCount} volcanoes, ${earthquakeCount} earthquakes`,
+                `Loaded ${data.length} disasters: ${countSummary}`,
                 'success',
-                { count: data.length, types: { fires: fireCount, volcanoes: volcanoCount, earthquakes: earthquakeCount } }
+                { count: data.length, types: counts }
             );
 
             // DEBUG: Confirm backend is online
@@ -199,17 +327,25 @@ export default function MapBoard({ onDisasterSelect, activeFilters, onFilterTogg
                 );
             }
 
-            setDisasters(data);
+            // Backend serves cached data immediately; X-Cache-Age says how old it is
+            const cacheAgeSeconds = Number(response.headers.get('X-Cache-Age') ?? 0) || 0;
+
+            setDisasterCollection(body);
             setLoading(false);
-            setLastUpdated(new Date());
+            setLastUpdated(new Date(Date.now() - cacheAgeSeconds * 1000));
             setIsRefreshing(false);
 
             // ✅ Layers will be added by useEffect (line 266) when disasters state updates
 
             // Show success toast only on manual refresh, not initial load
-            if (!isInitialLoadRef.current) {
+            if (!isInitialLoadRef.current && announce) {
+                const emojiSummary = DISASTER_TYPES
+                    .filter(({ type }) => counts[type] > 0)
+                    .map(({ type, emoji }) => `${counts[type]} ${emoji}`)
+                    .join(' ');
+
                 toast.success(
-                    `✓ Refreshed: ${data.length} disasters\n${fireCount} 🔥 ${earthquakeCount} 🌍 ${volcanoCount} 🌋`,
+                    `✓ Refreshed: ${data.length} disasters\n${emojiSummary}`,
                     {
                         duration: 3000,
                         style: {
@@ -238,8 +374,41 @@ export default function MapBoard({ onDisasterSelect, activeFilters, onFilterTogg
         }
     };
 
+    // Load archived events reported during a UTC date range (whole days, both ends inclusive)
+    const loadHistory = async (range: HistoryRange) => {
+        try {
+            const params = new URLSearchParams({
+                from: `${range.from}T00:00:00Z`,
+                to: `${range.to}T23:59:59Z`,
+                format: 'geojson',
+            });
+            const url = `${API_BASE}/api/disasters/history?${params}`;
+
+            debugLog('backend', `Fetching disaster history from ${url}`, 'info');
+
+            const response = await fetch(url);
+            const body: HistoryResponse = await response.json();
+            if (!response.ok || !Array.isArray(body.features)) {
+                throw new Error(body.error ?? `HTTP ${response.status}`);
+            }
+
+            debugLog('disasters', `Loaded ${body.count} archived disasters (${range.from} → ${range.to})`, 'success');
+
+            setDisasterCollection(body);
+            setSourceStatus({}); // Live feed status does not apply to the archive
+            setIsRefreshing(false);
+
+            toast.success(`🗂️ Archive: ${body.count} disasters\n${range.from} → ${range.to}`, { duration: 3000 });
+        } catch (error) {
+            console.error('Error loading disaster history:', error);
+            debugLog('disasters', `FAILED to load disaster history: ${error}`, 'error', { error: String(error) });
+            setIsRefreshing(false);
+            toast.error(`Failed to load disaster history: ${error}`, { duration: 5000 });
+        }
+    };
+
     // Manual refresh handler
-    const handleRefresh = async () => {
+    const handleRefresh = async (query: EarthquakeQuery = earthquakeQuery, range: HistoryRange | null = historyRange) => {
         setIsRefreshing(true);
 
         // Remove existing layers and sources before refreshing
@@ -247,34 +416,51 @@ export default function MapBoard({ onDisasterSelect, activeFilters, onFilterTogg
             removeDisasterLayers(map.current, animationIdsRef.current);
         }
 
-        await loadDisasters();
+        if (range) {
+            await loadHistory(range);
+        } else {
+            await loadDisasters(query);
+        }
+    };
+
+    // Switch between live data and an archived date range (null = live)
+    const handleHistoryRangeChange = (range: HistoryRange | null) => {
+        setHistoryRange(range);
+        setChangeHighlights({});
+        handleRefresh(earthquakeQuery, range);
+    };
+
+    // Reload with a different USGS feed window / minimum magnitude
+    const handleEarthquakeQueryChange = (query: EarthquakeQuery) => {
+        setEarthquakeQuery(query);
+        handleRefresh(query);
     };
 
     // ✅ CRITICAL FIX: Re-render layers when filters change
     useEffect(() => {
-        if (!map.current || disasters.length === 0) return;
+        if (!map.current || disasterCollection.features.length === 0) return;
 
         // Use helper function to clean up
         removeDisasterLayers(map.current, animationIdsRef.current);
 
         // Re-add layers with current filters
-        addDisasterLayers(disasters);
-    }, [activeFilters, disasters]); // No need for addDisasterLayers in deps // Re-run when filters OR disasters change
+        addDisasterLayers(disasterCollection);
+    }, [activeFilters, disasterCollection]); // No need for addDisasterLayers in deps // Re-run when filters OR disasters change
 
     // ✅ PERFORMANCE FIX: Handle case where disasters load before map is ready
     useEffect(() => {
-        if (!map.current || disasters.length === 0) return;
+        if (!map.current || disasterCollection.features.length === 0) return;
 
         const mapInstance = map.current; // Capture in closure for cleanup
 
         // Wait for map to be fully loaded before adding layers
         if (mapInstance.loaded()) {
-            addDisasterLayers(disasters);
+            addDisasterLayers(disasterCollection);
         } else {
             // If map not loaded yet, add listener
             const onLoad = () => {
-                if (mapInstance && disasters.length > 0) {
-                    addDisasterLayers(disasters);
+                if (mapInstance && disasterCollection.features.length > 0) {
+                    addDisasterLayers(disasterCollection);
                 }
             };
 
@@ -286,314 +472,342 @@ export default function MapBoard({ onDisasterSelect, activeFilters, onFilterTogg
                 mapInstance.off('load', onLoad);
             };
         }
-    }, [disasters]); // Run when disasters are loaded
+    }, [disasterCollection]); // Run when disasters are loaded
 
 
-    // Add disaster data layers to map
-    const addDisasterLayers = (disasters: Disaster[]) => {
-        if (!map.current) return;
-
-        // Safety check: Clean up any existing layers first
-        removeDisasterLayers(map.current, animationIdsRef.current);
+    // Auto-refresh: poll /api/changes and reload only when the backend saw something change
+    // Paused while an archived date range is shown
+    useEffect(() => {
+        if (historyRange) return;
 
-        // ✅ Filter disasters based on active filters
-        const visibleDisasters = disasters.filter(d => activeFilters.has(d.type));
+        let since = new Date().toISOString();
 
-        // Separate disasters by type
-        const fires = visibleDisasters.filter((d) => d.type === 'fire');
-        const volcanoes = visibleDisasters.filter((d) => d.type === 'volcano');
-        const earthquakes = visibleDisasters.filter((d) => d.type === 'earthquake');
+        const pollChanges = async () => {
+            try {
+                const response = await fetch(`${API_BASE}/api/changes?since=${encodeURIComponent(since)}`);
+                if (!response.ok) {
+                    debugLog('backend', `Change feed unavailable (${response.status})`, 'warning');
+                    return;
+                }
 
-        // Add fires layer
-        if (fires.length > 0) {
-            // DEBUG: Log layer creation
-            debugLog(
-                'map',
-                `Adding fires layer with ${fires.length} markers`,
-                'info'
-            );
+                const body: ChangesResponse = await response.json();
+                since = body.snapshotAt ?? since;
+
+                // Drop highlights that have had their time on the map
+                const now = Date.now();
+                setChangeHighlights(prev => {
+                    const next: Record<string, ChangeHighlight> = {};
+                    Object.entries(prev).forEach(([id, highlight]) => {
+                        if (now - highlight.seenAt < CHANGE_HIGHLIGHT_MS) next[id] = highlight;
+                    });
+                    body.changes.forEach(change => {
+                        if (change.kind === 'closed') delete next[change.id];
+                        else next[change.id] = { kind: change.kind, seenAt: now };
+                    });
+                    return next;
+                });
+
+                if (body.changes.length === 0) return;
+
+                const count = (kind: ChangeKind) => body.changes.filter(change => change.kind === kind).length;
+                const summary = [
+                    count('new') > 0 && `${count('new')} new`,
+                    count('updated') > 0 && `${count('updated')} updated`,
+                    count('closed') > 0 && `${count('closed')} closed`,
+                ].filter(Boolean).join(', ');
+
+                debugLog('disasters', `Change feed: ${summary}`, 'info', body.changes);
+                toast(`🛰️ Disaster update: ${summary}`, { duration: 5000 });
+
+                await loadDisasters(earthquakeQuery, false);
+            } catch (error) {
+                debugLog('backend', `Change feed poll failed: ${error}`, 'warning');
+            }
+        };
 
-            map.current.addSource('fires', {
-                type: 'geojson',
-                data: {
-                    type: 'FeatureCollection',
-                    features: fires.map((disaster) => ({
-                        type: 'Feature',
-                        geometry: {
-                            type: 'Point',
-                            coordinates: [disaster.lng, disaster.lat],
-                        },
-                        properties: disaster,
-                    })),
-                },
-            });
+        const intervalId = setInterval(pollChanges, CHANGE_POLL_INTERVAL_MS);
+        return () => clearInterval(intervalId);
+    }, [earthquakeQuery, historyRange]);
 
-            map.current.addLayer({
-                id: 'fires-layer',
-                type: 'circle',
-                source: 'fires',
-                paint: {
-                    'circle-radius': [
-                        'case',
-                        ['==', ['get', 'severity'], 'high'],
-                        10, // Larger for high severity
-                        8
-                    ],
-                    'circle-color': '#FF4444',
-                    'circle-stroke-width': [
-                        'case',
-                        ['==', ['get', 'severity'], 'high'],
-                        4, // Thicker stroke for high severity
-                        3  // Better visibility on satellite
-                    ],
-                    'circle-stroke-color': '#ffffff',
-                    'circle-stroke-opacity': 1.0,
-                    'circle-opacity': 0.9,
-                },
-            });
+    // Ring markers that are new (green) or changed (amber) since the last auto-refresh
+    useEffect(() => {
+        const mapInstance = map.current;
+        if (!mapInstance || !mapInstance.loaded()) return;
+
+        removeChangeHighlights(mapInstance);
+
+        const highlighted = disasters.filter(d => changeHighlights[d.id]);
+        if (highlighted.length === 0) return;
+
+        mapInstance.addSource(CHANGE_SOURCE, {
+            type: 'geojson',
+            data: {
+                type: 'FeatureCollection',
+                features: highlighted.map(d => ({
+                    type: 'Feature' as const,
+                    geometry: { type: 'Point' as const, coordinates: [d.lng, d.lat] },
+                    properties: { id: d.id, kind: changeHighlights[d.id].kind },
+                })),
+            },
+        });
 
-            // Add pulsing effect for high-severity fires
-            const animateFires = () => {
-                if (!map.current || !map.current.getLayer('fires-layer')) return;
+        // Beneath the markers so they stay clickable
+        const beforeId = DISASTER_TYPES.map(t => t.layerId).find(id => mapInstance.getLayer(id));
+
+        mapInstance.addLayer({
+            id: CHANGE_LAYER,
+            type: 'circle',
+            source: CHANGE_SOURCE,
+            paint: {
+                'circle-radius': 16,
+                'circle-color': 'rgba(0, 0, 0, 0)',
+                'circle-stroke-width': 3,
+                'circle-stroke-color': ['match', ['get', 'kind'], 'new', '#22c55e', '#f59e0b'],
+                'circle-stroke-opacity': 0.9,
+            },
+        }, beforeId);
+
+        debugLog('map', `Highlighted ${highlighted.length} changed disasters`, 'info');
+    }, [disasters, changeHighlights]);
+
+    // Deep link from the ATOM feed: ?event=<id> selects that event once it has loaded
+    useEffect(() => {
+        const eventId = deepLinkEventRef.current;
+        if (!eventId || disasters.length === 0) return;
 
-                const phase = (Date.now() % 2000) / 2000; // 2 second cycle
-                const radius = 10 + Math.sin(phase * Math.PI * 2) * 3;
+        deepLinkEventRef.current = null;
+        const disaster = disasters.find(d => d.id === eventId);
+        if (!disaster) {
+            debugLog('disasters', `Linked event ${eventId} is no longer active`, 'warning');
+            return;
+        }
 
-                try {
-                    map.current.setPaintProperty('fires-layer', 'circle-radius', [
-                        'case',
-                        ['==', ['get', 'severity'], 'high'],
-                        radius,
-                        8
-                    ]);
-                } catch (e) {
-                    // Layer might be removed during animation
-                }
-            };
+        onDisasterSelect(disaster);
+        map.current?.flyTo({ center: [disaster.lng, disaster.lat], zoom: 6 });
+    }, [disasters, onDisasterSelect]);
 
-            // Start animation loop for high-severity markers
-            const firesAnimationId = setInterval(animateFires, 50);
-            // Store animation ID for cleanup
-            animationIdsRef.current.fires = firesAnimationId;
+    // Draw the movement track of the selected event (EONET only)
+    useEffect(() => {
+        const mapInstance = map.current;
+        if (!mapInstance) return;
 
-            // Add click handler
-            map.current.on('click', 'fires-layer', (e) => {
-                e.preventDefault();
-                e.originalEvent?.stopPropagation();
-                if (e.features && e.features[0]) {
-                    const props = e.features[0].properties as any;
-                    // Handle both uppercase and lowercase coordinate properties
-                    const lat = props.lat || props.Lat || props.latitude || props.Latitude || e.lngLat.lat;
-                    const lng = props.lng || props.Lng || props.longitude || props.Longitude || e.lngLat.lng;
-                    const disaster = {
-                        id: props.id || `fire_${Date.now()}`,
-                        type: props.type || 'fire',
-                        title: props.title || props.name || 'Fire Event',
-                        lat: parseFloat(String(lat)),
-                        lng: parseFloat(String(lng)),
-                        date: props.date || props.start || new Date().toISOString(),
-                        severity: props.severity || 'medium',
-                    };
-                    onDisasterSelect(disaster);
-                }
-            });
+        removeTrackLayers(mapInstance);
 
-            // Change cursor on hover
-            map.current.on('mouseenter', 'fires-layer', (e) => {
-                if (map.current) map.current.getCanvas().style.cursor = 'pointer';
+        if (!selectedDisaster || !selectedDisaster.id.startsWith('EONET_')) return;
 
-                // Show tooltip
-                if (e.features && e.features[0]) {
-                    const props = e.features[0].properties as any;
-                    const title = props.title || props.name || 'Fire Event';
+        let cancelled = false;
 
-                    // Remove existing tooltip
-                    if (tooltipRef.current) {
-                        tooltipRef.current.remove();
-                    }
+        const loadTrack = async () => {
+            try {
+                debugLog('map', `Fetching track for ${selectedDisaster.id}`, 'info');
 
-                    // Create new tooltip
-                    if (map.current) {
-                        tooltipRef.current = new mapboxgl.Popup({
-                            closeButton: false,
-                            closeOnClick: false,
-                            className: 'disaster-tooltip'
-                        })
-                            .setLngLat(e.lngLat)
-                            .setHTML(`<div class="text-sm font-medium">🔥 ${title}</div>`)
-                            .addTo(map.current);
-                    }
+                const response = await fetch(`${API_BASE}/api/disasters/${encodeURIComponent(selectedDisaster.id)}/track`);
+                if (!response.ok) {
+                    debugLog('map', `No track available for ${selectedDisaster.id} (${response.status})`, 'warning');
+                    return;
                 }
-            });
 
-            map.current.on('mouseleave', 'fires-layer', () => {
-                if (map.current) map.current.getCanvas().style.cursor = '';
-
-                // Remove tooltip
-                if (tooltipRef.current) {
-                    tooltipRef.current.remove();
-                    tooltipRef.current = null;
-                }
-            });
-        }
+                const data: DisasterTrack = await response.json();
+                if (cancelled || !map.current || data.track.length < 2) return;
+
+                const points = data.track;
+                const start = new Date(points[0].date).getTime();
+                const span = Math.max(new Date(points[points.length - 1].date).getTime() - start, 1);
+                const progressOf = (date: string) => (new Date(date).getTime() - start) / span;
+
+                map.current.addSource('selected-track', {
+                    type: 'geojson',
+                    data: {
+                        type: 'FeatureCollection',
+                        features: [
+                            // One segment per consecutive pair so each can be colored by time
+                            ...points.slice(1).map((point, idx) => ({
+                                type: 'Feature' as const,
+                                geometry: {
+                                    type: 'LineString' as const,
+                                    coordinates: [[points[idx].lng, points[idx].lat], [point.lng, point.lat]],
+                                },
+                                properties: { progress: progressOf(point.date) },
+                            })),
+                            ...points.map((point) => ({
+                                type: 'Feature' as const,
+                                geometry: { type: 'Point' as const, coordinates: [point.lng, point.lat] },
+                                properties: { progress: progressOf(point.date), date: point.date },
+                            })),
+                        ],
+                    },
+                });
 
-        // Add earthquakes layer
-        if (earthquakes.length > 0) {
-            map.current.addSource('earthquakes', {
-                type: 'geojson',
-                data: {
-                    type: 'FeatureCollection',
-                    features: earthquakes.map((disaster) => ({
+                const latest = points[points.length - 1];
+                map.current.addSource('selected-track-latest', {
+                    type: 'geojson',
+                    data: {
                         type: 'Feature',
-                        geometry: {
-                            type: 'Point',
-                            coordinates: [disaster.lng, disaster.lat],
-                        },
-                        properties: disaster,
-                    })),
-                },
-            });
+                        geometry: { type: 'Point', coordinates: [latest.lng, latest.lat] },
+                        properties: { date: latest.date },
+                    },
+                });
+
+                // Insert beneath the first disaster marker layer so markers stay clickable
+                const beforeId = DISASTER_TYPES.map(t => t.layerId).find(id => map.current?.getLayer(id));
+
+                map.current.addLayer({
+                    id: 'selected-track-line',
+                    type: 'line',
+                    source: 'selected-track',
+                    filter: ['==', ['geometry-type'], 'LineString'],
+                    layout: { 'line-cap': 'round', 'line-join': 'round' },
+                    paint: {
+                        'line-color': TRACK_COLOR_RAMP,
+                        'line-width': 3,
+                        'line-opacity': 0.9,
+                    },
+                }, beforeId);
+
+                map.current.addLayer({
+                    id: 'selected-track-points',
+                    type: 'circle',
+                    source: 'selected-track',
+                    filter: ['==', ['geometry-type'], 'Point'],
+                    paint: {
+                        'circle-radius': 3,
+                        'circle-color': TRACK_COLOR_RAMP,
+                        'circle-stroke-width': 1,
+                        'circle-stroke-color': '#ffffff',
+                    },
+                }, beforeId);
+
+                map.current.addLayer({
+                    id: 'selected-track-latest',
+                    type: 'circle',
+                    source: 'selected-track-latest',
+                    paint: {
+                        'circle-radius': 12,
+                        'circle-color': 'rgba(239, 68, 68, 0.15)',
+                        'circle-stroke-width': 3,
+                        'circle-stroke-color': '#ef4444',
+                    },
+                }, beforeId);
 
-            map.current.addLayer({
-                id: 'earthquakes-layer',
-                type: 'circle',
-                source: 'earthquakes',
-                paint: {
-                    'circle-radius': [
-                        'case',
-                        ['==', ['get', 'severity'], 'high'],
-                        10, // Larger for high severity
-                        8
-                    ],
-                    'circle-color': '#FF8C00',
-                    'circle-stroke-width': [
-                        'case',
-                        ['==', ['get', 'severity'], 'high'],
-                        4, // Thicker stroke for high severity
-                        3  // Better visibility on satellite
-                    ],
-                    'circle-stroke-color': '#ffffff',
-                    'circle-stroke-opacity': 1.0,
-                    'circle-opacity': 0.9,
-                },
-            });
+                debugLog('map', `Drew ${points.length}-point track for ${selectedDisaster.id}`, 'success');
+            } catch (error) {
+                console.error('Error loading event track:', error);
+            }
+        };
 
-            // Add pulsing effect for high-severity earthquakes
-            const animateEarthquakes = () => {
-                if (!map.current || !map.current.getLayer('earthquakes-layer')) return;
+        loadTrack();
 
-                const phase = (Date.now() % 2000) / 2000; // 2 second cycle
-                const radius = 10 + Math.sin(phase * Math.PI * 2) * 3;
+        return () => {
+            cancelled = true;
+        };
+    }, [selectedDisaster]);
 
-                try {
-                    map.current.setPaintProperty('earthquakes-layer', 'circle-radius', [
-                        'case',
-                        ['==', ['get', 'severity'], 'high'],
-                        radius,
-                        8
-                    ]);
-                } catch (e) {
-                    // Layer might be removed during animation
-                }
-            };
+    // Draw the daily FIRMS perimeters of the selected fire, colored from oldest (blue) to newest (red)
+    useEffect(() => {
+        const mapInstance = map.current;
+        if (!mapInstance) return;
 
-            const earthquakesAnimationId = setInterval(animateEarthquakes, 50);
-            animationIdsRef.current.earthquakes = earthquakesAnimationId;
+        removePerimeterLayers(mapInstance);
 
-            // Add click handler
-            map.current.on('click', 'earthquakes-layer', (e) => {
-                e.preventDefault();
-                e.originalEvent?.stopPropagation();
-                if (e.features && e.features[0]) {
-                    const props = e.features[0].properties as any;
-                    // Handle both uppercase and lowercase coordinate properties
-                    const latValue = props.lat || props.Lat || props.latitude || props.Latitude || e.lngLat.lat;
-                    const lngValue = props.lng || props.Lng || props.longitude || props.Longitude || e.lngLat.lng;
-                    const latNum = parseFloat(String(latValue));
-                    const lngNum = parseFloat(String(lngValue));
+        if (!selectedDisaster || selectedDisaster.type !== 'fire') return;
 
-                    // Validate coordinates
-                    if (isNaN(latNum) || isNaN(lngNum)) {
-                        console.error('❌ Invalid coordinates:', { latValue, lngValue, latNum, lngNum });
-                        return;
-                    }
+        let cancelled = false;
 
-                    // Ensure lowercase lat/lng for consistency
-                    const disaster = {
-                        id: props.id || `earthquake_${Date.now()}`,
-                        type: props.type || 'earthquake',
-                        title: props.title || props.name || 'Earthquake Event',
-                        lat: latNum, // lowercase
-                        lng: lngNum, // lowercase
-                        date: props.date || props.start || new Date().toISOString(),
-                        severity: props.severity || 'medium',
-                        magnitude: props.magnitude ? parseFloat(props.magnitude) : undefined,
-                    };
-                    onDisasterSelect(disaster);
+        const loadPerimeters = async () => {
+            try {
+                const params = new URLSearchParams({ lat: String(selectedDisaster.lat), lng: String(selectedDisaster.lng) });
+                const response = await fetch(`${API_BASE}/api/fire-perimeter?${params}`);
+                if (!response.ok) {
+                    debugLog('map', `No perimeter available for ${selectedDisaster.id} (${response.status})`, 'warning');
+                    return;
                 }
-            });
 
-            // Change cursor on hover
-            map.current.on('mouseenter', 'earthquakes-layer', (e) => {
-                if (map.current) map.current.getCanvas().style.cursor = 'pointer';
+                const data: FirePerimeterResponse = await response.json();
+                if (cancelled || !map.current || data.features.length === 0) return;
+
+                const span = Math.max(data.features.length - 1, 1);
+                map.current.addSource(PERIMETER_SOURCE, {
+                    type: 'geojson',
+                    data: {
+                        type: 'FeatureCollection',
+                        features: data.features
+                            .map((feature, idx) => ({
+                                ...feature,
+                                properties: { ...feature.properties, progress: data.features.length === 1 ? 1 : idx / span },
+                            }))
+                            .reverse(),
+                    },
+                });
+
+                // Beneath the track and disaster markers so both stay clickable
+                const beforeId = [...TRACK_LAYERS, ...DISASTER_TYPES.map(t => t.layerId)].find(id => map.current?.getLayer(id));
+
+                map.current.addLayer({
+                    id: 'selected-perimeter-fill',
+                    type: 'fill',
+                    source: PERIMETER_SOURCE,
+                    paint: {
+                        'fill-color': TRACK_COLOR_RAMP,
+                        'fill-opacity': 0.2,
+                    },
+                }, beforeId);
+
+                map.current.addLayer({
+                    id: 'selected-perimeter-line',
+                    type: 'line',
+                    source: PERIMETER_SOURCE,
+                    paint: {
+                        'line-color': TRACK_COLOR_RAMP,
+                        'line-width': 1.5,
+                    },
+                }, beforeId);
 
-                // Show tooltip
-                if (e.features && e.features[0]) {
-                    const props = e.features[0].properties as any;
-                    const title = props.title || props.name || 'Earthquake Event';
-                    const magnitude = props.magnitude ? ` M${props.magnitude}` : '';
+                debugLog('map', `Drew ${data.features.length} daily perimeters for ${selectedDisaster.id} (${data.areaHa ?? 0} ha)`, 'success');
+            } catch (error) {
+                console.error('Error loading fire perimeter:', error);
+            }
+        };
 
-                    // Remove existing tooltip
-                    if (tooltipRef.current) {
-                        tooltipRef.current.remove();
-                    }
+        loadPerimeters();
 
-                    // Create new tooltip
-                    if (map.current) {
-                        tooltipRef.current = new mapboxgl.Popup({
-                            closeButton: false,
-                            closeOnClick: false,
-                            className: 'disaster-tooltip'
-                        })
-                            .setLngLat(e.lngLat)
-                            .setHTML(`<div class="text-sm font-medium">🌍 ${title}${magnitude}</div>`)
-                            .addTo(map.current);
-                    }
-                }
-            });
+        return () => {
+            cancelled = true;
+        };
+    }, [selectedDisaster]);
 
-            map.current.on('mouseleave', 'earthquakes-layer', () => {
-                if (map.current) map.current.getCanvas().style.cursor = '';
+    // Add disaster data layers to map
+    const addDisasterLayers = (collection: DisasterFeatureCollection) => {
+        if (!map.current) return;
 
-                // Remove tooltip
-                if (tooltipRef.current) {
-                    tooltipRef.current.remove();
-                    tooltipRef.current = null;
-                }
-            });
-        }
+        // Safety check: Clean up any existing layers first
+        removeDisasterLayers(map.current, animationIdsRef.current);
+
+        // ✅ Filter disasters based on active filters
+        const visibleFeatures = collection.features.filter(f => activeFilters.has(f.properties.type));
 
-        // Add volcanoes layer (similar to fires but different color)
-        if (volcanoes.length > 0) {
-            map.current.addSource('volcanoes', {
+        // One source + circle layer per disaster type, fed straight from the backend features
+        DISASTER_TYPES.forEach(({ type, eventLabel, emoji, sourceId, layerId, markerColor }) => {
+            if (!map.current) return;
+
+            const features = visibleFeatures.filter((f) => f.properties.type === type);
+            if (features.length === 0) return;
+
+            // DEBUG: Log layer creation
+            debugLog(
+                'map',
+                `Adding ${sourceId} layer with ${features.length} markers`,
+                'info'
+            );
+
+            map.current.addSource(sourceId, {
                 type: 'geojson',
-                data: {
-                    type: 'FeatureCollection',
-                    features: volcanoes.map((disaster) => ({
-                        type: 'Feature',
-                        geometry: {
-                            type: 'Point',
-                            coordinates: [disaster.lng, disaster.lat],
-                        },
-                        properties: disaster,
-                    })),
-                },
+                data: { type: 'FeatureCollection', features },
             });
 
             map.current.addLayer({
-                id: 'volcanoes-layer',
+                id: layerId,
                 type: 'circle',
-                source: 'volcanoes',
+                source: sourceId,
                 paint: {
                     'circle-radius': [
                         'case',
@@ -601,7 +815,7 @@ export default function MapBoard({ onDisasterSelect, activeFilters, onFilterTogg
                         10, // Larger for high severity
                         8
                     ],
-                    'circle-color': '#FF6B35',
+                    'circle-color': markerColor,
                     'circle-stroke-width': [
                         'case',
                         ['==', ['get', 'severity'], 'high'],
@@ -614,15 +828,15 @@ export default function MapBoard({ onDisasterSelect, activeFilters, onFilterTogg
                 },
             });
 
-            // Add pulsing effect for high-severity volcanoes
-            const animateVolcanoes = () => {
-                if (!map.current || !map.current.getLayer('volcanoes-layer')) return;
+            // Add pulsing effect for high-severity markers
+            const animate = () => {
+                if (!map.current || !map.current.getLayer(layerId)) return;
 
                 const phase = (Date.now() % 2000) / 2000; // 2 second cycle
                 const radius = 10 + Math.sin(phase * Math.PI * 2) * 3;
 
                 try {
-                    map.current.setPaintProperty('volcanoes-layer', 'circle-radius', [
+                    map.current.setPaintProperty(layerId, 'circle-radius', [
                         'case',
                         ['==', ['get', 'severity'], 'high'],
                         radius,
@@ -633,39 +847,65 @@ export default function MapBoard({ onDisasterSelect, activeFilters, onFilterTogg
                 }
             };
 
-            const volcanoesAnimationId = setInterval(animateVolcanoes, 50);
-            animationIdsRef.current.volcanoes = volcanoesAnimationId;
+            // Store animation ID for cleanup
+            animationIdsRef.current[sourceId] = setInterval(animate, 50);
 
             // Add click handler
-            map.current.on('click', 'volcanoes-layer', (e) => {
+            map.current.on('click', layerId, (e) => {
                 e.preventDefault();
                 e.originalEvent?.stopPropagation();
                 if (e.features && e.features[0]) {
                     const props = e.features[0].properties as any;
-                    // Handle both uppercase and lowercase coordinate properties
-                    const lat = props.lat || props.Lat || props.latitude || props.Latitude || e.lngLat.lat;
-                    const lng = props.lng || props.Lng || props.longitude || props.Longitude || e.lngLat.lng;
-                    const disaster = {
-                        id: props.id || `volcano_${Date.now()}`,
-                        type: props.type || 'volcano',
-                        title: props.title || props.name || 'Volcano Event',
-                        lat: parseFloat(String(lat)),
-                        lng: parseFloat(String(lng)),
+                    // Position comes from the Point geometry (falls back to the click location)
+                    const geometry = e.features[0].geometry;
+                    const [lngValue, latValue] = geometry.type === 'Point' ? geometry.coordinates : [e.lngLat.lng, e.lngLat.lat];
+                    const latNum = parseFloat(String(latValue));
+                    const lngNum = parseFloat(String(lngValue));
+
+                    // Validate coordinates
+                    if (isNaN(latNum) || isNaN(lngNum)) {
+                        console.error('❌ Invalid coordinates:', { latValue, lngValue, latNum, lngNum });
+                        return;
+                    }
+
+                    // Ensure lowercase lat/lng for consistency
+                    const disaster: Disaster = {
+                        id: props.id || `${type}_${Date.now()}`,
+                        type: props.type || type,
+                        title: props.title || props.name || eventLabel,
+                        lat: latNum,
+                        lng: lngNum,
                         date: props.date || props.start || new Date().toISOString(),
                         severity: props.severity || 'medium',
+                        magnitude: props.magnitude ? parseFloat(props.magnitude) : undefined,
+                        severityScore: props.severityScore != null ? Number(props.severityScore) : undefined,
+                        // Mapbox stringifies array properties
+                        severityReasons: typeof props.severityReasons === 'string'
+                            ? JSON.parse(props.severityReasons)
+                            : props.severityReasons,
+                        magnitudeValue: props.magnitudeValue != null ? Number(props.magnitudeValue) : undefined,
+                        magnitudeUnit: props.magnitudeUnit || undefined,
+                        alertLevel: props.alertLevel || undefined,
+                        alertUrl: props.alertUrl || undefined,
+                        // Mapbox stringifies object properties too
+                        fireCluster: typeof props.fireCluster === 'string'
+                            ? JSON.parse(props.fireCluster)
+                            : props.fireCluster,
+                        unconfirmed: props.unconfirmed === true || props.unconfirmed === 'true' || undefined,
                     };
                     onDisasterSelect(disaster);
                 }
             });
 
             // Change cursor on hover
-            map.current.on('mouseenter', 'volcanoes-layer', (e) => {
+            map.current.on('mouseenter', layerId, (e) => {
                 if (map.current) map.current.getCanvas().style.cursor = 'pointer';
 
                 // Show tooltip
                 if (e.features && e.features[0]) {
                     const props = e.features[0].properties as any;
-                    const title = props.title || props.name || 'Volcano Event';
+                    const title = props.title || props.name || eventLabel;
+                    const magnitude = type === 'earthquake' && props.magnitude ? ` M${props.magnitude}` : '';
 
                     // Remove existing tooltip
                     if (tooltipRef.current) {
@@ -680,13 +920,13 @@ export default function MapBoard({ onDisasterSelect, activeFilters, onFilterTogg
                             className: 'disaster-tooltip'
                         })
                             .setLngLat(e.lngLat)
-                            .setHTML(`<div class="text-sm font-medium">🌋 ${title}</div>`)
+                            .setHTML(`<div class="text-sm font-medium">${emoji} ${title}${magnitude}</div>`)
                             .addTo(map.current);
                     }
                 }
             });
 
-            map.current.on('mouseleave', 'volcanoes-layer', () => {
+            map.current.on('mouseleave', layerId, () => {
                 if (map.current) map.current.getCanvas().style.cursor = '';
 
                 // Remove tooltip
@@ -695,16 +935,11 @@ export default function MapBoard({ onDisasterSelect, activeFilters, onFilterTogg
                     tooltipRef.current = null;
                 }
             });
-        }
+        });
     };
 
     // Calculate disaster counts
-    const disasterCounts = {
-        fires: disasters.filter(d => d.type === 'fire').length,
-        volcanoes: disasters.filter(d => d.type === 'volcano').length,
-        earthquakes: disasters.filter(d => d.type === 'earthquake').length,
-        total: disasters.length,
-    };
+    const disasterCounts = countByType(disasters);
 
     return (
         <div className="relative w-full h-full">
@@ -911,15 +1146,22 @@ export default function MapBoard({ onDisasterSelect, activeFilters, onFilterTogg
                 </div>
             )}
 
+            {/* Degraded data banner - a feed failed or is served from its last-known-good snapshot */}
+            {!loading && !mapError && <DataStatusBanner sources={sourceStatus} />}
+
             {/* Map Legend - shows disaster types and counts */}
             {!loading && !mapError && (
                 <MapLegend
                     counts={disasterCounts}
                     lastUpdated={lastUpdated}
-                    onRefresh={handleRefresh}
+                    onRefresh={() => handleRefresh()}
                     isRefreshing={isRefreshing}
                     activeFilters={activeFilters}
                     onFilterToggle={onFilterToggle}
+                    earthquakeQuery={earthquakeQuery}
+                    onEarthquakeQueryChange={handleEarthquakeQueryChange}
+                    historyRange={historyRange}
+                    onHistoryRangeChange={handleHistoryRangeChange}
                 />
             )}
 
@@ -8,15 +8,12 @@
  */
 
 import { useState } from 'react';
-import { Flame, Mountain, Waves, RefreshCw, ChevronUp, ChevronDown } from 'lucide-react';
+import { RefreshCw, ChevronUp, ChevronDown, History } from 'lucide-react';
 import { useDesignSystem } from '../hooks/useDesignSystem';
+import { DISASTER_TYPES } from '../constants/disasterTypes';
+import type { DisasterType, EarthquakeQuery, EarthquakeWindow, HistoryRange } from '../types';
 
-interface DisasterCounts {
-    fires: number;
-    volcanoes: number;
-    earthquakes: number;
-    total: number;
-}
+export type DisasterCounts = Record<DisasterType, number> & { total: number };
 
 interface MapLegendProps {
     counts: DisasterCounts;
@@ -25,18 +22,43 @@ interface MapLegendProps {
     isRefreshing?: boolean;
     activeFilters: Set<string>;
     onFilterToggle: (type: string) => void;
+    earthquakeQuery?: EarthquakeQuery;
+    onEarthquakeQueryChange?: (query: EarthquakeQuery) => void;
+    historyRange?: HistoryRange | null; // Set while the map shows archived events
+    onHistoryRangeChange?: (range: HistoryRange | null) => void; // null returns to live data
 }
 
+const EARTHQUAKE_WINDOWS: Array<{ value: EarthquakeWindow; label: string }> = [
+    { value: 'hour', label: 'Past hour' },
+    { value: 'day', label: 'Past day' },
+    { value: 'week', label: 'Past week' },
+    { value: 'month', label: 'Past month' },
+];
+
+const EARTHQUAKE_MAGNITUDES = [0, 1, 2.5, 4.5, 6];
+
+// Default archive range offered in the date pickers: the past week (UTC days)
+const defaultHistoryRange = (): HistoryRange => {
+    const to = new Date();
+    const from = new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
+    return { from: from.toISOString().slice(0, 10), to: to.toISOString().slice(0, 10) };
+};
+
 export default function MapLegend({
     counts,
     lastUpdated,
     onRefresh,
     isRefreshing = false,
     activeFilters,
-    onFilterToggle
+    onFilterToggle,
+    earthquakeQuery,
+    onEarthquakeQueryChange,
+    historyRange,
+    onHistoryRangeChange,
 }: MapLegendProps) {
     const ds = useDesignSystem();
     const [isExpanded, setIsExpanded] = useState(true);
+    const [draftRange, setDraftRange] = useState<HistoryRange>(() => historyRange ?? defaultHistoryRange());
     const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
 
     // Track viewport size for responsive chevron direction
@@ -66,7 +88,7 @@ export default function MapLegend({
     const isActive = (type: string) => activeFilters.has(type);
 
     // Get disaster-specific colors from design system
-    const getDisasterColor = (type: 'fire' | 'volcano' | 'earthquake') => {
+    const getDisasterColor = (type: DisasterType) => {
         return ds.colors.disaster[type];
     };
 
@@ -78,6 +100,18 @@ export default function MapLegend({
         return `rgba(${r}, ${g}, ${b}, ${opacity / 100})`;
     };
 
+    // Compact dropdown styling for the earthquake feed controls
+    const selectStyle: React.CSSProperties = {
+        fontSize: '0.7rem',
+        fontWeight: '600',
+        padding: '3px 6px',
+        borderRadius: '6px',
+        color: ds.text.primary,
+        background: ds.surface.overlay,
+        border: `1px solid ${ds.surface.border}`,
+        cursor: isRefreshing ? 'not-allowed' : 'pointer',
+    };
+
     // Collapsed state
     if (!isExpanded) {
         return (
@@ -222,263 +256,224 @@ export default function MapLegend({
                         </span>
                     </div>
 
-                    {/* Disaster Type Rows - VERY COMPACT */}
-                    <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
-                        {/* Wildfires */}
-                        <button
-                            onClick={() => onFilterToggle('fire')}
-                            className="transition-all duration-200 hover:scale-[1.01] active:scale-[0.99]"
-                            style={{
-                                width: '100%',
-                                minHeight: '28px',
-                                border: 'none',
-                                cursor: 'pointer',
-                                background: 'transparent',
-                                padding: 0,
-                            }}
-                            aria-label={`Toggle wildfires filter - ${counts.fires} active`}
-                        >
-                            <div
+                    {/* Disaster Type Rows - VERY COMPACT (scrolls when many categories) */}
+                    <div
+                        className="custom-scrollbar"
+                        style={{ display: 'flex', flexDirection: 'column', gap: '6px', maxHeight: '40vh', overflowY: 'auto' }}
+                    >
+                        {DISASTER_TYPES.map(({ type, label, icon: Icon }) => (
+                            <button
+                                key={type}
+                                onClick={() => onFilterToggle(type)}
+                                className="transition-all duration-200 hover:scale-[1.01] active:scale-[0.99]"
                                 style={{
-                                    display: 'flex',
-                                    alignItems: 'center',
-                                    justifyContent: 'space-between',
-                                    gap: '12px',
-                                    padding: '7px 12px',
-                                    borderRadius: '8px',
-                                    background: isActive('fire')
-                                        ? addOpacity(getDisasterColor('fire'), 15)
-                                        : ds.surface.overlay,
-                                    border: `1px solid ${isActive('fire')
-                                        ? addOpacity(getDisasterColor('fire'), 45)
-                                        : ds.surface.border
-                                        }`,
-                                    opacity: isActive('fire') ? 1 : 0.65,
-                                    transition: 'all 0.2s ease',
+                                    width: '100%',
+                                    minHeight: '28px',
+                                    border: 'none',
+                                    cursor: 'pointer',
+                                    background: 'transparent',
+                                    padding: 0,
                                 }}
+                                aria-label={`Toggle ${label.toLowerCase()} filter - ${counts[type]} active`}
                             >
-                                <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
-                                    <div
-                                        style={{
-                                            width: '24px',
-                                            height: '24px',
-                                            borderRadius: '6px',
-                                            display: 'flex',
-                                            alignItems: 'center',
-                                            justifyContent: 'center',
-                                            background: isActive('fire')
-                                                ? getDisasterColor('fire')
-                                                : ds.surface.overlaySubtle,
-                                            boxShadow: isActive('fire')
-                                                ? `0 2px 8px ${addOpacity(getDisasterColor('fire'), 35)}`
-                                                : 'none',
-                                            flexShrink: 0,
-                                            transition: 'all 0.2s ease',
-                                        }}
-                                    >
-                                        <Flame
-                                            size={14}
-                                            strokeWidth={2.5}
+                                <div
+                                    style={{
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        justifyContent: 'space-between',
+                                        gap: '12px',
+                                        padding: '7px 12px',
+                                        borderRadius: '8px',
+                                        background: isActive(type)
+                                            ? addOpacity(getDisasterColor(type), 15)
+                                            : ds.surface.overlay,
+                                        border: `1px solid ${isActive(type)
+                                            ? addOpacity(getDisasterColor(type), 45)
+                                            : ds.surface.border
+                                            }`,
+                                        opacity: isActive(type) ? 1 : 0.65,
+                                        transition: 'all 0.2s ease',
+                                    }}
+                                >
+                                    <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                                        <div
+                                            style={{
+                                                width: '24px',
+                                                height: '24px',
+                                                borderRadius: '6px',
+                                                display: 'flex',
+                                                alignItems: 'center',
+                                                justifyContent: 'center',
+                                                background: isActive(type)
+                                                    ? getDisasterColor(type)
+                                                    : ds.surface.overlaySubtle,
+                                                boxShadow: isActive(type)
+                                                    ? `0 2px 8px ${addOpacity(getDisasterColor(type), 35)}`
+                                                    : 'none',
+                                                flexShrink: 0,
+                                                transition: 'all 0.2s ease',
+                                            }}
+                                        >
+                                            <Icon
+                                                size={14}
+                                                strokeWidth={2.5}
+                                                style={{
+                                                    color: isActive(type) ? '#ffffff' : ds.text.secondary,
+                                                }}
+                                            />
+                                        </div>
+                                        <span
                                             style={{
-                                                color: isActive('fire') ? '#ffffff' : ds.text.secondary,
+                                                fontSize: '0.75rem',
+                                                fontWeight: isActive(type) ? '700' : '600',
+                                                color: isActive(type) ? ds.text.primary : ds.text.secondary,
+                                                whiteSpace: 'nowrap',
                                             }}
-                                        />
+                                        >
+                                            {label}
+                                        </span>
                                     </div>
                                     <span
                                         style={{
-                                            fontSize: '0.75rem',
-                                            fontWeight: isActive('fire') ? '700' : '600',
-                                            color: isActive('fire') ? ds.text.primary : ds.text.secondary,
-                                            whiteSpace: 'nowrap',
+                                            fontSize: '0.95rem',
+                                            fontWeight: '800',
+                                            fontVariantNumeric: 'tabular-nums',
+                                            color: isActive(type) ? getDisasterColor(type) : ds.text.tertiary,
+                                            marginLeft: 'auto',
                                         }}
                                     >
-                                        Wildfires
+                                        {counts[type].toLocaleString()}
                                     </span>
                                 </div>
-                                <span
-                                    style={{
-                                        fontSize: '0.95rem',
-                                        fontWeight: '800',
-                                        fontVariantNumeric: 'tabular-nums',
-                                        color: isActive('fire') ? getDisasterColor('fire') : ds.text.tertiary,
-                                        marginLeft: 'auto',
-                                    }}
-                                >
-                                    {counts.fires.toLocaleString()}
-                                </span>
-                            </div>
-                        </button>
+                            </button>
+                        ))}
+                    </div>
 
-                        {/* Volcanoes */}
-                        <button
-                            onClick={() => onFilterToggle('volcano')}
-                            className="transition-all duration-200 hover:scale-[1.01] active:scale-[0.99]"
+                    {/* Earthquake Feed Controls - USGS window + minimum magnitude */}
+                    {earthquakeQuery && onEarthquakeQueryChange && (
+                        <div
                             style={{
-                                width: '100%',
-                                minHeight: '28px',
-                                border: 'none',
-                                cursor: 'pointer',
-                                background: 'transparent',
-                                padding: 0,
+                                display: 'flex',
+                                alignItems: 'center',
+                                justifyContent: 'space-between',
+                                gap: '8px',
+                                marginTop: '10px',
+                                paddingTop: '10px',
+                                borderTop: `1px solid ${ds.surface.border}`,
                             }}
-                            aria-label={`Toggle volcanoes filter - ${counts.volcanoes} active`}
                         >
-                            <div
+                            <span
                                 style={{
-                                    display: 'flex',
-                                    alignItems: 'center',
-                                    justifyContent: 'space-between',
-                                    gap: '12px',
-                                    padding: '7px 12px',
-                                    borderRadius: '8px',
-                                    background: isActive('volcano')
-                                        ? addOpacity(getDisasterColor('volcano'), 15)
-                                        : ds.surface.overlay,
-                                    border: `1px solid ${isActive('volcano')
-                                        ? addOpacity(getDisasterColor('volcano'), 45)
-                                        : ds.surface.border
-                                        }`,
-                                    opacity: isActive('volcano') ? 1 : 0.65,
-                                    transition: 'all 0.2s ease',
+                                    fontSize: '0.65rem',
+                                    fontWeight: '700',
+                                    textTransform: 'uppercase',
+                                    letterSpacing: '0.05em',
+                                    color: ds.text.secondary,
+                                    whiteSpace: 'nowrap',
                                 }}
                             >
-                                <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
-                                    <div
-                                        style={{
-                                            width: '24px',
-                                            height: '24px',
-                                            borderRadius: '6px',
-                                            display: 'flex',
-                                            alignItems: 'center',
-                                            justifyContent: 'center',
-                                            background: isActive('volcano')
-                                                ? getDisasterColor('volcano')
-                                                : ds.surface.overlaySubtle,
-                                            boxShadow: isActive('volcano')
-                                                ? `0 2px 8px ${addOpacity(getDisasterColor('volcano'), 35)}`
-                                                : 'none',
-                                            flexShrink: 0,
-                                            transition: 'all 0.2s ease',
-                                        }}
-                                    >
-                                        <Mountain
-                                            size={14}
-                                            strokeWidth={2.5}
-                                            style={{
-                                                color: isActive('volcano') ? '#ffffff' : ds.text.secondary,
-                                            }}
-                                        />
-                                    </div>
-                                    <span
-                                        style={{
-                                            fontSize: '0.75rem',
-                                            fontWeight: isActive('volcano') ? '700' : '600',
-                                            color: isActive('volcano') ? ds.text.primary : ds.text.secondary,
-                                            whiteSpace: 'nowrap',
-                                        }}
-                                    >
-                                        Volcanoes
-                                    </span>
-                                </div>
-                                <span
-                                    style={{
-                                        fontSize: '0.95rem',
-                                        fontWeight: '800',
-                                        fontVariantNumeric: 'tabular-nums',
-                                        color: isActive('volcano') ? getDisasterColor('volcano') : ds.text.tertiary,
-                                        marginLeft: 'auto',
-                                    }}
+                                Quakes
+                            </span>
+                            <div style={{ display: 'flex', gap: '6px' }}>
+                                <select
+                                    value={earthquakeQuery.window}
+                                    onChange={(e) => onEarthquakeQueryChange({ ...earthquakeQuery, window: e.target.value as EarthquakeWindow })}
+                                    disabled={isRefreshing || !!historyRange}
+                                    style={selectStyle}
+                                    aria-label="Earthquake time window"
                                 >
-                                    {counts.volcanoes.toLocaleString()}
-                                </span>
+                                    {EARTHQUAKE_WINDOWS.map(({ value, label }) => (
+                                        <option key={value} value={value}>{label}</option>
+                                    ))}
+                                </select>
+                                <select
+                                    value={earthquakeQuery.minMagnitude}
+                                    onChange={(e) => onEarthquakeQueryChange({ ...earthquakeQuery, minMagnitude: parseFloat(e.target.value) })}
+                                    disabled={isRefreshing || !!historyRange}
+                                    style={selectStyle}
+                                    aria-label="Minimum earthquake magnitude"
+                                >
+                                    {EARTHQUAKE_MAGNITUDES.map((mag) => (
+                                        <option key={mag} value={mag}>{mag === 0 ? 'All M' : `M${mag.toFixed(1)}+`}</option>
+                                    ))}
+                                </select>
                             </div>
-                        </button>
+                        </div>
+                    )}
 
-                        {/* Earthquakes */}
-                        <button
-                            onClick={() => onFilterToggle('earthquake')}
-                            className="transition-all duration-200 hover:scale-[1.01] active:scale-[0.99]"
+                    {/* History Controls - load archived events for a past date range */}
+                    {onHistoryRangeChange && (
+                        <div
                             style={{
-                                width: '100%',
-                                minHeight: '28px',
-                                border: 'none',
-                                cursor: 'pointer',
-                                background: 'transparent',
-                                padding: 0,
+                                display: 'flex',
+                                flexDirection: 'column',
+                                gap: '6px',
+                                marginTop: '10px',
+                                paddingTop: '10px',
+                                borderTop: `1px solid ${ds.surface.border}`,
                             }}
-                            aria-label={`Toggle earthquakes filter - ${counts.earthquakes} active`}
                         >
-                            <div
-                                style={{
-                                    display: 'flex',
-                                    alignItems: 'center',
-                                    justifyContent: 'space-between',
-                                    gap: '12px',
-                                    padding: '7px 12px',
-                                    borderRadius: '8px',
-                                    background: isActive('earthquake')
-                                        ? addOpacity(getDisasterColor('earthquake'), 15)
-                                        : ds.surface.overlay,
-                                    border: `1px solid ${isActive('earthquake')
-                                        ? addOpacity(getDisasterColor('earthquake'), 45)
-                                        : ds.surface.border
-                                        }`,
-                                    opacity: isActive('earthquake') ? 1 : 0.65,
-                                    transition: 'all 0.2s ease',
-                                }}
-                            >
-                                <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
-                                    <div
-                                        style={{
-                                            width: '24px',
-                                            height: '24px',
-                                            borderRadius: '6px',
-                                            display: 'flex',
-                                            alignItems: 'center',
-                                            justifyContent: 'center',
-                                            background: isActive('earthquake')
-                                                ? getDisasterColor('earthquake')
-                                                : ds.surface.overlaySubtle,
-                                            boxShadow: isActive('earthquake')
-                                                ? `0 2px 8px ${addOpacity(getDisasterColor('earthquake'), 35)}`
-                                                : 'none',
-                                            flexShrink: 0,
-                                            transition: 'all 0.2s ease',
-                                        }}
-                                    >
-                                        <Waves
-                                            size={14}
-                                            strokeWidth={2.5}
-                                            style={{
-                                                color: isActive('earthquake') ? '#ffffff' : ds.text.secondary,
-                                            }}
-                                        />
-                                    </div>
-                                    <span
-                                        style={{
-                                            fontSize: '0.75rem',
-                                            fontWeight: isActive('earthquake') ? '700' : '600',
-                                            color: isActive('earthquake') ? ds.text.primary : ds.text.secondary,
-                                            whiteSpace: 'nowrap',
-                                        }}
-                                    >
-                                        Earthquakes
-                                    </span>
-                                </div>
+                            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
                                 <span
                                     style={{
-                                        fontSize: '0.95rem',
-                                        fontWeight: '800',
-                                        fontVariantNumeric: 'tabular-nums',
-                                        color: isActive('earthquake') ? getDisasterColor('earthquake') : ds.text.tertiary,
-                                        marginLeft: 'auto',
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        gap: '4px',
+                                        fontSize: '0.65rem',
+                                        fontWeight: '700',
+                                        textTransform: 'uppercase',
+                                        letterSpacing: '0.05em',
+                                        color: historyRange ? ds.colors.status.warning : ds.text.secondary,
+                                        whiteSpace: 'nowrap',
                                     }}
                                 >
-                                    {counts.earthquakes.toLocaleString()}
+                                    <History size={10} strokeWidth={2.5} />
+                                    {historyRange ? 'Archive' : 'History'}
                                 </span>
+                                <div style={{ display: 'flex', gap: '6px' }}>
+                                    <button
+                                        onClick={() => onHistoryRangeChange({ ...draftRange })}
+                                        disabled={isRefreshing || !draftRange.from || !draftRange.to || draftRange.from > draftRange.to}
+                                        style={selectStyle}
+                                        aria-label="Load archived disasters for the selected dates"
+                                    >
+                                        Load
+                                    </button>
+                                    {historyRange && (
+                                        <button
+                                            onClick={() => onHistoryRangeChange(null)}
+                                            disabled={isRefreshing}
+                                            style={{ ...selectStyle, color: ds.colors.status.success }}
+                                            aria-label="Return to live disaster data"
+                                        >
+                                            Live
+                                        </button>
+                                    )}
+                                </div>
                             </div>
-                        </button>
-                    </div>
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                                <input
+                                    type="date"
+                                    value={draftRange.from}
+                                    max={draftRange.to}
+                                    onChange={(e) => setDraftRange({ ...draftRange, from: e.target.value })}
+                                    disabled={isRefreshing}
+                                    style={{ ...selectStyle, flex: 1, colorScheme: ds.isDark ? 'dark' : 'light' }}
+                                    aria-label="Archive start date (UTC)"
+                                />
+                                <span style={{ fontSize: '0.65rem', color: ds.text.secondary }}>→</span>
+                                <input
+                                    type="date"
+                                    value={draftRange.to}
+                                    min={draftRange.from}
+                                    onChange={(e) => setDraftRange({ ...draftRange, to: e.target.value })}
+                                    disabled={isRefreshing}
+                                    style={{ ...selectStyle, flex: 1, colorScheme: ds.isDark ? 'dark' : 'light' }}
+                                    aria-label="Archive end date (UTC)"
+                                />
+                            </div>
+                        </div>
+                    )}
                 </div>
 
                 {/* Footer - VERY COMPACT */}
@@ -500,7 +495,7 @@ export default function MapLegend({
                                 color: ds.text.secondary,
                             }}
                         >
-                            Updated
+                            {historyRange ? 'Archive' : 'Updated'}
                         </span>
                         <span
                             style={{
@@ -509,7 +504,9 @@ export default function MapLegend({
                                 color: ds.text.primary,
                             }}
                         >
-                            {lastUpdated ? formatTime(lastUpdated) : 'Just now'}
+                            {historyRange
+                                ? `${historyRange.from} → ${historyRange.to}`
+                                : lastUpdated ? formatTime(lastUpdated) : 'Just now'}
                         </span>
                     </div>
                     {onRefresh && (
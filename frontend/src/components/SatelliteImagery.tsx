@@ -1,11 +1,12 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
 import { Satellite, Download, ExternalLink, Flame, AlertCircle, MapPin } from 'lucide-react';
 import { useDesignSystem } from '../hooks/useDesignSystem';
+import type { DisasterType, FirePerimeterResponse } from '../types';
 
 interface SatelliteImageryProps {
   lat: number;
   lng: number;
-  disasterType: 'fire' | 'volcano' | 'earthquake';
+  disasterType: DisasterType;
   date?: string;
   title: string;
 }
@@ -18,8 +19,35 @@ interface FireHotspot {
   frp: number;         // Fire Radiative Power (MW)
   acq_date: string;
   acq_time: string;
+  sensor: 'viirs-snpp' | 'viirs-noaa20' | 'viirs-noaa21' | 'modis';
 }
 
+const SENSOR_LABELS: Record<FireHotspot['sensor'], string> = {
+  'viirs-snpp': 'VIIRS S-NPP',
+  'viirs-noaa20': 'VIIRS NOAA-20',
+  'viirs-noaa21': 'VIIRS NOAA-21',
+  modis: 'MODIS',
+};
+
+type PerimeterFeature = FirePerimeterResponse['features'][number];
+
+// FIRMS search radius; the Fire Hotspots image covers the same circle's bounding box
+const RADIUS_OPTIONS_KM = [25, 55, 100] as const;
+const DEFAULT_RADIUS_KM = 55;
+const KM_PER_DEGREE = 111.32;
+
+// Half-size of the image window in degrees, wider in longitude away from the equator (as the backend's FIRMS box)
+const imageHalfSpan = (lat: number, radiusKm: number) => ({
+  lat: radiusKm / KM_PER_DEGREE,
+  lng: radiusKm / (KM_PER_DEGREE * Math.max(0.01, Math.cos((lat * Math.PI) / 180))),
+});
+
+// Oldest perimeter blue, newest red (same ramp as the map overlay)
+const perimeterColor = (index: number, count: number) => {
+  const progress = count > 1 ? index / (count - 1) : 1;
+  return `hsl(${Math.round(215 * (1 - progress))}, 90%, 60%)`;
+};
+
 export default function SatelliteImagery({ lat, lng, disasterType, date, title }: SatelliteImageryProps) {
   const ds = useDesignSystem();
   const [imageUrl, setImageUrl] = useState<string>('');
@@ -33,11 +61,22 @@ export default function SatelliteImagery({ lat, lng, disasterType, date, title }
     highConfidence: number;
     avgTemp: number;
     maxFRP: number;
+    sensors: [FireHotspot['sensor'], number][];
+    unavailableSources: string[];
   } | null>(null);
   const [overlayLoadError, setOverlayLoadError] = useState(false);
   const [imageLoadError, setImageLoadError] = useState(false);
   const [imageKey, setImageKey] = useState(0); // Force re-render of img element
   const [fetchingFire, setFetchingFire] = useState(false);
+  const [perimeters, setPerimeters] = useState<PerimeterFeature[]>([]);
+  const [radiusKm, setRadiusKm] = useState<number>(DEFAULT_RADIUS_KM);
+  const halfSpan = useMemo(() => imageHalfSpan(lat, radiusKm), [lat, radiusKm]);
+
+  // Position in the image window, in percent from the top-left corner (north up)
+  const toImagePercent = (pointLat: number, pointLng: number) => ({
+    x: ((pointLng - lng) / (halfSpan.lng * 2)) * 100 + 50,
+    y: 50 - ((pointLat - lat) / (halfSpan.lat * 2)) * 100,
+  });
 
   // Calculate visible marker count (markers within image bounds)
   const visibleMarkerCount = useMemo(() => {
@@ -45,22 +84,75 @@ export default function SatelliteImagery({ lat, lng, disasterType, date, title }
       return 0;
     }
 
-    const bboxSize = 0.5;
-    const imgBboxSize = bboxSize * 2;
     let count = 0;
 
     fireHotspots.slice(0, 30).forEach((hotspot) => {
-      const relLng = ((hotspot.longitude - lng) / imgBboxSize) * 100 + 50;
-      const relLat = ((hotspot.latitude - lat) / imgBboxSize) * 100 + 50;
+      const x = ((hotspot.longitude - lng) / (halfSpan.lng * 2)) * 100 + 50;
+      const y = 50 - ((hotspot.latitude - lat) / (halfSpan.lat * 2)) * 100;
 
       // Count if within bounds
-      if (relLng >= -5 && relLng <= 105 && relLat >= -5 && relLat <= 105) {
+      if (x >= -5 && x <= 105 && y >= -5 && y <= 105) {
         count++;
       }
     });
 
     return count;
-  }, [fireHotspots, disasterType, selectedLayer, lat, lng]);
+  }, [fireHotspots, disasterType, selectedLayer, lat, lng, halfSpan]);
+
+  const fetchFireHotspots = useCallback(async (lat: number, lng: number) => {
+    // Reset state before fetching
+    setFireHotspots([]);
+    setFireStats(null);
+    setFetchingFire(true);
+
+    try {
+      // Use our backend proxy to hide the API key and avoid CORS issues
+      const url = `${import.meta.env.VITE_API_BASE_URL || 'http://localhost:8787'}/api/fire-hotspots?lat=${lat}&lng=${lng}&radiusKm=${radiusKm}`;
+
+      const response = await fetch(url);
+      if (!response.ok) {
+        console.warn(`FIRMS API error: ${response.status}`);
+        return;
+      }
+
+      const data = await response.json();
+
+      if (data.error) {
+        console.warn(`Backend API error: ${data.error}`);
+        return;
+      }
+
+      if (!data.hotspots || data.hotspots.length === 0) {
+        return;
+      }
+
+      const hotspots: FireHotspot[] = data.hotspots.filter((h: any) => h.confidence !== 'l' && h.confidence !== 'low');
+
+      setFireHotspots(hotspots);
+
+      // Calculate statistics
+      if (hotspots.length > 0) {
+        const highConf = hotspots.filter(h => h.confidence === 'h' || h.confidence === 'high').length;
+        const avgTemp = hotspots.reduce((sum, h) => sum + h.bright_ti4, 0) / hotspots.length;
+        const maxFRP = Math.max(...hotspots.map(h => h.frp));
+        const sensorCounts = new Map<FireHotspot['sensor'], number>();
+        hotspots.forEach(h => sensorCounts.set(h.sensor, (sensorCounts.get(h.sensor) ?? 0) + 1));
+
+        setFireStats({
+          total: hotspots.length,
+          highConfidence: highConf,
+          avgTemp,
+          maxFRP,
+          sensors: [...sensorCounts.entries()].sort((a, b) => b[1] - a[1]),
+          unavailableSources: data.unavailableSources ?? [],
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching FIRMS data:', error);
+    } finally {
+      setFetchingFire(false);
+    }
+  }, [radiusKm]);
 
   useEffect(() => {
     // ✅ CRITICAL: MODIS imagery has 3-4 day processing delay
@@ -78,6 +170,7 @@ export default function SatelliteImagery({ lat, lng, disasterType, date, title }
     // Fetch fire data for wildfires (uses near real-time FIRMS API)
     if (disasterType === 'fire') {
       fetchFireHotspots(lat, lng);
+      fetchFirePerimeters(lat, lng);
     }
 
     // ✅ Update imagery - only MODIS layers need the date parameter
@@ -86,7 +179,7 @@ export default function SatelliteImagery({ lat, lng, disasterType, date, title }
     } else {
       updateImagery(lat, lng, modisDateStr);  // MODIS layers use 4-day-old date
     }
-  }, [lat, lng, disasterType, date, selectedLayer]);
+  }, [lat, lng, disasterType, date, selectedLayer, radiusKm, fetchFireHotspots]);
 
   // Handle cached images that don't fire onLoad
   useEffect(() => {
@@ -107,60 +200,39 @@ export default function SatelliteImagery({ lat, lng, disasterType, date, title }
       case 'volcano':
         return 'ASTER_Volcanic_Sulfur_Dioxide_Index,MODIS_Terra_CorrectedReflectance_Bands721,MODIS_Aqua_CorrectedReflectance_Bands721,Coastlines_15m';
       case 'earthquake':
+      case 'landslide':
         return 'MODIS_Terra_CorrectedReflectance_Bands721,Landsat_WELD_CorrectedReflectance_Bands721_Global_Annual,Coastlines_15m';
+      case 'storm':
+        return 'VIIRS_NOAA20_CorrectedReflectance_TrueColor,IMERG_Precipitation_Rate,Coastlines_15m';
+      case 'flood':
+        return 'MODIS_Terra_CorrectedReflectance_Bands721,MODIS_Combined_Flood_2-Day,Coastlines_15m';
+      case 'dust':
+        return 'MODIS_Terra_CorrectedReflectance_TrueColor,MODIS_Combined_Value_Added_AOD,Coastlines_15m';
+      case 'ice':
+      case 'snow':
+        return 'MODIS_Terra_CorrectedReflectance_TrueColor,MODIS_Terra_NDSI_Snow_Cover,Coastlines_15m';
+      case 'drought':
+        return 'MODIS_Terra_CorrectedReflectance_TrueColor,MODIS_Terra_L3_NDVI_16Day,Coastlines_15m';
       default:
         return 'Reference_Labels_15m,Coastlines_15m';
     }
   };
 
-  const fetchFireHotspots = async (lat: number, lng: number) => {
-    // Reset state before fetching
-    setFireHotspots([]);
-    setFireStats(null);
-    setFetchingFire(true);
+  const fetchFirePerimeters = async (lat: number, lng: number) => {
+    setPerimeters([]);
 
     try {
-      // Use our backend proxy to hide the API key and avoid CORS issues
-      const url = `${import.meta.env.VITE_API_BASE_URL || 'http://localhost:8787'}/api/fire-hotspots?lat=${lat}&lng=${lng}`;
-
+      const url = `${import.meta.env.VITE_API_BASE_URL || 'http://localhost:8787'}/api/fire-perimeter?lat=${lat}&lng=${lng}`;
       const response = await fetch(url);
       if (!response.ok) {
-        console.warn(`FIRMS API error: ${response.status}`);
+        console.warn(`Fire perimeter API error: ${response.status}`);
         return;
       }
 
-      const data = await response.json();
-
-      if (data.error) {
-        console.warn(`Backend API error: ${data.error}`);
-        return;
-      }
-
-      if (!data.hotspots || data.hotspots.length === 0) {
-        return;
-      }
-
-      const hotspots: FireHotspot[] = data.hotspots.filter((h: any) => h.confidence !== 'l' && h.confidence !== 'low');
-
-      setFireHotspots(hotspots);
-
-      // Calculate statistics
-      if (hotspots.length > 0) {
-        const highConf = hotspots.filter(h => h.confidence === 'h' || h.confidence === 'high').length;
-        const avgTemp = hotspots.reduce((sum, h) => sum + h.bright_ti4, 0) / hotspots.length;
-        const maxFRP = Math.max(...hotspots.map(h => h.frp));
-
-        setFireStats({
-          total: hotspots.length,
-          highConfidence: highConf,
-          avgTemp,
-          maxFRP
-        });
-      }
+      const data: FirePerimeterResponse = await response.json();
+      setPerimeters(data.features ?? []);
     } catch (error) {
-      console.error('Error fetching FIRMS data:', error);
-    } finally {
-      setFetchingFire(false);
+      console.error('Error fetching fire perimeters:', error);
     }
   };
 
@@ -174,8 +246,11 @@ export default function SatelliteImagery({ lat, lng, disasterType, date, title }
 
     if (disasterType === 'fire' && selectedLayer === 'fire') {
       // ✅ Fire Hotspots: MODIS Aqua True Color (natural colors) + VIIRS overlay
-      // CRITICAL: All three (base, overlay, markers) use SAME ±0.5° bbox for alignment
-      const bboxSize = 0.5; // ±0.5° = ~55km radius - MUST match marker calculation!
+      // CRITICAL: All three (base, overlay, markers) use the SAME bbox (the FIRMS search radius) for alignment
+      const south = lat - halfSpan.lat;
+      const north = lat + halfSpan.lat;
+      const west = lng - halfSpan.lng;
+      const east = lng + halfSpan.lng;
 
       // MODIS has 3-day processing delay, use historical date for base layer
       const modisDateObj = new Date();
@@ -191,10 +266,10 @@ export default function SatelliteImagery({ lat, lng, disasterType, date, title }
 
       console.log('🔥 Fire Hotspots WMS Config:', {
         center: { lat, lng },
-        bboxSize,
+        radiusKm,
         bboxRange: {
-          lat: [lat - bboxSize, lat + bboxSize],
-          lng: [lng - bboxSize, lng + bboxSize]
+          lat: [south, north],
+          lng: [west, east]
         },
         modisDate: modisDateStr,
         firmsDate: firmsDateStr
@@ -202,11 +277,11 @@ export default function SatelliteImagery({ lat, lng, disasterType, date, title }
 
       // Base layer: MODIS Aqua natural color (WMS with explicit BBOX)
       // GIBS WMS 1.3.0 EPSG:4326 uses lat,lng order: minLat,minLng,maxLat,maxLng
-      const baseUrl = `https://gibs.earthdata.nasa.gov/wms/epsg4326/best/wms.cgi?SERVICE=WMS&REQUEST=GetMap&VERSION=1.3.0&LAYERS=MODIS_Aqua_CorrectedReflectance_TrueColor&TIME=${modisDateStr}&CRS=EPSG:4326&WIDTH=800&HEIGHT=600&BBOX=${lat - bboxSize},${lng - bboxSize},${lat + bboxSize},${lng + bboxSize}&FORMAT=image/jpeg`;
+      const baseUrl = `https://gibs.earthdata.nasa.gov/wms/epsg4326/best/wms.cgi?SERVICE=WMS&REQUEST=GetMap&VERSION=1.3.0&LAYERS=MODIS_Aqua_CorrectedReflectance_TrueColor&TIME=${modisDateStr}&CRS=EPSG:4326&WIDTH=800&HEIGHT=600&BBOX=${south},${west},${north},${east}&FORMAT=image/jpeg`;
       setImageUrl(baseUrl);
 
       // VIIRS fire overlay - use SAME bbox order and today's date for current fire data
-      const fireOverlay = `https://gibs.earthdata.nasa.gov/wms/epsg4326/best/wms.cgi?SERVICE=WMS&REQUEST=GetMap&VERSION=1.3.0&LAYERS=VIIRS_NOAA20_Thermal_Anomalies_375m_All&TIME=${firmsDateStr}&CRS=EPSG:4326&WIDTH=800&HEIGHT=600&BBOX=${lat - bboxSize},${lng - bboxSize},${lat + bboxSize},${lng + bboxSize}&FORMAT=image/png&TRANSPARENT=true`;
+      const fireOverlay = `https://gibs.earthdata.nasa.gov/wms/epsg4326/best/wms.cgi?SERVICE=WMS&REQUEST=GetMap&VERSION=1.3.0&LAYERS=VIIRS_NOAA20_Thermal_Anomalies_375m_All&TIME=${firmsDateStr}&CRS=EPSG:4326&WIDTH=800&HEIGHT=600&BBOX=${south},${west},${north},${east}&FORMAT=image/png&TRANSPARENT=true`;
       setOverlayUrl(fireOverlay);
 
     } else if (selectedLayer === 'thermal') {
@@ -241,6 +316,29 @@ export default function SatelliteImagery({ lat, lng, disasterType, date, title }
     return 'bg-yellow-500';
   };
 
+  // FIRMS search radius (also sizes the Fire Hotspots image)
+  const radiusSelector = (
+    <div className="flex items-center" style={{ gap: '4px', marginLeft: 'auto' }}>
+      {RADIUS_OPTIONS_KM.map((option) => (
+        <button
+          key={option}
+          onClick={() => setRadiusKm(option)}
+          style={{
+            padding: '2px 6px',
+            fontSize: '0.625rem',
+            borderRadius: '6px',
+            cursor: 'pointer',
+            border: `1px solid ${option === radiusKm ? 'rgba(249, 115, 22, 0.6)' : ds.surface.border}`,
+            background: option === radiusKm ? 'rgba(249, 115, 22, 0.2)' : 'transparent',
+            color: option === radiusKm ? '#fb923c' : ds.text.tertiary,
+          }}
+        >
+          {option} km
+        </button>
+      ))}
+    </div>
+  );
+
   return (
     <div
       className="relative overflow-hidden transition-all duration-200"
@@ -336,6 +434,7 @@ export default function SatelliteImagery({ lat, lng, disasterType, date, title }
               <div className="flex items-center" style={{ gap: '10px' }}>
                 <Flame size={14} style={{ color: ds.isDark ? '#f87171' : '#dc2626' }} />
                 <span className="font-semibold" style={{ fontSize: '0.875rem', color: ds.text.primary }}>Active Fire Hotspots (7 days)</span>
+                {radiusSelector}
               </div>
 
               <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '12px' }}>
@@ -379,6 +478,41 @@ export default function SatelliteImagery({ lat, lng, disasterType, date, title }
                   <span style={{ fontSize: '0.625rem', marginLeft: '4px', color: ds.text.tertiary }}>(industrial-scale heat)</span>
                 </span>
               </div>
+
+              {/* Detections per sensor (cross-sensor duplicates already removed by the backend) */}
+              <div style={{ fontSize: '0.6875rem', color: ds.text.secondary }}>
+                <div className="flex flex-wrap" style={{ gap: '4px 10px' }}>
+                  {fireStats.sensors.map(([sensor, count]) => (
+                    <span key={sensor}>
+                      {SENSOR_LABELS[sensor] ?? sensor}: <span className="font-semibold" style={{ color: ds.text.primary }}>{count}</span>
+                    </span>
+                  ))}
+                </div>
+                {fireStats.unavailableSources.length > 0 && (
+                  <div style={{ color: '#fbbf24', marginTop: '4px' }}>
+                    ⚠️ Unavailable: {fireStats.unavailableSources.join(', ')}
+                  </div>
+                )}
+              </div>
+
+              {/* Daily perimeter area and growth (drawn on the Fire Hotspots image) */}
+              {perimeters.length > 0 && (
+                <div style={{ fontSize: '0.6875rem', color: ds.text.secondary }}>
+                  <div className="font-semibold" style={{ color: ds.text.primary, marginBottom: '4px' }}>
+                    Perimeter: {perimeters[perimeters.length - 1].properties.areaHa.toLocaleString('en-US')} ha
+                  </div>
+                  {perimeters.map((feature, idx) => (
+                    <div key={feature.properties.date} className="flex items-center" style={{ gap: '6px' }}>
+                      <span style={{ width: '8px', height: '8px', borderRadius: '2px', background: perimeterColor(idx, perimeters.length) }} />
+                      <span style={{ fontFamily: 'monospace' }}>{feature.properties.date}</span>
+                      <span>{feature.properties.areaHa.toLocaleString('en-US')} ha</span>
+                      <span style={{ color: feature.properties.growthHa > 0 ? '#fb923c' : ds.text.tertiary }}>
+                        ({feature.properties.growthHa >= 0 ? '+' : ''}{feature.properties.growthHa.toLocaleString('en-US')} ha)
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           ) : (
             <div
@@ -394,8 +528,9 @@ export default function SatelliteImagery({ lat, lng, disasterType, date, title }
               <Flame size={22} className="mb-2" style={{ color: ds.text.tertiary }} />
               <p className="text-sm font-medium" style={{ color: ds.text.secondary }}>No Active Hotspots</p>
               <p className="text-xs mt-1 max-w-[200px]" style={{ color: ds.text.tertiary }}>
-                Satellite thermal sensors have not detected significant heat anomalies in this area recently.
+                Satellite thermal sensors have not detected significant heat anomalies within {radiusKm} km recently.
               </p>
+              <div className="flex" style={{ marginTop: '8px' }}>{radiusSelector}</div>
             </div>
           )}
         </div>
@@ -612,6 +747,33 @@ export default function SatelliteImagery({ lat, lng, disasterType, date, title }
                 />
               )}
 
+              {/* Daily Fire Perimeters - newest at the bottom so older days stay visible on top */}
+              {disasterType === 'fire' && selectedLayer === 'fire' && perimeters.length > 0 && (
+                <svg
+                  className="absolute inset-0 w-full h-full pointer-events-none"
+                  viewBox="0 0 100 100"
+                  preserveAspectRatio="none"
+                  style={{ zIndex: 5 }}
+                >
+                  {perimeters.map((feature, idx) => ({ feature, idx })).reverse().map(({ feature, idx }) =>
+                    feature.geometry.coordinates.map((polygon, polygonIdx) => (
+                      <polygon
+                        key={`${feature.properties.date}-${polygonIdx}`}
+                        // Same window as the WMS imagery and markers
+                        points={polygon[0].map(([pLng, pLat]) => {
+                          const { x, y } = toImagePercent(pLat, pLng);
+                          return `${x},${y}`;
+                        }).join(' ')}
+                        fill={perimeterColor(idx, perimeters.length)}
+                        fillOpacity={0.2}
+                        stroke={perimeterColor(idx, perimeters.length)}
+                        strokeWidth={0.4}
+                      />
+                    ))
+                  )}
+                </svg>
+              )}
+
               {/* Fire Hotspot Markers */}
               {disasterType === 'fire' && selectedLayer === 'fire' && fireHotspots.length > 0 && (
                 <>
@@ -620,15 +782,9 @@ export default function SatelliteImagery({ lat, lng, disasterType, date, title }
                     let filteredCount = 0;
 
                     const markers = fireHotspots.slice(0, 30).map((hotspot, idx) => {
-                      // ✅ SYNCHRONIZED: Match WMS bbox (±0.5° range)
-                      const bboxSize = 0.5;
-                      const imgBboxSize = bboxSize * 2; // Total range: 1.0°
-
-                      // Calculate position relative to image center (50% = center)
-                      // Formula: (hotspot_coordinate - center_coordinate) / total_range * 100 + 50
-                      // Positive offset moves marker right/down, negative offset moves left/up
-                      const relLng = ((hotspot.longitude - lng) / imgBboxSize) * 100 + 50;
-                      const relLat = ((hotspot.latitude - lat) / imgBboxSize) * 100 + 50;
+                      // ✅ SYNCHRONIZED: Match WMS bbox (the FIRMS search radius)
+                      // Position relative to image center (50% = center), north up
+                      const { x: relLng, y: relLat } = toImagePercent(hotspot.latitude, hotspot.longitude);
 
                       // Only show if within bounds (with small margin for edge cases)
                       if (relLng < -5 || relLng > 105 || relLat < -5 || relLat > 105) {
@@ -783,6 +939,11 @@ export default function SatelliteImagery({ lat, lng, disasterType, date, title }
             🌍 <strong style={{ color: ds.text.primary }}>Satellite imagery for location context</strong>. Shows affected area terrain and infrastructure. Use NASA Worldview for detailed surface displacement maps.
           </p>
         )}
+        {disasterType !== 'fire' && disasterType !== 'volcano' && disasterType !== 'earthquake' && (
+          <p>
+            🛰️ <strong style={{ color: ds.text.primary }}>NASA EONET event</strong>. Click NASA Worldview for category-specific layers (precipitation, flood extent, aerosols, snow cover or vegetation).
+          </p>
+        )}
       </div>
     </div>
   );
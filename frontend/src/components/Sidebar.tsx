@@ -6,7 +6,8 @@
 import { useEffect, useState } from 'react';
 import { X, Sparkles, Cloud, Satellite } from 'lucide-react';
 import type { Disaster, WeatherData, AIAnalysisResponse } from '../types';
-import { getNextPass, predictPasses, type SatellitePass } from '../utils/orbitalEngine';
+import { getNextPass, parseTLEs, predictPasses, TLE_STALE_AFTER_DAYS, type SatellitePass, type SwathStatus } from '../utils/orbitalEngine';
+import { describeSatellite, satelliteByNoradId } from '../utils/satellites';
 import SatelliteImagery from './SatelliteImagery';
 import { useDesignSystem } from '../hooks/useDesignSystem';
 import { API_BASE } from '../config/api';
@@ -30,6 +31,16 @@ const SATELLITE_ELEVATION_THRESHOLDS = {
     MINIMUM: 5
 } as const;
 
+/**
+ * Swath coverage of the next pass: the imagers look straight down, so a high pass
+ * only produces an image of the disaster when its ground track runs close enough
+ */
+const SWATH_STATUS_LABELS: Record<SwathStatus, string> = {
+    'in-swath': 'In swath',
+    edge: 'Swath edge',
+    outside: 'Outside swath',
+};
+
 export default function Sidebar({ disaster, onClose, isOpen = true }: SidebarProps) {
     const ds = useDesignSystem();
     const [nextPass, setNextPass] = useState<SatellitePass | null>(null);
@@ -95,9 +106,10 @@ export default function Sidebar({ disaster, onClose, isOpen = true }: SidebarPro
                 }
 
                 const tleLines = tles.trim().split('\n').filter(line => line.trim().length > 0);
-                const satelliteCount = Math.floor(tleLines.length / 3);
+                // Sets with a bad checksum or format are dropped (and logged) by the parser
+                const satelliteCount = parseTLEs(tles).length;
 
-                if (tleLines.length < 3) {
+                if (satelliteCount === 0) {
                     console.error('❌ Invalid TLE data details:', {
                         receivedLength: tles.length,
                         lineCount: tleLines.length,
@@ -105,16 +117,7 @@ export default function Sidebar({ disaster, onClose, isOpen = true }: SidebarPro
                         isJson: tles.trim().startsWith('{'),
                         responseText: tles.substring(0, 500)
                     });
-                    throw new Error(`Invalid TLE data: expected at least 3 lines, got ${tleLines.length}. Raw response: ${tles.substring(0, 200)}`);
-                }
-
-                // DEBUG: Validate TLE format
-                if (tleLines.length % 3 !== 0) {
-                    debugLog(
-                        'tles',
-                        `WARNING: TLE format incorrect. Expected multiple of 3 lines, got ${tleLines.length}`,
-                        'warning'
-                    );
+                    throw new Error(`Invalid TLE data: no valid element sets in ${tleLines.length} lines. Raw response: ${tles.substring(0, 200)}`);
                 }
 
                 debugLog(
@@ -187,9 +190,16 @@ export default function Sidebar({ disaster, onClose, isOpen = true }: SidebarPro
                     const timeUntil = (pass.time.getTime() - new Date().getTime()) / 1000 / 60; // minutes
                     debugLog(
                         'orbital',
-                        `Next pass: ${pass.satelliteName} at ${pass.time.toLocaleString()} (in ${Math.round(timeUntil)} min) - Elevation: ${pass.elevation.toFixed(1)}°`,
+                        `Next pass: ${pass.satelliteName} TCA ${pass.time.toLocaleString()} (in ${Math.round(timeUntil)} min) - Peak elevation: ${pass.elevation.toFixed(1)}°, ${pass.duration}s above threshold`,
                         'success',
-                        { satellite: pass.satelliteName, elevation: pass.elevation, azimuth: pass.azimuth, time: pass.time.toISOString() }
+                        {
+                            satellite: pass.satelliteName,
+                            elevation: pass.elevation,
+                            azimuth: pass.azimuth,
+                            aos: pass.aos.time.toISOString(),
+                            tca: pass.tca.time.toISOString(),
+                            los: pass.los.time.toISOString(),
+                        }
                     );
                 }
 
@@ -294,9 +304,10 @@ export default function Sidebar({ disaster, onClose, isOpen = true }: SidebarPro
 
         const updateTimer = () => {
             const now = new Date();
-            const diff = nextPass.time.getTime() - now.getTime();
+            // Count down to the time of closest approach; the satellite is overhead from AOS to LOS
+            const diff = nextPass.tca.time.getTime() - now.getTime();
 
-            if (diff > 0) {
+            if (now < nextPass.aos.time) {
                 const hours = Math.floor(diff / (1000 * 60 * 60)).toString().padStart(2, '0');
                 const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60)).toString().padStart(2, '0');
                 const seconds = Math.floor((diff % (1000 * 60)) / 1000).toString().padStart(2, '0');
@@ -347,6 +358,7 @@ export default function Sidebar({ disaster, onClose, isOpen = true }: SidebarPro
             const requestBody = {
                 disasterTitle: disaster.title,
                 satelliteName: nextPass.satelliteName,
+                noradId: nextPass.noradId,
                 passTime: nextPass.time.toISOString(),
                 cloudCover,
             };
@@ -463,6 +475,15 @@ export default function Sidebar({ disaster, onClose, isOpen = true }: SidebarPro
 
     // Removed excessive logging on every render - only log on mount or disaster change
 
+    // Catalog entry of the next pass's satellite
+    const nextPassInfo = nextPass ? satelliteByNoradId(nextPass.noradId) : undefined;
+
+    const severityColor = disaster.severity === 'high'
+        ? ds.colors.status.error
+        : disaster.severity === 'medium'
+            ? ds.colors.status.warning
+            : ds.colors.status.success;
+
     return (
         <div
             className={`sidebar-container flex flex-col overflow-hidden transition-transform duration-300 ${isOpen ? 'translate-x-0' : 'translate-x-full'
@@ -556,6 +577,65 @@ export default function Sidebar({ disaster, onClose, isOpen = true }: SidebarPro
                 }}
             >
 
+                {/* Severity Card - score + reasons from the backend severity engine */}
+                {disaster.severityScore != null && (
+                    <div
+                        style={{
+                            padding: '12px 14px',
+                            borderRadius: ds.borderRadius.lg,
+                            background: ds.surface.overlay,
+                            border: `1px solid ${severityColor}55`,
+                            marginBottom: '12px',
+                        }}
+                    >
+                        <div className="flex items-center justify-between" style={{ marginBottom: '6px' }}>
+                            <span
+                                className="font-black tracking-tight"
+                                style={{ fontSize: '0.8125rem', color: ds.text.primary }}
+                            >
+                                Severity
+                            </span>
+                            <span
+                                className="font-bold px-2 py-1 rounded-md"
+                                style={{
+                                    fontSize: '0.625rem',
+                                    textTransform: 'uppercase',
+                                    letterSpacing: '0.05em',
+                                    color: severityColor,
+                                    background: `${severityColor}22`,
+                                }}
+                            >
+                                {disaster.severity} · {disaster.severityScore}/100
+                            </span>
+                        </div>
+                        {disaster.severityReasons && disaster.severityReasons.length > 0 && (
+                            <ul style={{ fontSize: '0.6875rem', color: ds.text.secondary, paddingLeft: '14px', listStyle: 'disc' }}>
+                                {disaster.severityReasons.map(reason => (
+                                    <li key={reason}>{reason}</li>
+                                ))}
+                            </ul>
+                        )}
+                        {disaster.fireCluster && (
+                            <p style={{ marginTop: '6px', fontSize: '0.6875rem', color: disaster.unconfirmed ? ds.colors.status.warning : ds.text.secondary }}>
+                                {disaster.unconfirmed && <strong>Unconfirmed · </strong>}
+                                FIRMS: {disaster.fireCluster.count} detections in {disaster.fireCluster.clusters} cluster{disaster.fireCluster.clusters === 1 ? '' : 's'},
+                                last {new Date(disaster.fireCluster.lastDetected).toUTCString().slice(17, 22)} UTC
+                            </p>
+                        )}
+                        {disaster.alertUrl && (
+                            <a
+                                href={disaster.alertUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="font-semibold"
+                                style={{ display: 'inline-block', marginTop: '6px', fontSize: '0.6875rem', color: ds.colors.accent.blueLight }}
+                            >
+                                GDACS {disaster.alertLevel} alert report →
+                            </a>
+                        )}
+                    </div>
+                )}
+
                 {/* AI Insight Card - REDESIGNED */}
                 <div
                     className="relative overflow-hidden transition-all duration-200"
@@ -677,11 +757,27 @@ export default function Sidebar({ disaster, onClose, isOpen = true }: SidebarPro
                                     fontSize: '0.625rem',
                                     letterSpacing: '0.05em',
                                     color: ds.text.tertiary,
-                                    marginBottom: '10px',
+                                    marginBottom: nextPassInfo ? '2px' : '10px',
                                 }}
                             >
-                                {nextPass.satelliteName.replace(/[-_]/g, ' ')}
+                                {nextPassInfo?.name ?? nextPass.satelliteName.replace(/[-_]/g, ' ')}
                             </p>
+                            {nextPassInfo && (
+                                <p
+                                    className="font-medium"
+                                    title={describeSatellite(nextPassInfo)}
+                                    style={{
+                                        fontSize: '0.5625rem',
+                                        color: ds.text.tertiary,
+                                        marginBottom: '10px',
+                                    }}
+                                >
+                                    {nextPassInfo.sensors.map((sensor) => sensor.name).join(' + ')} ·{' '}
+                                    {Math.min(...nextPassInfo.sensors.map((sensor) => sensor.resolutionM))} m
+                                    {nextPassInfo.sar ? ' · SAR' : ''}
+                                    {nextPassInfo.thermal ? ' · thermal' : ''}
+                                </p>
+                            )}
 
                             <div className="relative z-10">
                                 <div
@@ -694,6 +790,41 @@ export default function Sidebar({ disaster, onClose, isOpen = true }: SidebarPro
                                 >
                                     {timeUntilPass || '00:00:00'}
                                 </div>
+                                <p
+                                    className="font-medium tabular-nums"
+                                    style={{
+                                        fontSize: '0.625rem',
+                                        color: ds.text.tertiary,
+                                        marginBottom: '6px',
+                                    }}
+                                >
+                                    Peak {nextPass.tca.elevation.toFixed(0)}° · {Math.max(1, Math.round(nextPass.duration / 60))} min pass
+                                    {' · '}
+                                    <span
+                                        title={`Predicted from elements with epoch ${nextPass.tleEpoch.toISOString().replace('T', ' ').substring(0, 16)} UTC; accuracy degrades with every day after it`}
+                                        style={{ color: nextPass.tleAgeDays > TLE_STALE_AFTER_DAYS ? ds.colors.status.warning : undefined }}
+                                    >
+                                        TLE {nextPass.tleAgeDays.toFixed(1)} d{nextPass.tleAgeDays > TLE_STALE_AFTER_DAYS ? ' (stale)' : ''}
+                                    </span>
+                                </p>
+                                {nextPass.swath && (
+                                    <p
+                                        className="font-bold uppercase"
+                                        title={`Imaging swath reaches ${nextPass.swath.halfSwathKm} km either side of the ground track`}
+                                        style={{
+                                            fontSize: '0.5625rem',
+                                            letterSpacing: '0.05em',
+                                            color: nextPass.swath.status === 'in-swath'
+                                                ? ds.colors.status.success
+                                                : nextPass.swath.status === 'edge'
+                                                    ? ds.colors.status.warning
+                                                    : ds.colors.status.error,
+                                            marginBottom: '6px',
+                                        }}
+                                    >
+                                        {SWATH_STATUS_LABELS[nextPass.swath.status]} · {Math.round(nextPass.swath.crossTrackKm)} km off track
+                                    </p>
+                                )}
                                 <div
                                     style={{
                                         height: '2px',
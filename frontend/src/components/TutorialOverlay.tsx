@@ -201,6 +201,9 @@ export default function TutorialOverlay({ onClose }: TutorialOverlayProps) {
                                 <DisasterType color={ds.colors.disaster.fire} label="Red circles" text="Wildfires" ds={ds} />
                                 <DisasterType color={ds.colors.disaster.earthquake} label="Orange circles" text="Earthquakes" ds={ds} />
                                 <DisasterType color={ds.colors.disaster.volcano} label="Orange-red circles" text="Volcanoes" ds={ds} />
+                                <DisasterType color={ds.colors.disaster.storm} label="Purple circles" text="Severe Storms" ds={ds} />
+                                <DisasterType color={ds.colors.disaster.flood} label="Blue circles" text="Floods" ds={ds} />
+                                <DisasterType color={ds.colors.disaster.landslide} label="Other colors" text="Landslides, dust, ice, drought & snow (see legend)" ds={ds} />
                             </div>
                         </FeatureCard>
 
@@ -3,6 +3,9 @@
  * Centralized constants for consistent UI across all components
  */
 
+import type { DisasterType } from '../types';
+import { DISASTER_TYPES } from './disasterTypes';
+
 export const DESIGN_SYSTEM = {
     // ===== SPACING =====
     spacing: {
@@ -50,11 +53,8 @@ export const DESIGN_SYSTEM = {
 
     // ===== COLORS =====
     colors: {
-        disaster: {
-            fire: '#ef4444',
-            volcano: '#f97316',
-            earthquake: '#f59e0b',
-        },
+        // Marker colors, read from the disaster type catalog so the legend matches the map
+        disaster: Object.fromEntries(DISASTER_TYPES.map(({ type, markerColor }) => [type, markerColor])) as Record<DisasterType, string>,
         status: {
             success: '#10b981',
             warning: '#f59e0b',
@@ -0,0 +1,46 @@
+/**
+ * Disaster Type Catalog
+ * Single source of truth for how each disaster category is labelled,
+ * colored and layered on the map
+ */
+
+import {
+    Flame,
+    Mountain,
+    Waves,
+    CloudLightning,
+    Droplets,
+    TriangleAlert,
+    Haze,
+    Layers,
+    Sun,
+    Snowflake,
+    type LucideIcon,
+} from 'lucide-react';
+import type { DisasterType } from '../types';
+
+export interface DisasterTypeConfig {
+    type: DisasterType;
+    label: string;         // Legend label (plural)
+    eventLabel: string;    // Fallback title for a single event
+    emoji: string;         // Tooltip / toast prefix
+    icon: LucideIcon;      // Legend icon
+    sourceId: string;      // Mapbox GeoJSON source ID
+    layerId: string;       // Mapbox circle layer ID
+    markerColor: string;   // Marker fill (tuned for satellite basemap)
+}
+
+export const DISASTER_TYPES: readonly DisasterTypeConfig[] = [
+    { type: 'fire', label: 'Wildfires', eventLabel: 'Fire Event', emoji: '🔥', icon: Flame, sourceId: 'fires', layerId: 'fires-layer', markerColor: '#FF4444' },
+    { type: 'volcano', label: 'Volcanoes', eventLabel: 'Volcano Event', emoji: '🌋', icon: Mountain, sourceId: 'volcanoes', layerId: 'volcanoes-layer', markerColor: '#FF6B35' },
+    { type: 'earthquake', label: 'Earthquakes', eventLabel: 'Earthquake Event', emoji: '🌍', icon: Waves, sourceId: 'earthquakes', layerId: 'earthquakes-layer', markerColor: '#FF8C00' },
+    { type: 'storm', label: 'Severe Storms', eventLabel: 'Storm Event', emoji: '🌀', icon: CloudLightning, sourceId: 'storms', layerId: 'storms-layer', markerColor: '#A855F7' },
+    { type: 'flood', label: 'Floods', eventLabel: 'Flood Event', emoji: '🌊', icon: Droplets, sourceId: 'floods', layerId: 'floods-layer', markerColor: '#3B82F6' },
+    { type: 'landslide', label: 'Landslides', eventLabel: 'Landslide Event', emoji: '⛰️', icon: TriangleAlert, sourceId: 'landslides', layerId: 'landslides-layer', markerColor: '#B45309' },
+    { type: 'dust', label: 'Dust & Haze', eventLabel: 'Dust/Haze Event', emoji: '🌫️', icon: Haze, sourceId: 'dust', layerId: 'dust-layer', markerColor: '#D6A35C' },
+    { type: 'ice', label: 'Sea & Lake Ice', eventLabel: 'Ice Event', emoji: '🧊', icon: Layers, sourceId: 'ice', layerId: 'ice-layer', markerColor: '#67E8F9' },
+    { type: 'drought', label: 'Drought', eventLabel: 'Drought Event', emoji: '☀️', icon: Sun, sourceId: 'droughts', layerId: 'droughts-layer', markerColor: '#EAB308' },
+    { type: 'snow', label: 'Snow', eventLabel: 'Snow Event', emoji: '❄️', icon: Snowflake, sourceId: 'snow', layerId: 'snow-layer', markerColor: '#F1F5F9' },
+];
+
+export const ALL_DISASTER_TYPES: DisasterType[] = DISASTER_TYPES.map(t => t.type);
@@ -2,15 +2,156 @@
  * Type definitions for AegisMap
  */
 
+export type DisasterType =
+    | 'fire'
+    | 'volcano'
+    | 'earthquake'
+    | 'storm'
+    | 'flood'
+    | 'landslide'
+    | 'dust'
+    | 'ice'
+    | 'drought'
+    | 'snow';
+
 export interface Disaster {
     id: string;
-    type: 'fire' | 'volcano' | 'earthquake';
+    type: DisasterType;
     title: string;
     lat: number;
     lng: number;
     date: string;
     severity: 'low' | 'medium' | 'high';
+    severityScore?: number;     // 0-100 from the backend severity engine
+    severityReasons?: string[]; // Signals behind the score
     magnitude?: number; // For earthquakes
+    magnitudeValue?: number; // Latest EONET magnitude (e.g. acres burned, wind speed)
+    magnitudeUnit?: string;
+    track?: TrackPoint[]; // EONET events with more than one observation (oldest first)
+    alertLevel?: 'green' | 'orange' | 'red'; // GDACS alert level, when GDACS reports the event
+    alertUrl?: string; // GDACS event report
+    distanceKm?: number; // Only when /api/disasters was called with near=lat,lng
+    fireCluster?: FireClusterSummary; // FIRMS detections clustered around a fire
+    unconfirmed?: boolean; // FIRMS cluster no feed reports yet
+}
+
+// FIRMS detection clusters the backend attached to a fire
+export interface FireClusterSummary {
+    count: number;
+    highConfidence: number;
+    maxFrp: number; // MW
+    totalFrp: number; // MW
+    clusters: number;
+    firstDetected: string; // ISO
+    lastDetected: string; // ISO
+}
+
+// How a backend source's records were obtained (see /api/disasters `sources`)
+export type SourceStatus = 'live' | 'cached' | 'stale' | 'failed';
+
+export interface SourceStatusReport {
+    status: SourceStatus;
+    count: number;
+    latencyMs: number;
+    lastSuccess: string | null; // ISO time of the last successful upstream fetch
+    ageSeconds: number | null;  // Age of the served records
+    error?: string;
+}
+
+// format=geojson responses: position in the Point geometry, everything else in typed properties
+export type DisasterProperties = Omit<Disaster, 'lat' | 'lng' | 'track'>;
+export type DisasterFeature = GeoJSON.Feature<GeoJSON.Point, DisasterProperties>;
+export type DisasterFeatureCollection = GeoJSON.FeatureCollection<GeoJSON.Point, DisasterProperties>;
+
+// GET /api/disasters?format=geojson - per-source status rides along as foreign members
+export interface DisastersResponse extends DisasterFeatureCollection {
+    sources: Record<string, SourceStatusReport>;
+    degraded: boolean; // At least one source is stale or failed
+    error?: string;
+}
+
+// GET /api/disasters/history - archived events reported during a date range
+export interface HistoryRange {
+    from: string; // YYYY-MM-DD (UTC, inclusive)
+    to: string;   // YYYY-MM-DD (UTC, inclusive)
+}
+
+export interface ArchivedDisaster extends Disaster {
+    firstSeen: string; // ISO
+    lastSeen: string;  // ISO
+}
+
+// GET /api/disasters/history?format=geojson
+export interface HistoryResponse extends GeoJSON.FeatureCollection<GeoJSON.Point, Omit<ArchivedDisaster, 'lat' | 'lng' | 'track'>> {
+    from: string;
+    to: string;
+    count: number;
+    error?: string;
+}
+
+// GET /api/changes - diff of consecutive backend snapshots
+export type ChangeKind = 'new' | 'updated' | 'closed';
+
+export interface DisasterChange {
+    id: string;
+    kind: ChangeKind;
+    detectedAt: string; // Snapshot time the change was seen (ISO)
+    type: Disaster['type'];
+    title: string;
+    lat: number;
+    lng: number;
+    severity: Disaster['severity'];
+    changes?: {
+        field: 'severity' | 'magnitude' | 'magnitudeValue' | 'position';
+        from: string | number | null;
+        to: string | number | null;
+    }[];
+}
+
+export interface ChangesResponse {
+    since: string;
+    snapshotAt: string | null; // Latest snapshot; use as the next `since`
+    changes: DisasterChange[];
+}
+
+export interface TrackPoint {
+    lat: number;
+    lng: number;
+    date: string;
+    magnitudeValue?: number; // e.g. storm wind speed
+    magnitudeUnit?: string;  // e.g. 'kts'
+}
+
+export interface DisasterTrack {
+    id: string;
+    type: DisasterType | null;
+    title: string;
+    closed: string | null;
+    track: TrackPoint[];
+}
+
+// GET /api/fire-perimeter: one MultiPolygon per acquisition date, oldest first
+export interface FirePerimeterProperties {
+    date: string; // YYYY-MM-DD (UTC)
+    detections: number; // Detections on this date
+    totalDetections: number; // Detections up to this date
+    areaHa: number;
+    growthHa: number; // Since the previous date
+}
+
+export type FirePerimeterResponse = GeoJSON.FeatureCollection<GeoJSON.MultiPolygon, FirePerimeterProperties> & {
+    days: number;
+    areaHa?: number; // Latest perimeter
+    message?: string;
+    error?: string;
+};
+
+export type EarthquakeWindow = 'hour' | 'day' | 'week' | 'month';
+
+// USGS feed selection for /api/disasters (window + minMagnitude query params)
+export interface EarthquakeQuery {
+    window: EarthquakeWindow;
+    minMagnitude: number;
 }
 
 export interface WeatherData {
@@ -0,0 +1,13 @@
+/**
+ * Satellite capability catalog
+ * Lives in shared/satellites.ts: the worker serves the same list as GET /api/satellites
+ */
+
+export {
+    describeSatellite,
+    SATELLITE_CATALOG,
+    satelliteByName,
+    satelliteByNoradId,
+    type SatelliteInfo,
+    type SatelliteSensor,
+} from '../../../shared/satellites';
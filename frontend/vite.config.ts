@@ -5,4 +5,13 @@ import react from '@vitejs/plugin-react'
 export default defineConfig({
   plugins: [react()],
   base: '/aegis-map/',
+  resolve: {
+    // shared/ lives outside this package: resolve its dependencies from our node_modules
+    dedupe: ['satellite.js'],
+  },
+  server: {
+    fs: {
+      allow: ['..'],
+    },
+  },
 })
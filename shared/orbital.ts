@@ -0,0 +1,376 @@
+/**
+ * Orbital Math Engine using Satellite.js
+ * Calculates satellite pass predictions for disaster locations
+ * Shared by the worker (GET /api/passes) and the frontend (Sidebar), so both report the same passes
+ */
+
+import * as satellite from 'satellite.js';
+import { satelliteByNoradId } from './satellites';
+
+/** Where the satellite is seen from the observer at one moment */
+export interface PassEvent {
+    time: Date;
+    elevation: number; // Degrees above the horizon
+    azimuth: number; // Degrees clockwise from north
+}
+
+export interface SatellitePass {
+    satelliteName: string;
+    noradId: number;
+    time: Date; // Time of closest approach
+    elevation: number; // Peak elevation (at TCA)
+    azimuth: number; // Azimuth at TCA
+    aos: PassEvent; // Acquisition of signal: the satellite rises through minElevation
+    tca: PassEvent; // Time of closest approach: peak elevation
+    los: PassEvent; // Loss of signal: the satellite sets through minElevation
+    duration: number; // Seconds from AOS to LOS
+    swath: SwathCoverage | null; // Null for a satellite missing from SATELLITE_CATALOG
+    tleEpoch: Date; // Epoch of the element set the pass was predicted from
+    tleAgeDays: number; // Days from the epoch to TCA; SGP4 errors grow with it
+}
+
+/**
+ * Whether the site is imaged on a pass: 'in-swath' when the whole area around it lies inside the
+ * reachable swath, 'outside' when none of it does, 'edge' otherwise
+ */
+export type SwathStatus = 'in-swath' | 'edge' | 'outside';
+
+export interface SwathCoverage {
+    status: SwathStatus;
+    crossTrackKm: number; // Ground distance from the site to the ground track, at TCA
+    halfSwathKm: number; // Reachable distance from the ground track: half the swath plus off-nadir pointing
+}
+
+export interface TleRecord {
+    name: string;
+    noradId: number;
+    line1: string;
+    line2: string;
+    epoch: Date;
+}
+
+export interface PassOptions {
+    start?: Date; // Default: now
+    hours?: number; // Passes whose TCA falls in this window (default 24)
+    noradIds?: number[]; // Only these satellites (default: every TLE)
+    radiusKm?: number; // Area around the site that must be imaged (default SWATH_DEFAULT_RADIUS_KM)
+}
+
+/** Default area around a disaster point that should be imaged (event coordinates are approximate) */
+export const SWATH_DEFAULT_RADIUS_KM = 10;
+
+/**
+ * Coarse sampling interval. Every elevation peak is bracketed by samples and refined, so a pass
+ * shorter than the step is still found as long as its peak is wider than two steps (true for LEO)
+ */
+export const PASS_STEP_SECONDS = 60;
+
+/** AOS, TCA and LOS are refined until the bracket is this narrow */
+export const PASS_PRECISION_SECONDS = 1;
+
+/**
+ * Element sets older than this are flagged stale: LEO predictions drift by kilometers a day after the epoch,
+ * and CelesTrak normally publishes fresh elements for active satellites at least daily
+ */
+export const TLE_STALE_AFTER_DAYS = 3;
+
+const EARTH_RADIUS_KM = 6371;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest a pass can stay above the horizon from TCA to AOS/LOS; bounds the AOS/LOS bracket search
+const MAX_HALF_PASS_SECONDS = 30 * 60;
+
+/**
+ * Parse raw TLE data into satellite records
+ * Accepts 3-line sets and bare 2-line sets (named after the NORAD id), ignoring blank lines and CRLF;
+ * sets failing validateTLE are skipped with a warning
+ */
+export function parseTLEs(tleData: string): TleRecord[] {
+    const lines = tleData.split(/\r?\n/).map((line) => line.trimEnd()).filter((line) => line.trim().length > 0);
+    const satellites: TleRecord[] = [];
+
+    for (let i = 0; i < lines.length - 1; i++) {
+        const [line1, line2] = [lines[i].trim(), lines[i + 1].trim()];
+        if (!line1.startsWith('1 ') || !line2.startsWith('2 ')) continue;
+
+        const noradId = parseInt(line1.substring(2, 7), 10);
+        const previous = i > 0 ? lines[i - 1].trim() : '';
+        const name = previous && !/^[12] /.test(previous) ? previous.replace(/^0 /, '') : `NORAD ${noradId}`;
+
+        const error = validateTLE(line1, line2);
+        if (error) {
+            console.warn(`⚠️ Skipping element set for ${name}: ${error}`);
+        } else {
+            satellites.push({ name, noradId, line1, line2, epoch: tleEpoch(line1) });
+        }
+        i++;
+    }
+
+    return satellites;
+}
+
+/**
+ * Check the fixed-column format of a TLE pair: line numbers, 69 columns, matching catalog numbers,
+ * a readable epoch and the mod-10 checksum of each line
+ * @returns The first problem found, or null for a valid pair
+ */
+export function validateTLE(line1: string, line2: string): string | null {
+    for (const [number, line] of [[1, line1], [2, line2]] as const) {
+        if (line.length !== 69) return `line ${number} has ${line.length} columns, expected 69`;
+        if (!line.startsWith(`${number} `)) return `line ${number} does not start with "${number} "`;
+        if (tleChecksum(line) !== Number(line[68])) return `line ${number} checksum is ${line[68]}, expected ${tleChecksum(line)}`;
+    }
+    if (!/^\d{5}$/.test(line1.substring(2, 7))) return 'invalid catalog number';
+    if (line1.substring(2, 7) !== line2.substring(2, 7)) return 'catalog numbers of the two lines differ';
+    if (isNaN(tleEpoch(line1).getTime())) return 'invalid epoch';
+    return null;
+}
+
+/**
+ * Mod-10 checksum of a TLE line: the sum of its digits, minus signs counting 1, over columns 1-68
+ */
+export function tleChecksum(line: string): number {
+    let sum = 0;
+    for (const char of line.substring(0, 68)) {
+        if (char >= '0' && char <= '9') sum += Number(char);
+        else if (char === '-') sum += 1;
+    }
+    return sum % 10;
+}
+
+/**
+ * Epoch of an element set from line 1 (two-digit year: 57-99 = 1957-1999, then day of year with fraction)
+ */
+export function tleEpoch(line1: string): Date {
+    const year = parseInt(line1.substring(18, 20), 10);
+    const dayOfYear = parseFloat(line1.substring(20, 32));
+    if (isNaN(year) || isNaN(dayOfYear) || dayOfYear < 1 || dayOfYear >= 367) return new Date(NaN);
+
+    const fullYear = year < 57 ? 2000 + year : 1900 + year;
+    return new Date(Date.UTC(fullYear, 0, 1) + (dayOfYear - 1) * DAY_MS);
+}
+
+/**
+ * Days between an element set epoch and a time (default: now)
+ */
+export function tleAgeDays(epoch: Date, at: Date = new Date()): number {
+    return (at.getTime() - epoch.getTime()) / DAY_MS;
+}
+
+/**
+ * Predict satellite passes over a given location
+ * Elevation is sampled every PASS_STEP_SECONDS; each local maximum is refined to the TCA by golden-section
+ * search and, when it clears minElevation, AOS and LOS are found by bisection on elevation - minElevation
+ * @param tleRawData - Raw TLE string from CelesTrak
+ * @param observerLat - Observer latitude in degrees
+ * @param observerLng - Observer longitude in degrees
+ * @param minElevation - Minimum elevation angle in degrees (default 25)
+ * @param options - Window start, length and satellite filter
+ * @returns Array of upcoming passes sorted by TCA
+ */
+export function predictPasses(
+    tleRawData: string,
+    observerLat: number,
+    observerLng: number,
+    minElevation: number = 25,
+    { start = new Date(), hours = 24, noradIds, radiusKm = SWATH_DEFAULT_RADIUS_KM }: PassOptions = {}
+): SatellitePass[] {
+    const satellites = parseTLEs(tleRawData).filter((sat) => !noradIds || noradIds.includes(sat.noradId));
+    const passes: SatellitePass[] = [];
+
+    // Observer position
+    const observerGd = {
+        longitude: satellite.degreesToRadians(observerLng),
+        latitude: satellite.degreesToRadians(observerLat),
+        height: 0, // kilometers above sea level
+    };
+
+    const startTime = start.getTime();
+    const endTime = startTime + hours * 60 * 60 * 1000;
+    const step = PASS_STEP_SECONDS * 1000;
+
+    satellites.forEach((sat) => {
+        try {
+            // Initialize satellite record
+            const satrec = satellite.twoline2satrec(sat.line1, sat.line2);
+
+            if (!satrec || typeof satrec === 'boolean') {
+                console.warn(`⚠️ Failed to initialize satellite ${sat.name}`);
+                return;
+            }
+
+            const elevationAt = (time: number) => lookAngles(satrec, observerGd, new Date(time))?.elevation ?? -90;
+
+            // One sample either side of the window, so peaks at its edges are bracketed too
+            let [before, current] = [elevationAt(startTime - step), elevationAt(startTime)];
+            for (let time = startTime; time <= endTime; time += step) {
+                const after = elevationAt(time + step);
+
+                if (current > before && current >= after) {
+                    const tca = maximize(elevationAt, time - step, time + step);
+                    const tcaElevation = elevationAt(tca);
+
+                    if (tcaElevation >= minElevation && tca >= startTime && tca <= endTime) {
+                        const above = (t: number) => elevationAt(t) >= minElevation;
+                        const aos = crossing(above, outside(above, tca, -step), tca);
+                        const los = crossing(above, outside(above, tca, step), tca);
+                        const swath = swathCoverage(sat.noradId, satrec, observerGd, tca, radiusKm);
+                        passes.push(toPass(sat, satrec, observerGd, aos, tca, los, swath));
+                    }
+                }
+
+                [before, current] = [current, after];
+            }
+        } catch (error) {
+            console.error(`❌ Error processing satellite ${sat.name}:`, error);
+        }
+    });
+
+    // Sort passes by time
+    return passes.sort((a, b) => a.time.getTime() - b.time.getTime());
+}
+
+/**
+ * Classify a cross-track offset against a reachable half-swath, for an area of radiusKm around the site
+ */
+export function swathStatus(crossTrackKm: number, halfSwathKm: number, radiusKm: number = SWATH_DEFAULT_RADIUS_KM): SwathStatus {
+    if (crossTrackKm + radiusKm <= halfSwathKm) return 'in-swath';
+    if (crossTrackKm - radiusKm >= halfSwathKm) return 'outside';
+    return 'edge';
+}
+
+/**
+ * Get the next pass for any satellite over a location
+ */
+export function getNextPass(
+    tleRawData: string,
+    observerLat: number,
+    observerLng: number
+): SatellitePass | null {
+    const passes = predictPasses(tleRawData, observerLat, observerLng);
+
+    return passes.length > 0 ? passes[0] : null;
+}
+
+// Elevation and azimuth of the satellite from the observer, or null when SGP4 fails (decayed orbit)
+function lookAngles(satrec: satellite.SatRec, observerGd: satellite.GeodeticLocation, time: Date): PassEvent | null {
+    const positionAndVelocity = satellite.propagate(satrec, time);
+    if (!positionAndVelocity || !positionAndVelocity.position || typeof positionAndVelocity.position === 'boolean') {
+        return null;
+    }
+
+    // Convert ECI to ECF, then to look angles
+    const positionEcf = satellite.eciToEcf(positionAndVelocity.position, satellite.gstime(time));
+    const angles = satellite.ecfToLookAngles(observerGd, positionEcf);
+
+    return {
+        time,
+        elevation: satellite.radiansToDegrees(angles.elevation),
+        azimuth: satellite.radiansToDegrees(angles.azimuth),
+    };
+}
+
+// Swath coverage at TCA, where the ground track passes abeam the site; the geometry comes from the catalog
+function swathCoverage(
+    noradId: number,
+    satrec: satellite.SatRec,
+    observerGd: satellite.GeodeticLocation,
+    tcaTime: number,
+    radiusKm: number
+): SwathCoverage | null {
+    const swath = satelliteByNoradId(noradId);
+    const positionAndVelocity = satellite.propagate(satrec, new Date(tcaTime));
+    if (!swath || !positionAndVelocity || !positionAndVelocity.position || typeof positionAndVelocity.position === 'boolean') {
+        return null;
+    }
+
+    const nadir = satellite.eciToGeodetic(positionAndVelocity.position, satellite.gstime(new Date(tcaTime)));
+    const crossTrackKm = groundDistanceKm(observerGd.latitude, observerGd.longitude, nadir.latitude, nadir.longitude);
+    const halfSwathKm = swath.swathKm / 2 + nadir.height * Math.tan(satellite.degreesToRadians(swath.maxOffNadirDeg));
+
+    return {
+        status: swathStatus(crossTrackKm, halfSwathKm, radiusKm),
+        crossTrackKm: Math.round(crossTrackKm * 10) / 10,
+        halfSwathKm: Math.round(halfSwathKm * 10) / 10,
+    };
+}
+
+// Great-circle distance between two points given in radians (haversine)
+function groundDistanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const a = Math.sin((lat2 - lat1) / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin((lng2 - lng1) / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Time of the elevation peak inside [low, high] (golden-section search; the elevation is unimodal there)
+function maximize(f: (time: number) => number, low: number, high: number): number {
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    let [a, b] = [low, high];
+    let c = b - ratio * (b - a);
+    let d = a + ratio * (b - a);
+    let [fc, fd] = [f(c), f(d)];
+
+    while (b - a > PASS_PRECISION_SECONDS * 1000) {
+        if (fc >= fd) {
+            [b, d, fd] = [d, c, fc];
+            c = b - ratio * (b - a);
+            fc = f(c);
+        } else {
+            [a, c, fc] = [c, d, fd];
+            d = a + ratio * (b - a);
+            fd = f(d);
+        }
+    }
+
+    return toSecond((a + b) / 2);
+}
+
+// First time stepping away from the TCA (direction = signed step) with the satellite below minElevation
+function outside(above: (time: number) => boolean, tca: number, direction: number): number {
+    let time = tca + direction;
+    while (above(time) && Math.abs(time - tca) < MAX_HALF_PASS_SECONDS * 1000) time += direction;
+    return time;
+}
+
+// Where the satellite crosses minElevation between a time below it and one above it (bisection)
+function crossing(above: (time: number) => boolean, below: number, aboveTime: number): number {
+    let [low, high] = [below, aboveTime];
+    while (Math.abs(high - low) > PASS_PRECISION_SECONDS * 1000) {
+        const middle = (low + high) / 2;
+        if (above(middle)) high = middle;
+        else low = middle;
+    }
+    return toSecond(high);
+}
+
+function toSecond(time: number): number {
+    return Math.round(time / 1000) * 1000;
+}
+
+function toPass(
+    sat: TleRecord,
+    satrec: satellite.SatRec,
+    observerGd: satellite.GeodeticLocation,
+    aosTime: number,
+    tcaTime: number,
+    losTime: number,
+    swath: SwathCoverage | null
+): SatellitePass {
+    const event = (time: number): PassEvent => lookAngles(satrec, observerGd, new Date(time)) ?? { time: new Date(time), elevation: 0, azimuth: 0 };
+    const tca = event(tcaTime);
+
+    return {
+        satelliteName: sat.name,
+        noradId: sat.noradId,
+        time: tca.time,
+        elevation: tca.elevation,
+        azimuth: tca.azimuth,
+        aos: event(aosTime),
+        tca,
+        los: event(losTime),
+        duration: Math.round((losTime - aosTime) / 1000),
+        swath,
+        tleEpoch: sat.epoch,
+        tleAgeDays: Math.round(tleAgeDays(sat.epoch, tca.time) * 100) / 100,
+    };
+}
@@ -0,0 +1,169 @@
+/**
+ * Satellite capability catalog
+ * The one list of tracked satellites: the worker fetches their TLEs and serves it as GET /api/satellites,
+ * the orbital engine takes swath geometry from it, and the AI prompt and the Sidebar describe sensors with it
+ */
+
+export type SensorType = 'optical' | 'thermal' | 'sar';
+
+export interface SatelliteSensor {
+    name: string;
+    type: SensorType;
+    bands: string[]; // Spectral bands (radar band for SAR)
+    resolutionM: number; // Best ground sample distance in meters
+}
+
+export interface SatelliteInfo {
+    id: string; // Stable slug, e.g. 'landsat-8'
+    noradId: number;
+    name: string; // Display name
+    tleName: string; // CelesTrak OBJECT_NAME
+    operator: string;
+    sensors: SatelliteSensor[];
+    swathKm: number; // Imaging swath of the widest-reaching sensor
+    maxOffNadirDeg: number; // Pointing/look angle beyond the nadir swath (0 = nadir only)
+    revisitDays: number; // Repeat cycle of this satellite alone
+    sar: boolean; // Sees through cloud and smoke, day and night
+    thermal: boolean; // Thermal infrared (active fire, lava)
+}
+
+const OLI_BANDS = ['Coastal', 'Blue', 'Green', 'Red', 'NIR', 'SWIR-1', 'SWIR-2', 'Panchromatic', 'Cirrus'];
+const TIRS_BANDS = ['TIR-1 (10.9 µm)', 'TIR-2 (12.0 µm)'];
+const MSI_BANDS = ['Coastal', 'Blue', 'Green', 'Red', 'Red edge 1-3', 'NIR', 'Narrow NIR', 'Water vapour', 'Cirrus', 'SWIR-1', 'SWIR-2'];
+const MODIS_BANDS = ['Visible', 'NIR', 'SWIR', 'MWIR (fire)', 'TIR'];
+const OLCI_BANDS = ['Visible (16 bands)', 'NIR (5 bands)'];
+const SLSTR_BANDS = ['Visible', 'NIR', 'SWIR', 'MWIR (fire)', 'TIR'];
+const VIIRS_BANDS = ['Visible', 'Day/Night band', 'NIR', 'SWIR', 'MWIR (fire)', 'TIR'];
+
+const landsat = (id: string, noradId: number, name: string, oli: string, tirs: string): SatelliteInfo => ({
+    id,
+    noradId,
+    name,
+    tleName: name.toUpperCase(),
+    operator: 'NASA/USGS',
+    sensors: [
+        { name: oli, type: 'optical', bands: OLI_BANDS, resolutionM: 15 },
+        { name: tirs, type: 'thermal', bands: TIRS_BANDS, resolutionM: 100 },
+    ],
+    swathKm: 185,
+    maxOffNadirDeg: 0,
+    revisitDays: 16,
+    sar: false,
+    thermal: true,
+});
+
+const sentinel2 = (id: string, noradId: number, unit: string): SatelliteInfo => ({
+    id,
+    noradId,
+    name: `Sentinel-2${unit}`,
+    tleName: `SENTINEL-2${unit}`,
+    operator: 'ESA/Copernicus',
+    sensors: [{ name: 'MSI', type: 'optical', bands: MSI_BANDS, resolutionM: 10 }],
+    swathKm: 290,
+    maxOffNadirDeg: 0,
+    revisitDays: 10,
+    sar: false,
+    thermal: false,
+});
+
+const sentinel3 = (id: string, noradId: number, unit: string): SatelliteInfo => ({
+    id,
+    noradId,
+    name: `Sentinel-3${unit}`,
+    tleName: `SENTINEL-3${unit}`,
+    operator: 'ESA/EUMETSAT',
+    sensors: [
+        { name: 'OLCI', type: 'optical', bands: OLCI_BANDS, resolutionM: 300 },
+        { name: 'SLSTR', type: 'thermal', bands: SLSTR_BANDS, resolutionM: 500 },
+    ],
+    swathKm: 1420, // SLSTR nadir view (OLCI: 1270 km)
+    maxOffNadirDeg: 0,
+    revisitDays: 2,
+    sar: false,
+    thermal: true,
+});
+
+const modis = (id: string, noradId: number, name: string): SatelliteInfo => ({
+    id,
+    noradId,
+    name,
+    tleName: name.toUpperCase(),
+    operator: 'NASA',
+    sensors: [{ name: 'MODIS', type: 'thermal', bands: MODIS_BANDS, resolutionM: 250 }],
+    swathKm: 2330,
+    maxOffNadirDeg: 0,
+    revisitDays: 1,
+    sar: false,
+    thermal: true,
+});
+
+const viirs = (id: string, noradId: number, name: string, tleName: string): SatelliteInfo => ({
+    id,
+    noradId,
+    name,
+    tleName,
+    operator: 'NOAA/NASA',
+    sensors: [{ name: 'VIIRS', type: 'thermal', bands: VIIRS_BANDS, resolutionM: 375 }],
+    swathKm: 3040,
+    maxOffNadirDeg: 0,
+    revisitDays: 0.5,
+    sar: false,
+    thermal: true,
+});
+
+/** Every tracked satellite, in display order */
+export const SATELLITE_CATALOG: SatelliteInfo[] = [
+    landsat('landsat-8', 39084, 'Landsat 8', 'OLI', 'TIRS'),
+    landsat('landsat-9', 49260, 'Landsat 9', 'OLI-2', 'TIRS-2'),
+    sentinel2('sentinel-2a', 40697, 'A'),
+    sentinel2('sentinel-2b', 42063, 'B'),
+    {
+        id: 'sentinel-1a',
+        noradId: 39634,
+        name: 'Sentinel-1A',
+        tleName: 'SENTINEL-1A',
+        operator: 'ESA/Copernicus',
+        sensors: [{ name: 'C-SAR', type: 'sar', bands: ['C-band (5.405 GHz)'], resolutionM: 5 }],
+        // Interferometric Wide mode: 250 km, looking 29-46° off nadir to the right; the reach
+        // (half swath + pointing) approximates the far edge and ignores the look side
+        swathKm: 250,
+        maxOffNadirDeg: 32,
+        revisitDays: 12,
+        sar: true,
+        thermal: false,
+    },
+    sentinel3('sentinel-3a', 41335, 'A'),
+    sentinel3('sentinel-3b', 43437, 'B'),
+    modis('terra', 25994, 'Terra'),
+    modis('aqua', 27424, 'Aqua'),
+    viirs('suomi-npp', 37849, 'Suomi NPP', 'SUOMI NPP'),
+    viirs('noaa-20', 43013, 'NOAA-20', 'NOAA 20 (JPSS-1)'),
+    viirs('noaa-21', 54234, 'NOAA-21', 'NOAA 21 (JPSS-2)'),
+];
+
+/** NORAD catalog numbers of the tracked satellites */
+export const SATELLITE_NORAD_IDS = SATELLITE_CATALOG.map((sat) => sat.noradId);
+
+/**
+ * Catalog entry for a NORAD id
+ */
+export function satelliteByNoradId(noradId: number): SatelliteInfo | undefined {
+    return SATELLITE_CATALOG.find((sat) => sat.noradId === noradId);
+}
+
+/**
+ * Catalog entry for a TLE or display name ("LANDSAT 8", "Landsat-8", "NOAA 20 (JPSS-1)"), ignoring case and punctuation
+ */
+export function satelliteByName(name: string): SatelliteInfo | undefined {
+    const key = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    return SATELLITE_CATALOG.find((sat) => key(sat.tleName) === key(name) || key(sat.name) === key(name));
+}
+
+/**
+ * One-line capability summary, e.g. "OLI optical 15 m, TIRS thermal 100 m; 185 km swath; 16-day revisit"
+ */
+export function describeSatellite(sat: SatelliteInfo): string {
+    const sensors = sat.sensors.map((sensor) => `${sensor.name} ${sensor.type} ${sensor.resolutionM} m`).join(', ');
+    const revisit = sat.revisitDays < 1 ? `${Math.round(sat.revisitDays * 24)}-hour` : `${sat.revisitDays}-day`;
+    return `${sensors}; ${sat.swathKm} km swath; ${revisit} revisit`;
+}